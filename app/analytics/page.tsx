@@ -0,0 +1,240 @@
+import Link from 'next/link';
+import {
+  getToolAnalytics,
+  getUsageReport,
+  listAnalyticsConversations,
+} from '@/lib/actions/analytics';
+import { formatCost } from '@/lib/llm/pricing';
+import type { PricedUsage } from '@/lib/llm/types';
+
+type UsageStats = PricedUsage & { calls: number };
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{
+    startDate?: string;
+    endDate?: string;
+    conversationId?: string;
+  }>;
+}
+
+/**
+ * Tool call and LLM usage analytics dashboard
+ * Server-rendered from aggregate queries over tool_invocations and llm_usage
+ */
+export default async function AnalyticsPage({ searchParams }: AnalyticsPageProps) {
+  const { startDate, endDate, conversationId } = await searchParams;
+  const filters = {
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+    conversationId: conversationId || undefined,
+  };
+
+  const [analyticsResult, usageResult, conversationsResult] = await Promise.all([
+    getToolAnalytics(filters),
+    getUsageReport(filters),
+    listAnalyticsConversations(),
+  ]);
+
+  const conversationOptions = conversationsResult.success ? conversationsResult.conversations : [];
+
+  return (
+    <div className="min-h-screen max-w-5xl mx-auto p-4 space-y-6">
+      <header className="py-4 border-b flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Tool Call Analytics</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            How often each tool is called, how often it fails and how long it takes, and what the
+            model calls cost
+          </p>
+        </div>
+        <Link href="/chat" className="text-sm text-blue-600 hover:underline">
+          Back to chat
+        </Link>
+      </header>
+
+      {/* Filters are plain GET params so the page stays server-rendered */}
+      <form method="get" className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600 dark:text-gray-400">From</span>
+          <input
+            type="date"
+            name="startDate"
+            defaultValue={filters.startDate}
+            className="px-3 py-2 border rounded-lg dark:bg-gray-800 dark:border-gray-700"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600 dark:text-gray-400">To</span>
+          <input
+            type="date"
+            name="endDate"
+            defaultValue={filters.endDate}
+            className="px-3 py-2 border rounded-lg dark:bg-gray-800 dark:border-gray-700"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600 dark:text-gray-400">Conversation</span>
+          <select
+            name="conversationId"
+            defaultValue={filters.conversationId ?? ''}
+            className="px-3 py-2 border rounded-lg dark:bg-gray-800 dark:border-gray-700"
+          >
+            <option value="">All conversations</option>
+            {conversationOptions.map((conversation) => (
+              <option key={conversation.id} value={conversation.id}>
+                {conversation.title || conversation.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Apply
+        </button>
+        <Link href="/analytics" className="py-2 text-gray-600 dark:text-gray-400 hover:underline">
+          Reset
+        </Link>
+      </form>
+
+      {!analyticsResult.success ? (
+        <p className="text-red-600 dark:text-red-400">{analyticsResult.error}</p>
+      ) : analyticsResult.analytics.tools.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No tool calls logged for these filters</p>
+      ) : (
+        <>
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Per-tool metrics</h2>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Tool</th>
+                  <th className="py-2 text-right">Calls</th>
+                  <th className="py-2 text-right">Errors</th>
+                  <th className="py-2 text-right">Error rate</th>
+                  <th className="py-2 text-right">p50</th>
+                  <th className="py-2 text-right">p95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analyticsResult.analytics.tools.map((tool) => (
+                  <tr key={tool.toolName} className="border-b">
+                    <td className="py-2 font-mono">{tool.toolName}</td>
+                    <td className="py-2 text-right">{tool.callCount}</td>
+                    <td className="py-2 text-right">{tool.errorCount}</td>
+                    <td className="py-2 text-right">{(tool.errorRate * 100).toFixed(1)}%</td>
+                    <td className="py-2 text-right">{formatDuration(tool.p50DurationMs)}</td>
+                    <td className="py-2 text-right">{formatDuration(tool.p95DurationMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Most common failing parameters</h2>
+            {analyticsResult.analytics.failingParameters.length === 0 ? (
+              <p className="text-sm text-gray-500">No failed tool calls</p>
+            ) : (
+              <ul className="space-y-2">
+                {analyticsResult.analytics.failingParameters.map((failure, idx) => (
+                  <li
+                    key={`${failure.toolName}-${idx}`}
+                    className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg px-4 py-3 text-sm"
+                  >
+                    <div className="flex justify-between">
+                      <span className="font-mono font-medium">{failure.toolName}</span>
+                      <span>{failure.failureCount}×</span>
+                    </div>
+                    <pre className="mt-1 font-mono text-xs whitespace-pre-wrap">
+                      {JSON.stringify(failure.parameters)}
+                    </pre>
+                    {failure.sampleError && (
+                      <div className="mt-1 text-red-600 dark:text-red-400">{failure.sampleError}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">LLM usage and cost</h2>
+        {!usageResult.success ? (
+          <p className="text-red-600 dark:text-red-400">{usageResult.error}</p>
+        ) : usageResult.report.total.calls === 0 ? (
+          <p className="text-sm text-gray-500">No model calls logged for these filters</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {usageResult.report.total.calls} model calls, {formatTokens(usageResult.report.total)}{' '}
+              tokens,{' '}
+              <span className="font-medium">{formatCost(usageResult.report.total.costUsd)}</span>
+            </p>
+            <UsageTable
+              label="Model"
+              rows={usageResult.report.byModel.map((row) => ({
+                key: row.model,
+                name: <span className="font-mono">{row.model}</span>,
+                ...row,
+              }))}
+            />
+            <UsageTable
+              label="Conversation"
+              rows={usageResult.report.byConversation.map((row) => ({
+                key: row.conversationId,
+                name: row.title || row.conversationId,
+                ...row,
+              }))}
+            />
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+interface UsageTableProps {
+  label: string;
+  rows: Array<UsageStats & { key: string; name: React.ReactNode }>;
+}
+
+function UsageTable({ label, rows }: UsageTableProps) {
+  return (
+    <table className="w-full text-sm border-collapse">
+      <thead>
+        <tr className="text-left border-b">
+          <th className="py-2">{label}</th>
+          <th className="py-2 text-right">Calls</th>
+          <th className="py-2 text-right">Input</th>
+          <th className="py-2 text-right">Cached</th>
+          <th className="py-2 text-right">Output</th>
+          <th className="py-2 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-b">
+            <td className="py-2">{row.name}</td>
+            <td className="py-2 text-right">{row.calls}</td>
+            <td className="py-2 text-right">{row.inputTokens.toLocaleString()}</td>
+            <td className="py-2 text-right">{row.cachedInputTokens.toLocaleString()}</td>
+            <td className="py-2 text-right">{row.outputTokens.toLocaleString()}</td>
+            <td className="py-2 text-right">{formatCost(row.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function formatTokens(usage: UsageStats): string {
+  return (usage.inputTokens + usage.outputTokens).toLocaleString();
+}
+
+function formatDuration(durationMs: number | null): string {
+  return durationMs === null ? '—' : `${durationMs} ms`;
+}
@@ -10,96 +10,206 @@
  * 4. How tools execute during streaming
  */
 
-import { groq } from '@ai-sdk/groq';
-import { streamText, tool, convertToModelMessages, stepCountIs } from 'ai';
-import { z } from 'zod';
-import { getWeather } from '@/lib/weather';
-import { parseHumanDate as parseDate } from '@/lib/date-parser';
+import { streamText, convertToModelMessages, stepCountIs, type UIMessage } from 'ai';
+import { format } from 'date-fns';
+import {
+  toolRegistry,
+  toAISDKTools,
+  generateConversationTitle,
+  createLanguageModel,
+  getChainCapabilities,
+  selectModels,
+  FallbackLanguageModel,
+  getRetryPolicy,
+  getPriceTable,
+  priceUsage,
+  toTokenUsage,
+  fitToContext,
+  getContextBudget,
+  summarizeConversation,
+  type ChatMessageMetadata,
+  type ModelInfo,
+  type StepUsage,
+} from '@/lib/llm';
+import { saveToolInvocation } from '@/lib/actions/tool-invocations';
+import { saveUsage } from '@/lib/actions/usage';
+import { isUnitSystem } from '@/lib/weather/units';
+import { getReferenceDay, isTimeZone } from '@/lib/date-parser';
+import {
+  findOrCreateConversation,
+  getConversation,
+  renameConversation,
+  saveConversationSummary,
+  saveMessage,
+} from '@/lib/actions/messages';
 
 // Allow up to 30 seconds for streaming responses
 export const maxDuration = 30;
 
+// Maximum OUTPUT tokens per step, also kept free in the context budget
+const MAX_OUTPUT_TOKENS = 500;
+
 export async function POST(req: Request) {
   try {
     // Step 1: Extract the request body
     const body = await req.json();
-    const { messages } = body;
+    const messages: UIMessage[] = body.messages;
+    // The user's metric/imperial preference, sent by the chat page
+    const units = isUnitSystem(body.units) ? body.units : 'metric';
+    // The browser's time zone, so relative dates use the user's today
+    const timeZone = isTimeZone(body.timeZone) ? body.timeZone : undefined;
+    const today = format(getReferenceDay({ timeZone }), 'EEEE, yyyy-MM-dd');
+
+    // A "provider/model" key from the request, else LLM_MODEL, else the
+    // default, followed by the LLM_FALLBACK_MODELS chain. Without a model
+    // in the request, a failure is the server's configuration
+    let models: ModelInfo[];
+    try {
+      models = selectModels(body.model);
+    } catch (error) {
+      return Response.json(
+        {
+          error: body.model ? 'Invalid model' : 'Model not configured',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: body.model ? 400 : 500 }
+      );
+    }
 
     console.log('[Chat API] Received messages:', messages);
-    console.log('[Chat API] Using Groq for streaming with tools...');
+
+    // Messages are persisted here rather than in the browser, so replies
+    // survive a closed tab and direct API callers are persisted too.
+    // Callers without a saved conversation get a new one, returned in a header
+    const conversationId = await resolveConversationId(body.conversationId);
+
+    const lastMessage = messages[messages.length - 1];
+    if (conversationId && lastMessage?.role === 'user') {
+      await saveMessage({ conversationId, role: 'user', parts: lastMessage.parts });
+    }
+    const [modelInfo] = models;
+    const capabilities = getChainCapabilities(models);
+    console.log(`[Chat API] Using ${modelInfo.id} for streaming with tools...`);
+
+    // Model configuration
+    // Models come from the registry in lib/llm/models.ts, with flags for
+    // what each one supports, so settings not every model in the chain
+    // supports are left out below.
+    // Rate limits, server errors and timeouts are retried with backoff,
+    // then the next model in the chain takes over for the rest of the reply
+    const model = new FallbackLanguageModel(
+      models.map((info) => ({ info, model: createLanguageModel(info) })),
+      {
+        policy: getRetryPolicy(),
+        onFallback: (from, to) => {
+          console.warn(`[Chat API] Falling back from ${from.id} to ${to.id}`);
+        },
+      }
+    );
+
+    // Tokens used by each step, priced for the client and saved with the reply
+    const prices = getPriceTable();
+    const stepUsage: StepUsage[] = [];
+
+    // System prompt to guide the AI
+    const system = `You are a helpful travel planning assistant. Your main goal is to help the user have a packing list to ensure they don't forget anything important. 
+      Use tools when needed to provide accurate information (e.g. calculate relative dates from user input before getting weather forecast for those days).
+      Today is ${today}${timeZone ? ` in the user's time zone (${timeZone})` : ''}; the date tools already count relative dates from it.
+      When the user describes the trip period (e.g. "next weekend", "Dec 20 – Jan 2"), use parse_date_range to get the start and end dates and number of nights, and pass the dates straight into get_weather.
+      If the user writes numeric dates day first (e.g. 25/12), pass dateOrder "DMY" to the date tools. The date tools understand English, Spanish and Portuguese, so pass dates in the words the user used. If a date tool can't parse the input, rephrase it using what the error says was expected, or ask the user.
+      account for how many days the trip will be, to plan how many outfits to suggest. Interact with the user to get any missing information and preferences of type of activites.
+      If get_weather returns ambiguous location candidates, ask the user which one they meant before continuing.
+      Weather days with source "climatology" are typical conditions for the time of year, not a forecast: say so, and pack for the range of weather that is common then.
+      The user prefers ${units} units, which get_weather already uses; quote temperatures, wind and rain in them.
+      Use the UV index, wind speed and precipitation amounts in your advice (e.g. sunscreen and a hat for UV 6+, a windbreaker for strong wind, waterproofs for heavy rain).
+      If get_weather returns alerts, tell the user about them and add safety items to the packing list (e.g. electrolytes and a cooling towel for heat, thermal layers and traction cleats for freezing weather, a flashlight and power bank for storms, waterproof bags for heavy rain).
+      Once the packing list is ready, save it with create_checklist (grouping items by category, with quantities), and use add_checklist_items or remove_checklist_item to apply later changes to the saved checklist.`;
+
+    // Long conversations are fitted into the smallest context window in the
+    // chain: older tool results become digests, then older turns are
+    // summarized. The summary is stored and reused on later turns
+    const conversation = conversationId ? await getConversation(conversationId) : null;
+    const stored = conversation?.success ? conversation.conversation : null;
+    const context = await fitToContext(messages, {
+      budget: getContextBudget(models, { system, maxOutputTokens: MAX_OUTPUT_TOKENS }),
+      summary: stored?.summary
+        ? { text: stored.summary, messageCount: stored.summaryMessageCount ?? 0 }
+        : null,
+      summarize: async (older, previousSummary) => {
+        const { text, usage } = await summarizeConversation(older, previousSummary, model);
+        stepUsage.push({ model: model.active.id, ...toTokenUsage(usage) });
+        return text;
+      },
+    });
+    if (conversationId && context.summary && context.summaryChanged) {
+      await saveConversationSummary(conversationId, context.summary);
+    }
+    console.log(
+      `[Chat API] Sending ${context.messages.length} of ${messages.length} messages, ~${context.estimatedTokens} tokens` +
+        (context.summary ? ` after a summary of ${context.summary.messageCount}` : '')
+    );
 
     // Step 2: Convert UIMessages to ModelMessages
     // The useChat hook sends UIMessages (with parts, id, etc.)
     // But streamText expects ModelMessages (with role, content)
-    const modelMessages = convertToModelMessages(messages);
+    const modelMessages = convertToModelMessages(context.messages);
     console.log('[Chat API] Converted to model messages:', modelMessages);
 
     // Step 3: Use AI SDK's streamText()
     // This is where the magic happens!
     //
     // streamText() does ALL of this for us:
-    // - Calls Groq API with streaming enabled
-    // - Receives Server-Sent Events from Groq
+    // - Calls the provider's API with streaming enabled
+    // - Receives Server-Sent Events from the provider
     // - Converts to a ReadableStream
     // - Handles errors and retries
     // - Formats response for Next.js
     //
     // With AI SDK v5, we get the result synchronously (no await needed!)
     const result = streamText({
-      // Model configuration
-      // Using llama-3.3-70b-versatile - Groq's powerful model with tool calling support
-      // Other options: llama-3.1-70b-versatile, mixtral-8x7b-32768
-      model: groq('llama-3.3-70b-versatile'),
+      model,
 
       // Messages array (OpenAI chat format)
       // Each message has: { role: 'user' | 'assistant' | 'system', content: string }
       // We convert from UIMessages to ModelMessages using convertToModelMessages
       messages: modelMessages,
 
-      // Optional: System prompt to guide the AI
-      system: `You are a helpful travel planning assistant. Your main goal is to help the user have a packing list to ensure they don't forget anything important. 
-      Use tools when needed to provide accurate information (e.g. calculate relative dates from user input before getting weather forecast for those days).
-      account for how many days the trip will be, to plan how many outfits to suggest. Interact with the user to get any missing information and preferences of type of activites.`,
+      system: context.summary
+        ? `${system}\n\nSummary of the earlier conversation, whose messages are not included:\n${context.summary.text}`
+        : system,
 
-      // Note: temperature is NOT supported for reasoning models like gpt-5-nano
-      // temperature: 0.7, // Removed - not supported
+      // Note: temperature is NOT supported for reasoning models like gpt-5-nano,
+      // so it's only sent when every model in the chain supports it
+      temperature: capabilities.temperature ? 0.7 : undefined,
 
       // Optional: Maximum OUTPUT tokens to generate (renamed from maxTokens in v5)
-      maxOutputTokens: 500,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
       stopWhen: stepCountIs(10),
+      // Retries happen per model in the fallback chain instead
+      maxRetries: 0,
 
       // 🎓 SESSION 4: Add tools for the LLM to call
       // Tools are functions the AI can invoke during conversation
-      // In AI SDK v5, we use the tool() helper with Zod schemas for type safety
-      tools: {
-        // Weather tool - fetch forecasts for trip planning
-        get_weather: tool({
-          description: 'Fetches weather forecast for a location and date range',
-          inputSchema: z.object({
-            location: z.string().describe('City name or coordinates'),
-            startDate: z.string().describe('Start date (YYYY-MM-DD)'),
-            endDate: z.string().describe('End date (YYYY-MM-DD)'),
-          }),
-          execute: async ({ location, startDate, endDate }) => {
-            console.log('[Tool] Executing get_weather:', { location, startDate, endDate });
-            const result = await getWeather(location, startDate, endDate);
-            console.log('[Tool] get_weather result:', result);
-            return result;
-          },
-        }),
-        date_parser: tool({
-          description: 'Parses a date string into a standardized format',
-          inputSchema: z.object({
-            dateString: z.string().describe('Date string to parse'),
-          }),
-          execute: async ({ dateString }) => {
-            console.log('[Tool] Executing date_parser:', { dateString });
-            const result = await parseDate(dateString);
-            console.log('[Tool] date_parser result:', result);
-            return result;
-          },
-        }),
-      },
+      // Every tool registered in lib/llm is adapted into an AI SDK tool,
+      // so adding a tool only means registering it once.
+      // Each call is logged to tool_invocations with the executor's timing.
+      // Chains with a model without tool calling just chat
+      tools: capabilities.toolCalling
+        ? toAISDKTools(toolRegistry.getAll(), {
+            context: { conversationId: conversationId ?? undefined, units, timeZone },
+            onToolResult: async (invocation, toolResult) => {
+              if (!conversationId) return;
+              await saveToolInvocation({
+                conversationId,
+                toolName: invocation.name,
+                parameters: invocation.parameters,
+                result: toolResult.result,
+                error: toolResult.error,
+                durationMs: toolResult.durationMs,
+              });
+            },
+          })
+        : undefined,
 
       // 🎓 SESSION 4: Configure tool calling behavior
       // 'auto' - Let the LLM decide when to use tools based on the conversation
@@ -111,7 +221,11 @@ export async function POST(req: Request) {
       // 🎓 SESSION 4: Add callbacks to monitor tool invocations
       onStepFinish: (step) => {
         console.log('[Chat API] Step finished');
-        console.log('[Chat API] Request body sent to Groq:', JSON.stringify(step.request?.body, null, 2));
+        stepUsage.push({ model: model.active.id, ...toTokenUsage(step.usage) });
+        console.log(
+          `[Chat API] Request body sent to ${model.active.id}:`,
+          JSON.stringify(step.request?.body, null, 2)
+        );
         if (step.toolCalls && step.toolCalls.length > 0) {
           console.log('[Chat API] Tool calls:', JSON.stringify(step.toolCalls, null, 2));
         }
@@ -123,6 +237,7 @@ export async function POST(req: Request) {
       onFinish: (result) => {
         console.log('[Chat API] Finished!');
         console.log('[Chat API] Text length:', result.text?.length || 0);
+        console.log('[Chat API] Usage:', priceUsage(stepUsage, prices));
         console.log('[Chat API] Tool calls count:', result.toolCalls?.length || 0);
         if (result.toolCalls && result.toolCalls.length > 0) {
           console.log('[Chat API] Tool calls:', JSON.stringify(result.toolCalls, null, 2));
@@ -141,7 +256,50 @@ export async function POST(req: Request) {
     // toUIMessageStreamResponse() - Streams UI messages including tool calls and results
     //
     // This is REQUIRED for tool calling to work properly!
-    return result.toUIMessageStreamResponse();
+    //
+    // consumeStream() keeps the stream running even if the client
+    // disconnects, so onFinish below still persists the assistant reply
+    result.consumeStream();
+
+    return result.toUIMessageStreamResponse({
+      originalMessages: messages,
+      headers: conversationId ? { 'X-Conversation-Id': conversationId } : undefined,
+      // Tell the client which model answered, in case the chain fell back,
+      // and what the reply cost
+      messageMetadata: ({ part }): ChatMessageMetadata | undefined =>
+        part.type === 'finish'
+          ? { model: model.active.id, usage: priceUsage(stepUsage, prices) }
+          : undefined,
+      onFinish: async ({ messages: allMessages, responseMessage }) => {
+        if (!conversationId) return;
+        // The response message holds every step's text and tool parts
+        const saved = await saveMessage({
+          conversationId,
+          role: 'assistant',
+          parts: responseMessage.parts,
+          model: model.active.id,
+        });
+        await saveUsage({
+          conversationId,
+          messageId: saved.success ? saved.messageId : undefined,
+          steps: stepUsage,
+        });
+
+        // Title the conversation after its first exchange. The tokens count
+        // towards the conversation, not the reply
+        const conversation = await getConversation(conversationId);
+        if (conversation.success && !conversation.conversation.title) {
+          const { title, usage } = await generateConversationTitle(allMessages, model);
+          await renameConversation(conversationId, title);
+          if (usage) {
+            await saveUsage({
+              conversationId,
+              steps: [{ model: model.active.id, ...toTokenUsage(usage) }],
+            });
+          }
+        }
+      },
+    });
 
     // 🎓 LEARNING NOTE:
     // Behind the scenes, this is similar to Session 1:
@@ -167,9 +325,23 @@ export async function POST(req: Request) {
     return Response.json(
       {
         error: 'Failed to process chat request',
-        details: error instanceof Error ? error.message : 'Unknown error'
+        details: error instanceof Error ? error.message : 'Unknown error',
       },
       { status: 500 }
     );
   }
 }
+
+/**
+ * Use the caller's conversation if it exists, or create one for callers
+ * that didn't send an ID or sent one that isn't saved
+ */
+async function resolveConversationId(conversationId: unknown): Promise<string | null> {
+  const result = await findOrCreateConversation(conversationId);
+  if (!result.success) {
+    console.warn('[Chat API] Could not create conversation, messages will not be persisted');
+    return null;
+  }
+
+  return result.conversationId;
+}
@@ -0,0 +1,49 @@
+/**
+ * Checklist PDF Route - Downloads a saved checklist as a PDF
+ */
+
+import { getChecklist } from '@/lib/actions/checklists';
+import { generatePDF } from '@/lib/pdf';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const checklistResult = await getChecklist(id);
+  if (!checklistResult.success) {
+    const status = checklistResult.error === 'Checklist not found' ? 404 : 500;
+    return Response.json({ error: checklistResult.error }, { status });
+  }
+
+  const { destination, startDate, endDate, items } = checklistResult.checklist;
+  const pdfResult = await generatePDF({
+    destination,
+    startDate,
+    endDate,
+    items: items.map((item) => ({
+      item: item.item,
+      category: item.category ?? undefined,
+      quantity: item.quantity ?? undefined,
+      packed: item.packed,
+    })),
+  });
+
+  if (!pdfResult.success || !pdfResult.pdf) {
+    return Response.json(
+      {
+        error: 'Failed to generate PDF',
+        details: pdfResult.error ?? 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+
+  const slug = destination.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const filename = `packing-list-${slug || 'trip'}-${startDate}.pdf`;
+
+  return new Response(Buffer.from(pdfResult.pdf, 'base64'), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
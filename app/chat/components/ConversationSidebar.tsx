@@ -0,0 +1,116 @@
+/**
+ * ConversationSidebar Component - Lists past conversations
+ *
+ * Selecting a conversation loads its messages back into the chat so it
+ * can be continued. Conversations can also be renamed in place.
+ */
+
+import { useState } from 'react';
+import type { Conversation } from '@/lib/schema';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  disabled?: boolean;
+  onSelect: (conversationId: string) => void;
+  onNewChat: () => void;
+  onRename: (conversationId: string, title: string) => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeConversationId,
+  disabled,
+  onSelect,
+  onNewChat,
+  onRename,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title ?? '');
+  };
+
+  const submitRename = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 shrink-0 border-r pr-4 py-4 space-y-4" aria-label="Conversation history">
+      <button
+        type="button"
+        onClick={onNewChat}
+        disabled={disabled}
+        className="w-full px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        New chat
+      </button>
+
+      {conversations.length === 0 ? (
+        <p className="text-sm text-gray-500">No past conversations</p>
+      ) : (
+        <ul className="space-y-1">
+          {conversations.map((conversation) => {
+            const isActive = conversation.id === activeConversationId;
+
+            if (conversation.id === editingId) {
+              return (
+                <li key={conversation.id}>
+                  <form onSubmit={submitRename} className="flex gap-1">
+                    <input
+                      type="text"
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      aria-label="Conversation title"
+                      autoFocus
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-700"
+                    />
+                    <button type="submit" className="px-2 text-sm text-blue-600">
+                      Save
+                    </button>
+                  </form>
+                </li>
+              );
+            }
+
+            return (
+              <li key={conversation.id} className="flex items-start gap-1">
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled || isActive}
+                  aria-current={isActive ? 'true' : undefined}
+                  className={`flex-1 min-w-0 text-left rounded-lg px-3 py-2 text-sm transition-colors disabled:cursor-not-allowed ${
+                    isActive
+                      ? 'bg-blue-100 dark:bg-blue-900/40 font-medium'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <div className="truncate">{conversation.title || 'New conversation'}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(conversation.updatedAt).toLocaleString()}
+                  </div>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startEditing(conversation)}
+                  aria-label={`Rename ${conversation.title || 'conversation'}`}
+                  className="px-1 py-2 text-sm text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  ✎
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ToolInvocation } from './ToolInvocation';
+
+const weather = {
+  location: 'Paris, Île-de-France, France',
+  units: 'metric',
+  forecast: [
+    {
+      date: '2024-06-01',
+      temperature: { high: 25, low: 14, unit: 'C' },
+      conditions: 'Sunny',
+      precipitation: 10,
+      precipitationAmount: { amount: 12.7, unit: 'mm' },
+      humidity: 60,
+      wind: { speed: 32, unit: 'km/h' },
+      uvIndex: 7,
+      source: 'forecast',
+    },
+  ],
+};
+
+function renderWeather(props: Partial<Parameters<typeof ToolInvocation>[0]> = {}) {
+  return render(
+    <ToolInvocation
+      toolName="get_weather"
+      toolCallId="call-1"
+      state="output-available"
+      output={weather}
+      {...props}
+    />
+  );
+}
+
+describe('ToolInvocation - weather', () => {
+  it('shows temperatures, wind, UV and rain in metric units', () => {
+    renderWeather();
+
+    expect(screen.getByText('Sunny')).toBeInTheDocument();
+    expect(screen.getByText(/25°\/\s*14°C/)).toBeInTheDocument();
+    expect(screen.getByText('Wind 32 km/h')).toBeInTheDocument();
+    expect(screen.getByText('UV 7')).toBeInTheDocument();
+    expect(screen.getByText('Rain 12.7 mm')).toBeInTheDocument();
+  });
+
+  it('converts to the preferred unit system', () => {
+    renderWeather({ units: 'imperial' });
+
+    expect(screen.getByText(/77°\/\s*57°F/)).toBeInTheDocument();
+    expect(screen.getByText('Wind 20 mph')).toBeInTheDocument();
+    expect(screen.getByText('Rain 0.5 in')).toBeInTheDocument();
+  });
+
+  it('shows alerts prominently', () => {
+    renderWeather({
+      output: {
+        ...weather,
+        alerts: [
+          {
+            type: 'heat',
+            severity: 'warning',
+            title: 'Heat warning',
+            description: 'Highs up to 39°C',
+            startDate: '2024-06-01',
+            endDate: '2024-06-02',
+            source: 'threshold',
+          },
+        ],
+      },
+    });
+
+    const alert = screen.getByRole('alert');
+    expect(alert).toHaveTextContent('Heat warning');
+    expect(alert).toHaveTextContent('2024-06-01 to 2024-06-02');
+    expect(alert).toHaveTextContent('Highs up to 39°C');
+  });
+
+  it('marks climate averages', () => {
+    renderWeather({
+      output: {
+        ...weather,
+        forecast: [{ ...weather.forecast[0], wind: null, source: 'climatology' }],
+      },
+    });
+
+    expect(screen.getByText('avg')).toBeInTheDocument();
+    expect(screen.getByText('Wind n/a')).toBeInTheDocument();
+  });
+});
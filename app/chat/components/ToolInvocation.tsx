@@ -7,6 +7,19 @@
  * the tool parameters and results.
  */
 
+import {
+  UNITS,
+  convertPrecipitation,
+  convertSpeed,
+  convertTemperature,
+  type PrecipitationUnit,
+  type SpeedUnit,
+  type TemperatureUnit,
+  type UnitSystem,
+} from '@/lib/weather/units';
+
+const CHECKLIST_TOOLS = ['create_checklist', 'add_checklist_items', 'remove_checklist_item'];
+
 interface ToolInvocationProps {
   toolName: string;
   toolCallId: string;
@@ -14,6 +27,8 @@ interface ToolInvocationProps {
   input?: unknown;
   output?: unknown;
   errorText?: string;
+  /** Units to display weather in, whatever units the result used */
+  units?: UnitSystem;
 }
 
 export function ToolInvocation({
@@ -22,6 +37,7 @@ export function ToolInvocation({
   input,
   output,
   errorText,
+  units = 'metric',
 }: ToolInvocationProps) {
   // Determine the display state
   const isLoading = state === 'input-streaming';
@@ -38,6 +54,14 @@ export function ToolInvocation({
       };
     }
 
+    if (CHECKLIST_TOOLS.includes(toolName)) {
+      return {
+        icon: '🧳',
+        title: toolName === 'create_checklist' ? 'Saving Checklist' : 'Updating Checklist',
+        loadingMessage: 'Saving packing list...',
+      };
+    }
+
     // Default for unknown tools
     return {
       icon: '🛠️',
@@ -64,7 +88,7 @@ export function ToolInvocation({
         </div>
 
         {/* Show input parameters */}
-        {input && typeof input === 'object' && Object.keys(input).length > 0 && (
+        {input !== null && typeof input === 'object' && Object.keys(input).length > 0 && (
           <div className="mt-2 text-sm">
             <div className="text-purple-700 dark:text-purple-300 font-medium mb-1">
               Parameters:
@@ -97,12 +121,13 @@ export function ToolInvocation({
         )}
 
         {/* Success state with output */}
-        {isComplete && output && (
+        {isComplete && output !== undefined && output !== null && (
           <div className="mt-2 text-sm">
             <div className="text-green-700 dark:text-green-300 font-medium mb-1">
               ✓ Complete
             </div>
-            {toolName === 'get_weather' && <WeatherOutput data={output} />}
+            {toolName === 'get_weather' && <WeatherOutput data={output} units={units} />}
+            {CHECKLIST_TOOLS.includes(toolName) && <ChecklistOutput data={output} />}
           </div>
         )}
       </div>
@@ -113,21 +138,55 @@ export function ToolInvocation({
 /**
  * Weather-specific output display
  */
-function WeatherOutput({ data }: { data: unknown }) {
+function WeatherOutput({ data, units }: { data: unknown; units: UnitSystem }) {
   // Type guard for weather data
   if (!data || typeof data !== 'object') {
     return <div className="text-gray-600 dark:text-gray-400">No weather data available</div>;
   }
 
   const weatherData = data as {
+    status?: string;
+    query?: string;
+    candidates?: Array<{ label: string }>;
     location?: string;
     forecast?: Array<{
       date: string;
-      temperature: { high: number; low: number };
-      condition: string;
+      temperature: { high: number; low: number; unit?: TemperatureUnit };
+      conditions: string;
+      // Wind, UV and precipitation amounts are missing from older results
+      precipitationAmount?: { amount: number; unit: PrecipitationUnit };
+      wind?: { speed: number; unit: SpeedUnit } | null;
+      uvIndex?: number;
+      source?: 'forecast' | 'climatology';
+    }>;
+    alerts?: Array<{
+      severity: 'advisory' | 'warning';
+      title: string;
+      description: string;
+      startDate: string;
+      endDate: string;
     }>;
   };
 
+  const target = UNITS[units];
+  const temperature = (value: number, unit: TemperatureUnit = 'C') =>
+    convertTemperature(value, unit, target.temperature);
+
+  if (weatherData.status === 'ambiguous' && weatherData.candidates) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded p-3 mt-2 text-sm">
+        <div className="font-medium text-gray-900 dark:text-gray-100 mb-1">
+          Which &quot;{weatherData.query}&quot;?
+        </div>
+        <ul className="list-disc list-inside text-gray-700 dark:text-gray-300">
+          {weatherData.candidates.map((candidate) => (
+            <li key={candidate.label}>{candidate.label}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
   if (!weatherData.location || !weatherData.forecast) {
     return <div className="text-gray-600 dark:text-gray-400">Invalid weather data format</div>;
   }
@@ -137,17 +196,150 @@ function WeatherOutput({ data }: { data: unknown }) {
       <div className="font-medium text-gray-900 dark:text-gray-100 mb-2">
         {weatherData.location}
       </div>
+      {weatherData.alerts && weatherData.alerts.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {weatherData.alerts.map((alert) => (
+            <li
+              key={`${alert.title}-${alert.startDate}`}
+              role="alert"
+              className={`rounded border px-2 py-1 text-sm ${
+                alert.severity === 'warning'
+                  ? 'border-red-300 bg-red-50 text-red-800 dark:border-red-700 dark:bg-red-900/30 dark:text-red-200'
+                  : 'border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200'
+              }`}
+            >
+              <span className="font-semibold">⚠️ {alert.title}</span>{' '}
+              <span className="text-xs">
+                {alert.startDate === alert.endDate
+                  ? alert.startDate
+                  : `${alert.startDate} to ${alert.endDate}`}
+              </span>
+              <div>{alert.description}</div>
+            </li>
+          ))}
+        </ul>
+      )}
       <div className="space-y-2">
         {weatherData.forecast.map((day) => (
-          <div key={day.date} className="flex items-center justify-between text-sm">
-            <span className="text-gray-600 dark:text-gray-400">{day.date}</span>
-            <span className="text-gray-700 dark:text-gray-300">{day.condition}</span>
-            <span className="text-gray-900 dark:text-gray-100 font-medium">
-              {day.temperature.high}°/{day.temperature.low}°
-            </span>
+          <div key={day.date} className="text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-400">{day.date}</span>
+              <span className="text-gray-700 dark:text-gray-300">{day.conditions}</span>
+              <span className="text-gray-900 dark:text-gray-100 font-medium">
+                {day.source === 'climatology' && (
+                  <span className="mr-1 text-xs font-normal text-amber-600 dark:text-amber-400">
+                    avg
+                  </span>
+                )}
+                {temperature(day.temperature.high, day.temperature.unit)}°/
+                {temperature(day.temperature.low, day.temperature.unit)}°{target.temperature}
+              </span>
+            </div>
+            {day.uvIndex !== undefined && (
+              <div className="flex gap-3 text-xs text-gray-500 dark:text-gray-400">
+                <span>
+                  Wind{' '}
+                  {day.wind
+                    ? `${convertSpeed(day.wind.speed, day.wind.unit, target.speed)} ${target.speed}`
+                    : 'n/a'}
+                </span>
+                <span>UV {day.uvIndex}</span>
+                {day.precipitationAmount && (
+                  <span>
+                    Rain{' '}
+                    {convertPrecipitation(
+                      day.precipitationAmount.amount,
+                      day.precipitationAmount.unit,
+                      target.precipitation
+                    )}{' '}
+                    {target.precipitation}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {weatherData.forecast.some((day) => day.source === 'climatology') && (
+        <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Days marked avg are beyond the forecast range and show typical weather for the time of
+          year.
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Checklist-specific output display
+ */
+function ChecklistOutput({ data }: { data: unknown }) {
+  // Type guard for checklist data
+  if (!data || typeof data !== 'object') {
+    return <div className="text-gray-600 dark:text-gray-400">No checklist data available</div>;
+  }
+
+  const checklist = data as {
+    id?: string;
+    destination?: string;
+    startDate?: string;
+    endDate?: string;
+    items?: Array<{
+      id: string;
+      item: string;
+      category: string | null;
+      quantity: number | null;
+      packed: boolean;
+    }>;
+  };
+
+  if (!checklist.destination || !checklist.items) {
+    return <div className="text-gray-600 dark:text-gray-400">Invalid checklist data format</div>;
+  }
+
+  const groupedItems = checklist.items.reduce(
+    (acc, item) => {
+      const category = item.category || 'Other';
+      if (!acc[category]) {
+        acc[category] = [];
+      }
+      acc[category].push(item);
+      return acc;
+    },
+    {} as Record<string, typeof checklist.items>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded p-3 mt-2">
+      <div className="font-medium text-gray-900 dark:text-gray-100">{checklist.destination}</div>
+      <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+        {checklist.startDate} to {checklist.endDate}
+      </div>
+      <div className="space-y-2">
+        {Object.entries(groupedItems).map(([category, items]) => (
+          <div key={category}>
+            <div className="text-xs font-semibold uppercase text-gray-500">{category}</div>
+            <ul className="text-sm">
+              {items.map((item) => (
+                <li key={item.id} className="flex justify-between text-gray-700 dark:text-gray-300">
+                  <span>
+                    {item.packed ? '☑' : '☐'} {item.item}
+                  </span>
+                  {item.quantity && item.quantity > 1 && <span>x{item.quantity}</span>}
+                </li>
+              ))}
+            </ul>
           </div>
         ))}
       </div>
+      {checklist.id && (
+        <a
+          href={`/checklists/${checklist.id}`}
+          className="inline-block mt-2 text-sm text-blue-600 hover:underline"
+        >
+          Open checklist →
+        </a>
+      )}
     </div>
   );
 }
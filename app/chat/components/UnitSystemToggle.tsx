@@ -0,0 +1,77 @@
+/**
+ * UnitSystemToggle Component - Switches between metric and imperial units
+ *
+ * The choice is remembered in localStorage, sent with every chat request
+ * so weather tools answer in it, and used to display weather results.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { isUnitSystem, type UnitSystem } from '@/lib/weather/units';
+
+const STORAGE_KEY = 'unitSystem';
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function getSnapshot(): UnitSystem {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  return isUnitSystem(stored) ? stored : 'metric';
+}
+
+function getServerSnapshot(): UnitSystem {
+  return 'metric';
+}
+
+/**
+ * The user's unit system preference and a setter that persists it
+ */
+export function useUnitSystem(): [UnitSystem, (units: UnitSystem) => void] {
+  const units = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const setUnits = (next: UnitSystem) => {
+    window.localStorage.setItem(STORAGE_KEY, next);
+    listeners.forEach((listener) => listener());
+  };
+
+  return [units, setUnits];
+}
+
+interface UnitSystemToggleProps {
+  units: UnitSystem;
+  onChange: (units: UnitSystem) => void;
+}
+
+const OPTIONS: Array<{ value: UnitSystem; label: string }> = [
+  { value: 'metric', label: '°C' },
+  { value: 'imperial', label: '°F' },
+];
+
+export function UnitSystemToggle({ units, onChange }: UnitSystemToggleProps) {
+  return (
+    <div role="group" aria-label="Units" className="flex rounded-lg border dark:border-gray-700">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={units === option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 text-sm first:rounded-l-lg last:rounded-r-lg ${
+            units === option.value
+              ? 'bg-blue-600 text-white'
+              : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * UsageSummary Component - Token usage and cost of the current conversation
+ *
+ * Adds up the usage the chat route attaches to each assistant message's
+ * metadata, including messages loaded from history.
+ */
+
+import type { UIMessage } from '@ai-sdk/react';
+import { formatCost, sumUsage } from '@/lib/llm/pricing';
+import type { ChatMessageMetadata, PricedUsage } from '@/lib/llm/types';
+
+interface UsageSummaryProps {
+  messages: UIMessage[];
+}
+
+export function UsageSummary({ messages }: UsageSummaryProps) {
+  const usages = messages
+    .map((message) => (message.metadata as ChatMessageMetadata | undefined)?.usage)
+    .filter((usage): usage is PricedUsage => usage !== undefined);
+
+  if (usages.length === 0) return null;
+
+  const total = sumUsage(usages);
+  const tokens = total.inputTokens + total.outputTokens;
+
+  return (
+    <p
+      aria-label="Conversation usage"
+      title={`${total.inputTokens.toLocaleString()} input (${total.cachedInputTokens.toLocaleString()} cached), ${total.outputTokens.toLocaleString()} output tokens`}
+      className="text-xs text-gray-500 dark:text-gray-400 mt-1"
+    >
+      {tokens.toLocaleString()} tokens · {formatCost(total.costUsd)}
+    </p>
+  );
+}
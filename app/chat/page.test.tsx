@@ -1,17 +1,31 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
 import { userEvent } from '@testing-library/user-event';
 import ChatPage from './page';
+import { createConversation } from '@/lib/actions/messages';
+import { createMockConversation } from '@/lib/test-helpers/fixtures';
 
 // Mock external dependencies with minimal implementation
 const mockSendMessage = vi.fn();
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const mockSetMessages = vi.fn();
+
+const { mockListConversations, mockGetConversationMessages, mockRenameConversation } = vi.hoisted(
+  () => ({
+    mockListConversations: vi.fn(),
+    mockGetConversationMessages: vi.fn(),
+    mockRenameConversation: vi.fn(),
+  })
+);
 
 vi.mock('@/lib/actions/messages', () => ({
   createConversation: vi.fn().mockResolvedValue({
     success: true,
     conversationId: 'test-conversation-id',
   }),
-  saveMessage: vi.fn().mockResolvedValue({ success: true }),
+  listConversations: mockListConversations,
+  getConversationMessages: mockGetConversationMessages,
+  renameConversation: mockRenameConversation,
 }));
 
 vi.mock('@ai-sdk/react', () => ({
@@ -19,9 +33,15 @@ vi.mock('@ai-sdk/react', () => ({
     messages: [],
     status: 'ready' as const,
     sendMessage: mockSendMessage,
+    setMessages: mockSetMessages,
   }),
 }));
 
+beforeEach(() => {
+  localStorage.clear();
+  mockListConversations.mockResolvedValue({ success: true, conversations: [] });
+});
+
 describe('ChatPage - UI Behavior', () => {
   describe('Initial Rendering', () => {
     it('displays the app title and description', () => {
@@ -108,7 +128,59 @@ describe('ChatPage - UI Behavior', () => {
       await user.type(input, 'Test message');
       await user.click(screen.getByRole('button', { name: 'Send' }));
 
-      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'Test message' });
+      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'Test message' }, expect.anything());
+    });
+
+    it('sends the conversation ID in the request body', async () => {
+      const user = userEvent.setup();
+      mockSendMessage.mockClear();
+
+      render(<ChatPage />);
+
+      const input = screen.getByPlaceholderText('Type your message...');
+      await user.type(input, 'Test{Enter}');
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        { text: 'Test' },
+        { body: { conversationId: 'test-conversation-id', units: 'metric', timeZone } }
+      );
+    });
+
+    it('sends the chosen unit system in the request body', async () => {
+      const user = userEvent.setup();
+      mockSendMessage.mockClear();
+
+      render(<ChatPage />);
+
+      await user.click(screen.getByRole('button', { name: '°F' }));
+      expect(screen.getByRole('button', { name: '°F' })).toHaveAttribute('aria-pressed', 'true');
+
+      await user.type(screen.getByPlaceholderText('Type your message...'), 'Test{Enter}');
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        { text: 'Test' },
+        { body: { conversationId: 'test-conversation-id', units: 'imperial', timeZone } }
+      );
+    });
+
+    it('sends the browser time zone in the request body', async () => {
+      const user = userEvent.setup();
+      mockSendMessage.mockClear();
+      const resolvedOptions = Intl.DateTimeFormat.prototype.resolvedOptions;
+      const spy = vi
+        .spyOn(Intl.DateTimeFormat.prototype, 'resolvedOptions')
+        .mockImplementation(function (this: Intl.DateTimeFormat) {
+          return { ...resolvedOptions.call(this), timeZone: 'Australia/Sydney' };
+        });
+
+      render(<ChatPage />);
+      await user.type(screen.getByPlaceholderText('Type your message...'), 'Test{Enter}');
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        { text: 'Test' },
+        { body: expect.objectContaining({ timeZone: 'Australia/Sydney' }) }
+      );
+      spy.mockRestore();
     });
 
     it('clears input after submission', async () => {
@@ -132,7 +204,37 @@ describe('ChatPage - UI Behavior', () => {
       await user.type(input, '  Hello  ');
       await user.click(screen.getByRole('button', { name: 'Send' }));
 
-      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'Hello' });
+      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'Hello' }, expect.anything());
+    });
+
+    it('keeps the message and shows an error when the conversation cannot be created', async () => {
+      const user = userEvent.setup();
+      mockSendMessage.mockClear();
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(createConversation).mockResolvedValueOnce({
+        success: false,
+        error: 'Failed to create conversation',
+      });
+
+      render(<ChatPage />);
+
+      const input = screen.getByPlaceholderText('Type your message...');
+      await user.type(input, 'Test{Enter}');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        "Couldn't start a conversation. Please try again."
+      );
+      expect(mockSendMessage).not.toHaveBeenCalled();
+      expect(input).toHaveValue('Test');
+
+      await user.type(input, '{Enter}');
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        { text: 'Test' },
+        { body: expect.objectContaining({ conversationId: 'test-conversation-id' }) }
+      );
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      errorSpy.mockRestore();
     });
 
     it('can submit via Enter key', async () => {
@@ -144,8 +246,97 @@ describe('ChatPage - UI Behavior', () => {
       const input = screen.getByPlaceholderText('Type your message...');
       await user.type(input, 'Test{Enter}');
 
-      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'Test' });
+      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'Test' }, expect.anything());
       expect(input).toHaveValue('');
     });
   });
+
+  describe('Conversation History', () => {
+    it('lists past conversations in the sidebar', async () => {
+      mockListConversations.mockResolvedValue({
+        success: true,
+        conversations: [
+          createMockConversation({ id: 'conv-1', title: 'Paris trip' }),
+          createMockConversation({ id: 'conv-2', title: 'Tokyo trip' }),
+        ],
+      });
+
+      render(<ChatPage />);
+
+      expect(await screen.findByText('Paris trip')).toBeInTheDocument();
+      expect(screen.getByText('Tokyo trip')).toBeInTheDocument();
+    });
+
+    it('shows an empty history message when there are no conversations', async () => {
+      render(<ChatPage />);
+
+      expect(await screen.findByText('No past conversations')).toBeInTheDocument();
+    });
+
+    it('loads a past conversation into the chat when selected', async () => {
+      const user = userEvent.setup();
+      const pastMessages = [
+        { id: 'msg-1', role: 'user', parts: [{ type: 'text', text: 'Going to Paris' }] },
+      ];
+      mockListConversations.mockResolvedValue({
+        success: true,
+        conversations: [createMockConversation({ id: 'conv-1', title: 'Paris trip' })],
+      });
+      mockGetConversationMessages.mockResolvedValue({ success: true, messages: pastMessages });
+      mockSetMessages.mockClear();
+
+      render(<ChatPage />);
+      await user.click(await screen.findByText('Paris trip'));
+
+      expect(mockGetConversationMessages).toHaveBeenCalledWith('conv-1');
+      await waitFor(() => expect(mockSetMessages).toHaveBeenCalledWith(pastMessages));
+    });
+
+    it('continues a resumed conversation with its ID', async () => {
+      const user = userEvent.setup();
+      mockListConversations.mockResolvedValue({
+        success: true,
+        conversations: [createMockConversation({ id: 'conv-1', title: 'Paris trip' })],
+      });
+      mockGetConversationMessages.mockResolvedValue({ success: true, messages: [] });
+      mockSendMessage.mockClear();
+
+      render(<ChatPage />);
+      await user.click(await screen.findByText('Paris trip'));
+      await user.type(screen.getByPlaceholderText('Type your message...'), 'And Lyon?{Enter}');
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        { text: 'And Lyon?' },
+        { body: { conversationId: 'conv-1', units: 'metric', timeZone } }
+      );
+    });
+
+    it('clears the chat when starting a new one', async () => {
+      const user = userEvent.setup();
+      mockSetMessages.mockClear();
+
+      render(<ChatPage />);
+      await user.click(screen.getByRole('button', { name: 'New chat' }));
+
+      expect(mockSetMessages).toHaveBeenCalledWith([]);
+    });
+
+    it('renames a conversation from the sidebar', async () => {
+      const user = userEvent.setup();
+      mockListConversations.mockResolvedValue({
+        success: true,
+        conversations: [createMockConversation({ id: 'conv-1', title: 'Paris trip' })],
+      });
+      mockRenameConversation.mockResolvedValue({ success: true });
+
+      render(<ChatPage />);
+      await user.click(await screen.findByRole('button', { name: 'Rename Paris trip' }));
+
+      const titleInput = screen.getByLabelText('Conversation title');
+      await user.clear(titleInput);
+      await user.type(titleInput, 'Paris in June{Enter}');
+
+      expect(mockRenameConversation).toHaveBeenCalledWith('conv-1', 'Paris in June');
+    });
+  });
 });
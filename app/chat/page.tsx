@@ -1,25 +1,52 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useChat, type UIMessage } from '@ai-sdk/react';
-import { createConversation, saveMessage } from '@/lib/actions/messages';
+import {
+  createConversation,
+  getConversationMessages,
+  listConversations,
+  renameConversation,
+} from '@/lib/actions/messages';
+import type { Conversation } from '@/lib/schema';
 import { ToolInvocation } from './components/ToolInvocation';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { UnitSystemToggle, useUnitSystem } from './components/UnitSystemToggle';
+import { UsageSummary } from './components/UsageSummary';
 
 export default function ChatPage() {
+  // Handlers read the active conversation through a ref so a conversation
+  // created mid-submit is visible without waiting for a re-render
   const conversationIdRef = useRef<string | null>(null);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
   const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [units, setUnits] = useUnitSystem();
+
+  // Load the conversation history for the sidebar
+  const refreshConversations = useCallback(async () => {
+    const result = await listConversations();
+    if (result.success) {
+      setConversations(result.conversations);
+    } else {
+      console.error('Failed to list conversations:', result.error);
+    }
+  }, []);
 
   // AI SDK v2 useChat hook - manages messages and streaming
-  const { messages, sendMessage, status } = useChat({
-    onFinish: ({ message }) => {
-      // Save assistant message to database when streaming completes
-      const content = getMessageText(message);
-      if (content) {
-        saveMessageInBackground('assistant', content);
-      }
+  const { messages, sendMessage, setMessages, status } = useChat({
+    // Messages are persisted by the chat route; just refresh the history
+    onFinish: () => {
+      refreshConversations();
     },
   });
 
+  const selectConversationId = (conversationId: string | null) => {
+    conversationIdRef.current = conversationId;
+    setActiveConversationId(conversationId);
+  };
+
   // Helper function to extract text content from message parts
   const getMessageText = (message: UIMessage): string => {
     return message.parts
@@ -35,146 +62,201 @@ export default function ChatPage() {
     );
   };
 
-  // Initialize conversation on mount
+  // Load conversation history on mount
   useEffect(() => {
-    const initConversation = async () => {
-      const result = await createConversation({ title: 'Packing Assistant Chat' });
-      if (result.success) {
-        conversationIdRef.current = result.conversationId;
-      } else {
-        console.error('Failed to create conversation:', result.error);
-      }
+    const loadHistory = async () => {
+      await refreshConversations();
     };
 
-    initConversation();
-  }, []);
+    loadHistory();
+  }, [refreshConversations]);
+
+  // Conversations are created lazily on the first message, so page loads
+  // that never send anything don't leave empty conversations behind
+  const ensureConversation = async (): Promise<string | null> => {
+    if (conversationIdRef.current) {
+      return conversationIdRef.current;
+    }
+
+    const result = await createConversation();
+    if (!result.success) {
+      console.error('Failed to create conversation:', result.error);
+      return null;
+    }
+
+    selectConversationId(result.conversationId);
+    refreshConversations();
+    return result.conversationId;
+  };
 
-  // Helper to save message in background
-  const saveMessageInBackground = (role: 'user' | 'assistant', content: string) => {
-    if (!conversationIdRef.current) {
-      console.warn('No conversation ID available, skipping message save');
+  // Resume a past conversation by loading its messages into useChat
+  const onSelectConversation = async (conversationId: string) => {
+    const result = await getConversationMessages(conversationId);
+    if (!result.success) {
+      console.error('Failed to load conversation:', result.error);
       return;
     }
 
-    // Fire and forget - don't await
-    saveMessage({
-      conversationId: conversationIdRef.current,
-      role,
-      content,
-    }).catch((error) => {
-      console.error('Background save failed:', error);
-    });
+    selectConversationId(conversationId);
+    setMessages(result.messages);
+  };
+
+  const onRenameConversation = async (conversationId: string, title: string) => {
+    const result = await renameConversation(conversationId, title);
+    if (!result.success) {
+      console.error('Failed to rename conversation:', result.error);
+      return;
+    }
+
+    refreshConversations();
+  };
+
+  const onNewChat = () => {
+    selectConversationId(null);
+    setMessages([]);
   };
 
-  // Custom submit handler to save user messages before sending
-  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  // Custom submit handler to make sure a conversation exists before sending
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
     const userMessage = input.trim();
     if (!userMessage) return;
 
-    // Save user message to database
-    saveMessageInBackground('user', userMessage);
-
-    // Send message using AI SDK v2 API
-    sendMessage({ text: userMessage });
-
     // Clear input
     setInput('');
+
+    // Without a conversation the route would start a new one on every
+    // turn, so give the message back instead of sending it
+    const conversationId = await ensureConversation();
+    if (!conversationId) {
+      setInput(userMessage);
+      setError("Couldn't start a conversation. Please try again.");
+      return;
+    }
+    setError(null);
+
+    // Send message using AI SDK v2 API
+    // The conversation ID lets the route persist messages and tool calls against it,
+    // the unit preference makes weather results come back in the user's units,
+    // and the browser time zone makes "tomorrow" mean the user's tomorrow
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    sendMessage({ text: userMessage }, { body: { conversationId, units, timeZone } });
   };
 
   // Derive loading state from status
   const isLoading = status === 'submitted' || status === 'streaming';
 
   return (
-    <div className="min-h-screen flex flex-col max-w-4xl mx-auto p-4">
-      <header className="py-4 border-b">
-        <h1 className="text-2xl font-bold">AI Packing Assistant</h1>
-        <p className="text-sm text-gray-600 dark:text-gray-400">
-          Tell me about your trip and I&apos;ll help you pack!
-        </p>
-      </header>
-
-      <div className="flex-1 overflow-y-auto py-4 space-y-4">
-        {messages.length === 0 ? (
-          <div className="text-center text-gray-500 py-12">
-            <p className="text-lg">Start a conversation to plan your trip</p>
-            <p className="text-sm mt-2">Try: &quot;I&apos;m going to Paris next week&quot;</p>
+    <div className="min-h-screen flex gap-4 max-w-6xl mx-auto p-4">
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        disabled={isLoading}
+        onSelect={onSelectConversation}
+        onNewChat={onNewChat}
+        onRename={onRenameConversation}
+      />
+
+      <div className="flex-1 flex flex-col">
+        <header className="py-4 border-b flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">AI Packing Assistant</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Tell me about your trip and I&apos;ll help you pack!
+            </p>
+            <UsageSummary messages={messages} />
           </div>
-        ) : (
-          messages.map((msg) => {
-            const textContent = getMessageText(msg);
-            const toolInvocations = getToolInvocations(msg);
-
-            return (
-              <div key={msg.id}>
-                {/* Render tool invocations */}
-                {toolInvocations.map((toolPart, idx) => {
-                  // Type guard for dynamic-tool parts
-                  if (toolPart.type === 'dynamic-tool') {
-                    return ( 
-                      <ToolInvocation
-                        key={`${msg.id}-tool-${idx}`}
-                        toolName={toolPart.toolName}
-                        toolCallId={toolPart.toolCallId}
-                        state={toolPart.state}
-                        input={'input' in toolPart ? toolPart.input : undefined}
-                        output={'output' in toolPart ? toolPart.output : undefined}
-                        errorText={'errorText' in toolPart ? toolPart.errorText : undefined}
-                      />
-                    );
-                  }
-                  return null;
-                })}
-
-                {/* Render text content if present */}
-                {textContent && (
-                  <div
-                    className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                  >
+          <UnitSystemToggle units={units} onChange={setUnits} />
+        </header>
+
+        <div className="flex-1 overflow-y-auto py-4 space-y-4">
+          {messages.length === 0 ? (
+            <div className="text-center text-gray-500 py-12">
+              <p className="text-lg">Start a conversation to plan your trip</p>
+              <p className="text-sm mt-2">Try: &quot;I&apos;m going to Paris next week&quot;</p>
+            </div>
+          ) : (
+            messages.map((msg) => {
+              const textContent = getMessageText(msg);
+              const toolInvocations = getToolInvocations(msg);
+
+              return (
+                <div key={msg.id}>
+                  {/* Render tool invocations */}
+                  {toolInvocations.map((toolPart, idx) => {
+                    // Type guard for dynamic-tool parts
+                    if (toolPart.type === 'dynamic-tool') {
+                      return ( 
+                        <ToolInvocation
+                          key={`${msg.id}-tool-${idx}`}
+                          toolName={toolPart.toolName}
+                          toolCallId={toolPart.toolCallId}
+                          state={toolPart.state}
+                          input={'input' in toolPart ? toolPart.input : undefined}
+                          output={'output' in toolPart ? toolPart.output : undefined}
+                          errorText={'errorText' in toolPart ? toolPart.errorText : undefined}
+                          units={units}
+                        />
+                      );
+                    }
+                    return null;
+                  })}
+
+                  {/* Render text content if present */}
+                  {textContent && (
                     <div
-                      className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                        msg.role === 'user'
-                          ? 'bg-blue-600 text-white'
-                          : 'bg-gray-200 dark:bg-gray-800'
-                      }`}
+                      className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                     >
-                      <p className="whitespace-pre-wrap">{textContent}</p>
+                      <div
+                        className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                          msg.role === 'user'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-200 dark:bg-gray-800'
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap">{textContent}</p>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
+              );
+            })
+          )}
+          {isLoading && (
+            <div className="flex justify-start">
+              <div className="bg-gray-200 dark:bg-gray-800 rounded-lg px-4 py-2">
+                <p className="text-gray-600 dark:text-gray-400">Thinking...</p>
               </div>
-            );
-          })
-        )}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-gray-200 dark:bg-gray-800 rounded-lg px-4 py-2">
-              <p className="text-gray-600 dark:text-gray-400">Thinking...</p>
             </div>
+          )}
+        </div>
+
+        <form onSubmit={onSubmit} className="border-t pt-4">
+          {error && (
+            <p role="alert" className="mb-2 text-sm text-red-600 dark:text-red-400">
+              {error}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Type your message..."
+              className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-700"
+              disabled={isLoading}
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !input.trim()}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Send
+            </button>
           </div>
-        )}
+        </form>
       </div>
-
-      <form onSubmit={onSubmit} className="border-t pt-4">
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Type your message..."
-            className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-700"
-            disabled={isLoading}
-          />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            Send
-          </button>
-        </div>
-      </form>
     </div>
   );
 }
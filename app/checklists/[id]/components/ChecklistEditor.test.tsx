@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import { ChecklistEditor } from './ChecklistEditor';
+import { createMockChecklist, createMockChecklistItem } from '@/lib/test-helpers/fixtures';
+
+const { mockUpdateChecklistItem, mockAddChecklistItems, mockRemoveChecklistItem } = vi.hoisted(
+  () => ({
+    mockUpdateChecklistItem: vi.fn(),
+    mockAddChecklistItems: vi.fn(),
+    mockRemoveChecklistItem: vi.fn(),
+  })
+);
+
+vi.mock('@/lib/actions/checklists', () => ({
+  updateChecklistItem: mockUpdateChecklistItem,
+  addChecklistItems: mockAddChecklistItems,
+  removeChecklistItem: mockRemoveChecklistItem,
+}));
+
+const passport = createMockChecklistItem({ id: 'item-1', item: 'Passport', category: 'Documents' });
+const tshirt = createMockChecklistItem({
+  id: 'item-2',
+  item: 'T-shirt',
+  category: 'Clothing',
+  quantity: 5,
+});
+const checklist = { ...createMockChecklist(), items: [passport, tshirt] };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('ChecklistEditor', () => {
+  it('groups items by category', () => {
+    render(<ChecklistEditor initialChecklist={checklist} />);
+
+    expect(screen.getByRole('heading', { name: 'Documents' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Clothing' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Quantity for T-shirt')).toHaveValue(5);
+  });
+
+  it('saves the packed state and updates progress', async () => {
+    mockUpdateChecklistItem.mockResolvedValue({
+      success: true,
+      checklist: { ...checklist, items: [{ ...passport, packed: true }, tshirt] },
+    });
+    const user = userEvent.setup();
+    render(<ChecklistEditor initialChecklist={checklist} />);
+
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '0');
+
+    await user.click(screen.getByRole('checkbox', { name: 'Passport' }));
+
+    expect(mockUpdateChecklistItem).toHaveBeenCalledWith({
+      checklistId: 'checklist-123',
+      itemId: 'item-1',
+      packed: true,
+    });
+    await waitFor(() => {
+      expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '50');
+    });
+    expect(screen.getByText('1 of 2 packed')).toBeInTheDocument();
+  });
+
+  it('saves quantity changes when the field loses focus', async () => {
+    mockUpdateChecklistItem.mockResolvedValue({ success: true, checklist });
+    const user = userEvent.setup();
+    render(<ChecklistEditor initialChecklist={checklist} />);
+
+    const quantity = screen.getByLabelText('Quantity for T-shirt');
+    await user.clear(quantity);
+    await user.type(quantity, '3');
+    await user.tab();
+
+    expect(mockUpdateChecklistItem).toHaveBeenCalledWith({
+      checklistId: 'checklist-123',
+      itemId: 'item-2',
+      quantity: 3,
+    });
+  });
+
+  it('adds and removes items', async () => {
+    const umbrella = createMockChecklistItem({ id: 'item-3', item: 'Umbrella', category: null });
+    mockAddChecklistItems.mockResolvedValue({
+      success: true,
+      checklist: { ...checklist, items: [passport, tshirt, umbrella] },
+    });
+    mockRemoveChecklistItem.mockResolvedValue({
+      success: true,
+      checklist: { ...checklist, items: [tshirt, umbrella] },
+    });
+    const user = userEvent.setup();
+    render(<ChecklistEditor initialChecklist={checklist} />);
+
+    await user.type(screen.getByLabelText('New item'), 'Umbrella');
+    await user.click(screen.getByRole('button', { name: 'Add' }));
+
+    expect(mockAddChecklistItems).toHaveBeenCalledWith({
+      checklistId: 'checklist-123',
+      items: [{ item: 'Umbrella', category: undefined, quantity: 1 }],
+    });
+    expect(await screen.findByText('Umbrella')).toBeInTheDocument();
+    expect(screen.getByLabelText('New item')).toHaveValue('');
+
+    await user.click(screen.getByRole('button', { name: 'Delete Passport' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Passport')).not.toBeInTheDocument();
+    });
+  });
+
+  it('shows errors returned by the server', async () => {
+    mockUpdateChecklistItem.mockResolvedValue({
+      success: false,
+      error: 'Checklist item not found',
+    });
+    const user = userEvent.setup();
+    render(<ChecklistEditor initialChecklist={checklist} />);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Passport' }));
+
+    expect(await screen.findByText('Checklist item not found')).toBeInTheDocument();
+  });
+});
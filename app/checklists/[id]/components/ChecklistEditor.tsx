@@ -0,0 +1,212 @@
+'use client';
+
+/**
+ * ChecklistEditor Component - Interactive packing checklist
+ *
+ * Items are grouped by category. Packed state, quantities and the item
+ * list are saved through the checklist server actions, and the returned
+ * checklist replaces the local copy.
+ */
+
+import { useState } from 'react';
+import {
+  addChecklistItems,
+  removeChecklistItem,
+  updateChecklistItem,
+  type ChecklistWithItems,
+} from '@/lib/actions/checklists';
+import type { ChecklistItem } from '@/lib/schema';
+
+interface ChecklistEditorProps {
+  initialChecklist: ChecklistWithItems;
+}
+
+type ChecklistResult =
+  | { success: true; checklist: ChecklistWithItems }
+  | { success: false; error: string };
+
+export function ChecklistEditor({ initialChecklist }: ChecklistEditorProps) {
+  const [checklist, setChecklist] = useState(initialChecklist);
+  const [error, setError] = useState<string | null>(null);
+  const [newItem, setNewItem] = useState('');
+  const [newCategory, setNewCategory] = useState('');
+  const [newQuantity, setNewQuantity] = useState(1);
+
+  // Replace local state with the saved checklist, or surface the error
+  const applyResult = (result: ChecklistResult) => {
+    if (result.success) {
+      setChecklist(result.checklist);
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const onTogglePacked = async (item: ChecklistItem) => {
+    applyResult(
+      await updateChecklistItem({
+        checklistId: checklist.id,
+        itemId: item.id,
+        packed: !item.packed,
+      })
+    );
+  };
+
+  const onQuantityChange = async (item: ChecklistItem, value: string) => {
+    const quantity = Number(value);
+    if (quantity === item.quantity) return;
+
+    applyResult(
+      await updateChecklistItem({ checklistId: checklist.id, itemId: item.id, quantity })
+    );
+  };
+
+  const onDelete = async (item: ChecklistItem) => {
+    applyResult(await removeChecklistItem({ checklistId: checklist.id, itemId: item.id }));
+  };
+
+  const onAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const item = newItem.trim();
+    if (!item) return;
+
+    const result = await addChecklistItems({
+      checklistId: checklist.id,
+      items: [{ item, category: newCategory.trim() || undefined, quantity: newQuantity }],
+    });
+    applyResult(result);
+
+    if (result.success) {
+      setNewItem('');
+      setNewQuantity(1);
+    }
+  };
+
+  const packedCount = checklist.items.filter((item) => item.packed).length;
+  const totalCount = checklist.items.length;
+  const progress = totalCount === 0 ? 0 : Math.round((packedCount / totalCount) * 100);
+
+  const groupedItems = checklist.items.reduce(
+    (acc, item) => {
+      const category = item.category || 'Other';
+      if (!acc[category]) {
+        acc[category] = [];
+      }
+      acc[category].push(item);
+      return acc;
+    },
+    {} as Record<string, ChecklistItem[]>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Progress bar */}
+      <div>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="font-medium">Packing progress</span>
+          <span className="text-gray-600 dark:text-gray-400">
+            {packedCount} of {totalCount} packed
+          </span>
+        </div>
+        <div
+          role="progressbar"
+          aria-label="Packing progress"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={progress}
+          className="h-3 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden"
+        >
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400">
+          <span className="font-medium">Error:</span> {error}
+        </div>
+      )}
+
+      {totalCount === 0 ? (
+        <p className="text-center text-gray-500 py-8">No items yet - add one below</p>
+      ) : (
+        Object.entries(groupedItems).map(([category, items]) => (
+          <section key={category}>
+            <h2 className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              {category}
+            </h2>
+            <ul className="divide-y border rounded-lg dark:border-gray-700 dark:divide-gray-700">
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center gap-3 px-4 py-2">
+                  <label className="flex-1 flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={item.packed}
+                      onChange={() => onTogglePacked(item)}
+                      className="h-4 w-4"
+                    />
+                    <span className={item.packed ? 'line-through text-gray-500' : ''}>
+                      {item.item}
+                    </span>
+                  </label>
+                  <input
+                    // Re-mount when the saved quantity changes so the field resets
+                    key={`${item.id}-${item.quantity}`}
+                    type="number"
+                    min={1}
+                    defaultValue={item.quantity ?? 1}
+                    onBlur={(e) => onQuantityChange(item, e.target.value)}
+                    aria-label={`Quantity for ${item.item}`}
+                    className="w-16 px-2 py-1 border rounded dark:bg-gray-800 dark:border-gray-700"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onDelete(item)}
+                    aria-label={`Delete ${item.item}`}
+                    className="px-2 text-gray-400 hover:text-red-600"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))
+      )}
+
+      <form onSubmit={onAdd} className="flex flex-wrap gap-2 border-t pt-4">
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder="Item"
+          aria-label="New item"
+          className="flex-1 min-w-40 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-700"
+        />
+        <input
+          type="text"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          placeholder="Category"
+          aria-label="New item category"
+          className="w-40 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-700"
+        />
+        <input
+          type="number"
+          min={1}
+          value={newQuantity}
+          onChange={(e) => setNewQuantity(Number(e.target.value))}
+          aria-label="New item quantity"
+          className="w-20 px-2 py-2 border rounded-lg dark:bg-gray-800 dark:border-gray-700"
+        />
+        <button
+          type="submit"
+          disabled={!newItem.trim()}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getChecklist } from '@/lib/actions/checklists';
+import { ChecklistEditor } from './components/ChecklistEditor';
+
+interface ChecklistPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Checklist page - view and edit a saved packing checklist
+ */
+export default async function ChecklistPage({ params }: ChecklistPageProps) {
+  const { id } = await params;
+  const result = await getChecklist(id);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen max-w-3xl mx-auto p-4 space-y-6">
+      <header className="py-4 border-b flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Packing Checklist</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {result.checklist.destination} · {result.checklist.startDate} to {result.checklist.endDate}
+          </p>
+        </div>
+        <div className="flex gap-4 text-sm">
+          <a href={`/api/checklists/${id}/pdf`} className="text-blue-600 hover:underline">
+            Download PDF
+          </a>
+          <Link href="/chat" className="text-blue-600 hover:underline">
+            Back to chat
+          </Link>
+        </div>
+      </header>
+
+      <ChecklistEditor initialChecklist={result.checklist} />
+    </div>
+  );
+}
@@ -35,6 +35,12 @@ export default function Home() {
           >
             Start Chat
           </Link>
+          <Link
+            href="/analytics"
+            className="inline-block ml-4 px-6 py-3 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+          >
+            Tool Analytics
+          </Link>
         </div>
 
         <div className="pt-8 text-sm text-gray-500">
@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `parts` text;
\ No newline at end of file
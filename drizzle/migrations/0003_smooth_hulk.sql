@@ -0,0 +1,8 @@
+CREATE TABLE `weather_cache` (
+	`location_key` text NOT NULL,
+	`date` text NOT NULL,
+	`provider` text NOT NULL,
+	`data` text NOT NULL,
+	`fetched_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`location_key`, `date`, `provider`)
+);
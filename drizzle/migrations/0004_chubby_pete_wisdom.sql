@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `model` text;
\ No newline at end of file
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getToolAnalytics, getUsageReport, listAnalyticsConversations } from './analytics';
+import { createTestDb, cleanupTestDb, createMockConversation, createMockToolInvocation } from '@/lib/test-helpers';
+import { conversations, llmUsage, toolInvocations } from '../schema';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { createClient } from '@libsql/client';
+
+describe('Analytics Actions', () => {
+  let db: LibSQLDatabase<typeof import('../schema')>;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(async () => {
+    const testDb = await createTestDb();
+    db = testDb.db;
+    client = testDb.client;
+
+    await db.insert(conversations).values([
+      createMockConversation({ id: 'conv-a', title: 'Paris' }),
+      createMockConversation({ id: 'conv-b', title: 'Tokyo' }),
+    ]);
+  });
+
+  afterEach(async () => {
+    await cleanupTestDb(client);
+  });
+
+  const seedInvocations = async () => {
+    await db.insert(toolInvocations).values([
+      ...[10, 20, 30, 40, 100].map((durationMs, i) =>
+        createMockToolInvocation({
+          id: `weather-${i}`,
+          conversationId: 'conv-a',
+          durationMs,
+          createdAt: new Date('2024-06-01T10:00:00Z'),
+        })
+      ),
+      createMockToolInvocation({
+        id: 'date-ok',
+        conversationId: 'conv-b',
+        toolName: 'parse_date',
+        parameters: { dateString: 'tomorrow' },
+        durationMs: 2,
+        createdAt: new Date('2024-06-03T10:00:00Z'),
+      }),
+      ...[0, 1].map((i) =>
+        createMockToolInvocation({
+          id: `date-fail-${i}`,
+          conversationId: 'conv-b',
+          toolName: 'parse_date',
+          parameters: { dateString: 'someday' },
+          result: null,
+          error: 'Unable to parse date: someday',
+          durationMs: 1,
+          createdAt: new Date('2024-06-03T10:00:00Z'),
+        })
+      ),
+    ]);
+  };
+
+  describe('getToolAnalytics', () => {
+    it('aggregates call counts, error rates and duration percentiles per tool', async () => {
+      await seedInvocations();
+
+      const result = await getToolAnalytics({}, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.analytics.tools).toEqual([
+          {
+            toolName: 'get_weather',
+            callCount: 5,
+            errorCount: 0,
+            errorRate: 0,
+            p50DurationMs: 30,
+            p95DurationMs: 100,
+          },
+          {
+            toolName: 'parse_date',
+            callCount: 3,
+            errorCount: 2,
+            errorRate: 2 / 3,
+            p50DurationMs: 1,
+            p95DurationMs: 2,
+          },
+        ]);
+      }
+    });
+
+    it('lists the most common failing parameters', async () => {
+      await seedInvocations();
+
+      const result = await getToolAnalytics({}, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.analytics.failingParameters).toEqual([
+          {
+            toolName: 'parse_date',
+            parameters: { dateString: 'someday' },
+            failureCount: 2,
+            sampleError: 'Unable to parse date: someday',
+          },
+        ]);
+      }
+    });
+
+    it('filters by inclusive date range', async () => {
+      await seedInvocations();
+
+      const result = await getToolAnalytics({ startDate: '2024-06-02', endDate: '2024-06-03' }, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.analytics.tools.map((t) => t.toolName)).toEqual(['parse_date']);
+      }
+    });
+
+    it('filters by conversation', async () => {
+      await seedInvocations();
+
+      const result = await getToolAnalytics({ conversationId: 'conv-a' }, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.analytics.tools.map((t) => t.toolName)).toEqual(['get_weather']);
+        expect(result.analytics.failingParameters).toEqual([]);
+      }
+    });
+
+    it('returns empty analytics when nothing was logged', async () => {
+      const result = await getToolAnalytics({}, db);
+
+      expect(result).toEqual({
+        success: true,
+        analytics: { tools: [], failingParameters: [] },
+      });
+    });
+
+    it('returns error for an invalid date filter', async () => {
+      const result = await getToolAnalytics({ startDate: 'not-a-date' }, db);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Failed to load tool analytics');
+      }
+    });
+  });
+
+  describe('getUsageReport', () => {
+    const seedUsage = async () => {
+      await db.insert(llmUsage).values([
+        {
+          id: 'usage-a-0',
+          conversationId: 'conv-a',
+          step: 0,
+          model: 'openai/gpt-4o-mini',
+          inputTokens: 1_000_000,
+          outputTokens: 100_000,
+          cachedInputTokens: 0,
+          createdAt: new Date('2024-06-01T10:00:00Z'),
+        },
+        {
+          id: 'usage-a-1',
+          conversationId: 'conv-a',
+          step: 1,
+          model: 'anthropic/claude-haiku-4-5',
+          inputTokens: 200_000,
+          outputTokens: 10_000,
+          cachedInputTokens: 100_000,
+          createdAt: new Date('2024-06-01T10:00:00Z'),
+        },
+        {
+          id: 'usage-b-0',
+          conversationId: 'conv-b',
+          step: 0,
+          model: 'openai/gpt-4o-mini',
+          inputTokens: 500_000,
+          outputTokens: 0,
+          cachedInputTokens: 0,
+          createdAt: new Date('2024-06-03T10:00:00Z'),
+        },
+        {
+          id: 'usage-b-1',
+          conversationId: 'conv-b',
+          step: 1,
+          model: 'local/llama3.2',
+          inputTokens: 3000,
+          outputTokens: 300,
+          cachedInputTokens: 0,
+          createdAt: new Date('2024-06-03T10:00:00Z'),
+        },
+      ]);
+    };
+
+    // Default prices per million tokens
+    const miniCost = (input: number, output: number) => (input * 0.15 + output * 0.6) / 1e6;
+    const haikuCost = (100_000 * 1 + 100_000 * 0.1 + 10_000 * 5) / 1e6;
+
+    it('totals tokens and cost per model, most expensive first', async () => {
+      await seedUsage();
+
+      const result = await getUsageReport({}, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const { total, byModel } = result.report;
+        expect(total).toMatchObject({
+          calls: 4,
+          inputTokens: 1_703_000,
+          outputTokens: 110_300,
+          cachedInputTokens: 100_000,
+        });
+        expect(total.costUsd).toBeCloseTo(miniCost(1_500_000, 100_000) + haikuCost);
+
+        expect(byModel.map((row) => [row.model, row.calls])).toEqual([
+          ['openai/gpt-4o-mini', 2],
+          ['anthropic/claude-haiku-4-5', 1],
+          ['local/llama3.2', 1],
+        ]);
+        expect(byModel[0].costUsd).toBeCloseTo(miniCost(1_500_000, 100_000));
+        expect(byModel[2].costUsd).toBe(0);
+      }
+    });
+
+    it('totals tokens and cost per conversation with its title', async () => {
+      await seedUsage();
+
+      const result = await getUsageReport({}, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const [paris, tokyo] = result.report.byConversation;
+        expect(paris).toMatchObject({ conversationId: 'conv-a', title: 'Paris', calls: 2 });
+        expect(paris.costUsd).toBeCloseTo(miniCost(1_000_000, 100_000) + haikuCost);
+        expect(tokyo).toMatchObject({ conversationId: 'conv-b', title: 'Tokyo', calls: 2 });
+        expect(tokyo.costUsd).toBeCloseTo(miniCost(500_000, 0));
+      }
+    });
+
+    it('filters by date range and conversation', async () => {
+      await seedUsage();
+
+      const byDate = await getUsageReport({ startDate: '2024-06-02' }, db);
+      const byConversation = await getUsageReport({ conversationId: 'conv-a' }, db);
+
+      expect(byDate.success && byDate.report.byConversation.map((row) => row.title)).toEqual([
+        'Tokyo',
+      ]);
+      expect(
+        byConversation.success && byConversation.report.byConversation.map((row) => row.title)
+      ).toEqual(['Paris']);
+    });
+
+    it('has no cost for models without a price', async () => {
+      await db.insert(llmUsage).values({
+        id: 'usage-unknown',
+        conversationId: 'conv-a',
+        step: 0,
+        model: 'openai/unknown',
+        inputTokens: 10,
+        outputTokens: 10,
+      });
+
+      const result = await getUsageReport({}, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.report.total).toMatchObject({ calls: 1, inputTokens: 10, costUsd: null });
+      }
+    });
+
+    it('returns an empty report when nothing was logged', async () => {
+      const result = await getUsageReport({}, db);
+
+      expect(result).toEqual({
+        success: true,
+        report: {
+          total: { calls: 0, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, costUsd: null },
+          byModel: [],
+          byConversation: [],
+        },
+      });
+    });
+  });
+
+  describe('listAnalyticsConversations', () => {
+    it('lists only conversations with tool calls', async () => {
+      await db.insert(toolInvocations).values(
+        createMockToolInvocation({ id: 'only', conversationId: 'conv-b' })
+      );
+
+      const result = await listAnalyticsConversations(db);
+
+      expect(result).toEqual({
+        success: true,
+        conversations: [{ id: 'conv-b', title: 'Tokyo' }],
+      });
+    });
+
+    it('lists conversations with LLM usage', async () => {
+      await db.insert(llmUsage).values({
+        id: 'usage',
+        conversationId: 'conv-a',
+        step: 0,
+        model: 'fake/chat',
+      });
+
+      const result = await listAnalyticsConversations(db);
+
+      expect(result).toEqual({
+        success: true,
+        conversations: [{ id: 'conv-a', title: 'Paris' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,330 @@
+'use server';
+
+/**
+ * Server actions for tool call and LLM usage analytics
+ * Aggregates the tool_invocations log into per-tool metrics, and the
+ * llm_usage log into token and cost totals
+ */
+
+import { db as defaultDb } from '@/lib/db';
+import { getPriceTable, priceUsage } from '@/lib/llm/pricing';
+import type { PricedUsage } from '@/lib/llm/types';
+import { conversations, llmUsage, toolInvocations } from '@/lib/schema';
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  or,
+  sql,
+  sum,
+  type SQL,
+} from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+
+/**
+ * Filters shared by all analytics queries
+ * Dates are inclusive YYYY-MM-DD days
+ */
+export interface AnalyticsFilters {
+  startDate?: string;
+  endDate?: string;
+  conversationId?: string;
+}
+
+export interface ToolCallStats {
+  toolName: string;
+  callCount: number;
+  errorCount: number;
+  errorRate: number;
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+}
+
+export interface FailingParameters {
+  toolName: string;
+  parameters: unknown;
+  failureCount: number;
+  sampleError: string | null;
+}
+
+export interface ToolAnalytics {
+  tools: ToolCallStats[];
+  failingParameters: FailingParameters[];
+}
+
+export interface ModelUsageStats extends PricedUsage {
+  model: string;
+  /** Number of model calls (steps) */
+  calls: number;
+}
+
+export interface ConversationUsageStats extends PricedUsage {
+  conversationId: string;
+  title: string | null;
+  calls: number;
+}
+
+export interface UsageReport {
+  total: PricedUsage & { calls: number };
+  byModel: ModelUsageStats[];
+  byConversation: ConversationUsageStats[];
+}
+
+/**
+ * Get per-tool call counts, error rates, duration percentiles and the
+ * most common failing parameters
+ *
+ * @param filters - Optional date range and conversation filters
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function getToolAnalytics(
+  filters: AnalyticsFilters = {},
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; analytics: ToolAnalytics } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const where = buildWhere(filters, toolInvocations);
+
+    const totals = await db
+      .select({
+        toolName: toolInvocations.toolName,
+        callCount: count(),
+        errorCount: count(toolInvocations.error),
+      })
+      .from(toolInvocations)
+      .where(where)
+      .groupBy(toolInvocations.toolName)
+      .orderBy(desc(count()), asc(toolInvocations.toolName));
+
+    // SQLite has no percentile aggregate, so fetch sorted durations per tool
+    const durations = await db
+      .select({
+        toolName: toolInvocations.toolName,
+        durationMs: toolInvocations.durationMs,
+      })
+      .from(toolInvocations)
+      .where(and(where, isNotNull(toolInvocations.durationMs)))
+      .orderBy(asc(toolInvocations.toolName), asc(toolInvocations.durationMs));
+
+    const durationsByTool = new Map<string, number[]>();
+    for (const row of durations) {
+      const list = durationsByTool.get(row.toolName) ?? [];
+      list.push(row.durationMs as number);
+      durationsByTool.set(row.toolName, list);
+    }
+
+    const failing = await db
+      .select({
+        toolName: toolInvocations.toolName,
+        parameters: toolInvocations.parameters,
+        failureCount: count(),
+        sampleError: sql<string | null>`max(${toolInvocations.error})`,
+      })
+      .from(toolInvocations)
+      .where(and(where, isNotNull(toolInvocations.error)))
+      .groupBy(toolInvocations.toolName, toolInvocations.parameters)
+      .orderBy(desc(count()))
+      .limit(10);
+
+    return {
+      success: true,
+      analytics: {
+        tools: totals.map((row) => {
+          const sorted = durationsByTool.get(row.toolName) ?? [];
+          return {
+            toolName: row.toolName,
+            callCount: row.callCount,
+            errorCount: row.errorCount,
+            errorRate: row.callCount > 0 ? row.errorCount / row.callCount : 0,
+            p50DurationMs: percentile(sorted, 50),
+            p95DurationMs: percentile(sorted, 95),
+          };
+        }),
+        failingParameters: failing,
+      },
+    };
+  } catch (error) {
+    console.error('Failed to load tool analytics:', error);
+    return {
+      success: false,
+      error: 'Failed to load tool analytics',
+    };
+  }
+}
+
+/**
+ * Get token usage and cost in total, per model and per conversation,
+ * most expensive first
+ *
+ * Tokens are priced through the price table (see lib/llm/pricing.ts);
+ * costs are null when none of the models used has a price.
+ *
+ * @param filters - Optional date range and conversation filters
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function getUsageReport(
+  filters: AnalyticsFilters = {},
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; report: UsageReport } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const prices = getPriceTable();
+
+    // Tokens per conversation and model, priced per model below
+    const rows = await db
+      .select({
+        conversationId: llmUsage.conversationId,
+        title: conversations.title,
+        model: llmUsage.model,
+        calls: count(),
+        inputTokens: sum(llmUsage.inputTokens).mapWith(Number),
+        outputTokens: sum(llmUsage.outputTokens).mapWith(Number),
+        cachedInputTokens: sum(llmUsage.cachedInputTokens).mapWith(Number),
+      })
+      .from(llmUsage)
+      .innerJoin(conversations, eq(conversations.id, llmUsage.conversationId))
+      .where(buildWhere(filters, llmUsage))
+      .groupBy(llmUsage.conversationId, llmUsage.model);
+
+    const summarize = (group: typeof rows) => ({
+      ...priceUsage(group, prices),
+      calls: group.reduce((total, row) => total + row.calls, 0),
+    });
+    const byCost = (a: PricedUsage, b: PricedUsage) =>
+      (b.costUsd ?? 0) - (a.costUsd ?? 0) ||
+      b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens);
+
+    return {
+      success: true,
+      report: {
+        total: summarize(rows),
+        byModel: [...groupBy(rows, (row) => row.model)]
+          .map(([model, group]) => ({ model, ...summarize(group) }))
+          .sort(byCost),
+        byConversation: [...groupBy(rows, (row) => row.conversationId)]
+          .map(([conversationId, group]) => ({
+            conversationId,
+            title: group[0].title,
+            ...summarize(group),
+          }))
+          .sort(byCost),
+      },
+    };
+  } catch (error) {
+    console.error('Failed to load usage report:', error);
+    return {
+      success: false,
+      error: 'Failed to load usage report',
+    };
+  }
+}
+
+/**
+ * List conversations that have tool calls or LLM usage, for the
+ * conversation filter
+ *
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function listAnalyticsConversations(
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<
+  | { success: true; conversations: Array<{ id: string; title: string | null }> }
+  | { success: false; error: string }
+> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const rows = await db
+      .select({ id: conversations.id, title: conversations.title })
+      .from(conversations)
+      .where(
+        or(
+          inArray(
+            conversations.id,
+            db.select({ id: toolInvocations.conversationId }).from(toolInvocations)
+          ),
+          inArray(conversations.id, db.select({ id: llmUsage.conversationId }).from(llmUsage))
+        )
+      )
+      .orderBy(desc(conversations.updatedAt));
+
+    return {
+      success: true,
+      conversations: rows,
+    };
+  } catch (error) {
+    console.error('Failed to list conversations:', error);
+    return {
+      success: false,
+      error: 'Failed to list conversations',
+    };
+  }
+}
+
+/**
+ * Build the WHERE clause for the given filters on a log table
+ */
+function buildWhere(
+  filters: AnalyticsFilters,
+  table: typeof toolInvocations | typeof llmUsage
+): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (filters.startDate) {
+    conditions.push(gte(table.createdAt, startOfDay(filters.startDate)));
+  }
+
+  if (filters.endDate) {
+    // End date is inclusive, so compare against the start of the next day
+    const nextDay = startOfDay(filters.endDate);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    conditions.push(lt(table.createdAt, nextDay));
+  }
+
+  if (filters.conversationId) {
+    conditions.push(eq(table.conversationId, filters.conversationId));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Parse a YYYY-MM-DD day as UTC midnight
+ */
+function startOfDay(day: string): Date {
+  const date = new Date(`${day}T00:00:00Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${day}`);
+  }
+  return date;
+}
+
+/**
+ * Group rows by a key, keeping the order keys first appear in
+ */
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row)) ?? [];
+    group.push(row);
+    groups.set(key(row), group);
+  }
+  return groups;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
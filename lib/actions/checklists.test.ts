@@ -0,0 +1,335 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createChecklist,
+  getChecklist,
+  addChecklistItems,
+  removeChecklistItem,
+  listChecklists,
+  updateChecklist,
+  deleteChecklist,
+  updateChecklistItem,
+} from './checklists';
+import { checklistItems } from '../schema';
+import { eq } from 'drizzle-orm';
+import { createConversation } from './messages';
+import { createTestDb, cleanupTestDb } from '@/lib/test-helpers';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { createClient } from '@libsql/client';
+
+describe('Checklist Actions', () => {
+  let db: LibSQLDatabase<typeof import('../schema')>;
+  let client: ReturnType<typeof createClient>;
+  let conversationId: string;
+
+  beforeEach(async () => {
+    const testDb = await createTestDb();
+    db = testDb.db;
+    client = testDb.client;
+
+    const convResult = await createConversation(undefined, db);
+    if (!convResult.success) throw new Error('Failed to create conversation');
+    conversationId = convResult.conversationId;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDb(client);
+  });
+
+  const createParisChecklist = async () => {
+    const result = await createChecklist(
+      {
+        conversationId,
+        destination: 'Paris',
+        startDate: '2024-06-01',
+        endDate: '2024-06-07',
+        items: [
+          { item: 'Passport', category: 'Documents' },
+          { item: 'T-shirt', category: 'Clothing', quantity: 5 },
+        ],
+      },
+      db
+    );
+    if (!result.success) throw new Error(result.error);
+    return result.checklist;
+  };
+
+  describe('createChecklist', () => {
+    it('creates a checklist with its items', async () => {
+      const checklist = await createParisChecklist();
+
+      expect(checklist.id).toBeTruthy();
+      expect(checklist.conversationId).toBe(conversationId);
+      expect(checklist.destination).toBe('Paris');
+      expect(checklist.items).toHaveLength(2);
+      expect(checklist.items[0]).toMatchObject({
+        item: 'Passport',
+        category: 'Documents',
+        quantity: 1,
+        packed: false,
+      });
+      expect(checklist.items[1]).toMatchObject({ item: 'T-shirt', quantity: 5 });
+    });
+
+    it('returns error for invalid dates', async () => {
+      const result = await createChecklist(
+        { conversationId, destination: 'Paris', startDate: 'June 1', endDate: '2024-06-07' },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Dates must be in YYYY-MM-DD format' });
+    });
+
+    it('returns error when the start date is after the end date', async () => {
+      const result = await createChecklist(
+        { conversationId, destination: 'Paris', startDate: '2024-06-07', endDate: '2024-06-01' },
+        db
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Start date must be on or before end date',
+      });
+    });
+
+    it('returns error for invalid quantities', async () => {
+      const result = await createChecklist(
+        {
+          conversationId,
+          destination: 'Paris',
+          startDate: '2024-06-01',
+          endDate: '2024-06-07',
+          items: [{ item: 'Socks', quantity: 0 }],
+        },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Quantity must be a positive whole number' });
+    });
+
+    it('returns error when conversation does not exist', async () => {
+      const result = await createChecklist(
+        {
+          conversationId: 'non-existent-id',
+          destination: 'Paris',
+          startDate: '2024-06-01',
+          endDate: '2024-06-07',
+          items: [{ item: 'Passport' }],
+        },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Failed to create checklist' });
+    });
+  });
+
+  describe('getChecklist', () => {
+    it('returns the checklist with its items', async () => {
+      const created = await createParisChecklist();
+
+      const result = await getChecklist(created.id, db);
+
+      expect(result).toEqual({ success: true, checklist: created });
+    });
+
+    it('returns error when checklist does not exist', async () => {
+      const result = await getChecklist('non-existent-id', db);
+
+      expect(result).toEqual({ success: false, error: 'Checklist not found' });
+    });
+  });
+
+  describe('addChecklistItems', () => {
+    it('appends items to the checklist', async () => {
+      const created = await createParisChecklist();
+
+      const result = await addChecklistItems(
+        { checklistId: created.id, items: [{ item: 'Umbrella', category: 'Accessories' }] },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.checklist.items.map((i) => i.item)).toEqual(['Passport', 'T-shirt', 'Umbrella']);
+      }
+    });
+
+    it('returns error when checklist does not exist', async () => {
+      const result = await addChecklistItems(
+        { checklistId: 'non-existent-id', items: [{ item: 'Umbrella' }] },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Checklist not found' });
+    });
+  });
+
+  describe('removeChecklistItem', () => {
+    it('removes the item from the checklist', async () => {
+      const created = await createParisChecklist();
+
+      const result = await removeChecklistItem(
+        { checklistId: created.id, itemId: created.items[0].id },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.checklist.items.map((i) => i.item)).toEqual(['T-shirt']);
+      }
+    });
+
+    it('returns error when the item belongs to another checklist', async () => {
+      const first = await createParisChecklist();
+      const second = await createParisChecklist();
+
+      const result = await removeChecklistItem(
+        { checklistId: second.id, itemId: first.items[0].id },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Checklist item not found' });
+    });
+  });
+
+  describe('listChecklists', () => {
+    it('lists checklists newest first', async () => {
+      const first = await createParisChecklist();
+      const second = await createParisChecklist();
+
+      const result = await listChecklists(undefined, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.checklists.map((c) => c.id)).toEqual([second.id, first.id]);
+      }
+    });
+
+    it('filters by conversation', async () => {
+      await createParisChecklist();
+
+      const result = await listChecklists({ conversationId: 'other-conversation' }, db);
+
+      expect(result).toEqual({ success: true, checklists: [] });
+    });
+  });
+
+  describe('updateChecklist', () => {
+    it('updates trip details', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklist(
+        { checklistId: created.id, destination: 'Lyon', endDate: '2024-06-10' },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.checklist).toMatchObject({
+          destination: 'Lyon',
+          startDate: '2024-06-01',
+          endDate: '2024-06-10',
+        });
+      }
+    });
+
+    it('validates the merged date range', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklist({ checklistId: created.id, startDate: '2024-06-30' }, db);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Start date must be on or before end date',
+      });
+    });
+  });
+
+  describe('deleteChecklist', () => {
+    it('deletes the checklist and its items', async () => {
+      const created = await createParisChecklist();
+
+      const result = await deleteChecklist(created.id, db);
+
+      expect(result).toEqual({ success: true });
+      expect(await getChecklist(created.id, db)).toEqual({
+        success: false,
+        error: 'Checklist not found',
+      });
+      const items = await db
+        .select()
+        .from(checklistItems)
+        .where(eq(checklistItems.checklistId, created.id));
+      expect(items).toEqual([]);
+    });
+
+    it('returns error when checklist does not exist', async () => {
+      const result = await deleteChecklist('non-existent-id', db);
+
+      expect(result).toEqual({ success: false, error: 'Checklist not found' });
+    });
+  });
+
+  describe('updateChecklistItem', () => {
+    it('toggles the packed state', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklistItem(
+        { checklistId: created.id, itemId: created.items[0].id, packed: true },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.checklist.items[0].packed).toBe(true);
+        expect(result.checklist.items[1].packed).toBe(false);
+      }
+    });
+
+    it('changes the quantity', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklistItem(
+        { checklistId: created.id, itemId: created.items[1].id, quantity: 3 },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.checklist.items[1].quantity).toBe(3);
+      }
+    });
+
+    it('returns error for invalid quantities', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklistItem(
+        { checklistId: created.id, itemId: created.items[1].id, quantity: -1 },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Quantity must be a positive whole number' });
+    });
+
+    it('returns error when there is nothing to change', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklistItem(
+        { checklistId: created.id, itemId: created.items[0].id },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'No changes provided' });
+    });
+
+    it('returns error when item does not exist', async () => {
+      const created = await createParisChecklist();
+
+      const result = await updateChecklistItem(
+        { checklistId: created.id, itemId: 'non-existent-id', packed: true },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Checklist item not found' });
+    });
+  });
+});
@@ -0,0 +1,413 @@
+'use server';
+
+/**
+ * Server actions for checklist management
+ * Handles creating packing checklists and editing their items
+ */
+
+import { db as defaultDb } from '@/lib/db';
+import { checklists, checklistItems, type Checklist, type ChecklistItem } from '@/lib/schema';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import { isValid, parse } from 'date-fns';
+
+export interface ChecklistItemInput {
+  item: string;
+  category?: string;
+  quantity?: number;
+}
+
+export type ChecklistWithItems = Checklist & { items: ChecklistItem[] };
+
+type ChecklistResult =
+  | { success: true; checklist: ChecklistWithItems }
+  | { success: false; error: string };
+
+/**
+ * Create a checklist with its items
+ * @param params - Trip details and initial items
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function createChecklist(
+  params: {
+    conversationId: string;
+    destination: string;
+    startDate: string;
+    endDate: string;
+    items?: ChecklistItemInput[];
+  },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const db = dbInstance || defaultDb;
+
+  // Validate input
+  if (!params.destination?.trim()) {
+    return { success: false, error: 'Destination cannot be empty' };
+  }
+
+  const dateError = validateDateRange(params.startDate, params.endDate);
+  if (dateError) {
+    return { success: false, error: dateError };
+  }
+
+  const items = params.items ?? [];
+  const itemError = validateItems(items);
+  if (itemError) {
+    return { success: false, error: itemError };
+  }
+
+  try {
+    const checklistId = `checklist-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    const insertChecklist = db.insert(checklists).values({
+      id: checklistId,
+      conversationId: params.conversationId,
+      destination: params.destination.trim(),
+      startDate: params.startDate,
+      endDate: params.endDate,
+    });
+
+    // Batch so the checklist and its items are written atomically
+    if (items.length > 0) {
+      await db.batch([
+        insertChecklist,
+        db.insert(checklistItems).values(items.map((item) => toItemRow(checklistId, item))),
+      ]);
+    } else {
+      await insertChecklist;
+    }
+
+    return loadChecklist(checklistId, db);
+  } catch (error) {
+    console.error('Failed to create checklist:', error);
+    return {
+      success: false,
+      error: 'Failed to create checklist',
+    };
+  }
+}
+
+/**
+ * Get a checklist with its items
+ * @param checklistId - Checklist to load
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function getChecklist(
+  checklistId: string,
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    return await loadChecklist(checklistId, db);
+  } catch (error) {
+    console.error('Failed to get checklist:', error);
+    return {
+      success: false,
+      error: 'Failed to get checklist',
+    };
+  }
+}
+
+/**
+ * List checklists, newest first
+ * @param options - Optionally only list a conversation's checklists
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function listChecklists(
+  options?: { conversationId?: string },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; checklists: Checklist[] } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const rows = await db
+      .select()
+      .from(checklists)
+      .where(
+        options?.conversationId ? eq(checklists.conversationId, options.conversationId) : undefined
+      )
+      .orderBy(desc(checklists.createdAt), desc(sql`rowid`));
+
+    return { success: true, checklists: rows };
+  } catch (error) {
+    console.error('Failed to list checklists:', error);
+    return {
+      success: false,
+      error: 'Failed to list checklists',
+    };
+  }
+}
+
+/**
+ * Update a checklist's trip details
+ * @param params - Checklist ID and the fields to change
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function updateChecklist(
+  params: { checklistId: string; destination?: string; startDate?: string; endDate?: string },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const existing = await db.query.checklists.findFirst({
+      where: eq(checklists.id, params.checklistId),
+    });
+    if (!existing) {
+      return { success: false, error: 'Checklist not found' };
+    }
+
+    // Validate input against the merged values
+    const destination = params.destination ?? existing.destination;
+    if (!destination.trim()) {
+      return { success: false, error: 'Destination cannot be empty' };
+    }
+
+    const startDate = params.startDate ?? existing.startDate;
+    const endDate = params.endDate ?? existing.endDate;
+    const dateError = validateDateRange(startDate, endDate);
+    if (dateError) {
+      return { success: false, error: dateError };
+    }
+
+    await db
+      .update(checklists)
+      .set({ destination: destination.trim(), startDate, endDate })
+      .where(eq(checklists.id, params.checklistId));
+
+    return loadChecklist(params.checklistId, db);
+  } catch (error) {
+    console.error('Failed to update checklist:', error);
+    return {
+      success: false,
+      error: 'Failed to update checklist',
+    };
+  }
+}
+
+/**
+ * Delete a checklist and all of its items
+ * @param checklistId - Checklist to delete
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function deleteChecklist(
+  checklistId: string,
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    // Items are removed by the ON DELETE CASCADE foreign key
+    const result = await db.delete(checklists).where(eq(checklists.id, checklistId));
+
+    if (result.rowsAffected === 0) {
+      return { success: false, error: 'Checklist not found' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete checklist:', error);
+    return {
+      success: false,
+      error: 'Failed to delete checklist',
+    };
+  }
+}
+
+/**
+ * Add items to an existing checklist
+ * @param params - Checklist ID and items to add
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function addChecklistItems(
+  params: { checklistId: string; items: ChecklistItemInput[] },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const db = dbInstance || defaultDb;
+
+  // Validate input
+  if (!params.items?.length) {
+    return { success: false, error: 'Items cannot be empty' };
+  }
+
+  const itemError = validateItems(params.items);
+  if (itemError) {
+    return { success: false, error: itemError };
+  }
+
+  try {
+    const existing = await db.query.checklists.findFirst({
+      where: eq(checklists.id, params.checklistId),
+    });
+    if (!existing) {
+      return { success: false, error: 'Checklist not found' };
+    }
+
+    await db
+      .insert(checklistItems)
+      .values(params.items.map((item) => toItemRow(params.checklistId, item)));
+
+    return loadChecklist(params.checklistId, db);
+  } catch (error) {
+    console.error('Failed to add checklist items:', error);
+    return {
+      success: false,
+      error: 'Failed to add checklist items',
+    };
+  }
+}
+
+/**
+ * Update a checklist item - toggle packed, change quantity or rename
+ * @param params - Checklist ID, item ID and the fields to change
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function updateChecklistItem(
+  params: {
+    checklistId: string;
+    itemId: string;
+    item?: string;
+    category?: string | null;
+    quantity?: number;
+    packed?: boolean;
+  },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const db = dbInstance || defaultDb;
+
+  // Validate input
+  if (params.item !== undefined || params.quantity !== undefined) {
+    const itemError = validateItems([{ item: params.item ?? 'unchanged', quantity: params.quantity }]);
+    if (itemError) {
+      return { success: false, error: itemError };
+    }
+  }
+
+  const changes: Partial<Pick<ChecklistItem, 'item' | 'category' | 'quantity' | 'packed'>> = {};
+  if (params.item !== undefined) changes.item = params.item.trim();
+  if (params.category !== undefined) changes.category = params.category?.trim() || null;
+  if (params.quantity !== undefined) changes.quantity = params.quantity;
+  if (params.packed !== undefined) changes.packed = params.packed;
+
+  if (Object.keys(changes).length === 0) {
+    return { success: false, error: 'No changes provided' };
+  }
+
+  try {
+    const result = await db
+      .update(checklistItems)
+      .set(changes)
+      .where(
+        and(eq(checklistItems.id, params.itemId), eq(checklistItems.checklistId, params.checklistId))
+      );
+
+    if (result.rowsAffected === 0) {
+      return { success: false, error: 'Checklist item not found' };
+    }
+
+    return loadChecklist(params.checklistId, db);
+  } catch (error) {
+    console.error('Failed to update checklist item:', error);
+    return {
+      success: false,
+      error: 'Failed to update checklist item',
+    };
+  }
+}
+
+/**
+ * Remove an item from a checklist
+ * @param params - Checklist ID and item ID
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function removeChecklistItem(
+  params: { checklistId: string; itemId: string },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const result = await db
+      .delete(checklistItems)
+      .where(
+        and(eq(checklistItems.id, params.itemId), eq(checklistItems.checklistId, params.checklistId))
+      );
+
+    if (result.rowsAffected === 0) {
+      return { success: false, error: 'Checklist item not found' };
+    }
+
+    return loadChecklist(params.checklistId, db);
+  } catch (error) {
+    console.error('Failed to remove checklist item:', error);
+    return {
+      success: false,
+      error: 'Failed to remove checklist item',
+    };
+  }
+}
+
+/**
+ * Load a checklist and its items, in the order they were added
+ */
+async function loadChecklist(
+  checklistId: string,
+  db: LibSQLDatabase<typeof import('../schema')>
+): Promise<ChecklistResult> {
+  const checklist = await db.query.checklists.findFirst({
+    where: eq(checklists.id, checklistId),
+  });
+
+  if (!checklist) {
+    return { success: false, error: 'Checklist not found' };
+  }
+
+  // createdAt has second precision, so fall back to insertion order
+  const items = await db
+    .select()
+    .from(checklistItems)
+    .where(eq(checklistItems.checklistId, checklistId))
+    .orderBy(asc(checklistItems.createdAt), sql`rowid`);
+
+  return { success: true, checklist: { ...checklist, items } };
+}
+
+function toItemRow(checklistId: string, item: ChecklistItemInput) {
+  return {
+    id: `item-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    checklistId,
+    item: item.item.trim(),
+    category: item.category?.trim() || null,
+    quantity: item.quantity ?? 1,
+  };
+}
+
+function validateDateRange(startDate: string, endDate: string): string | null {
+  const start = parse(startDate ?? '', 'yyyy-MM-dd', new Date());
+  const end = parse(endDate ?? '', 'yyyy-MM-dd', new Date());
+
+  if (!isValid(start) || !isValid(end)) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+
+  if (start > end) {
+    return 'Start date must be on or before end date';
+  }
+
+  return null;
+}
+
+function validateItems(items: ChecklistItemInput[]): string | null {
+  for (const item of items) {
+    if (!item.item?.trim()) {
+      return 'Item name cannot be empty';
+    }
+
+    if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) {
+      return 'Quantity must be a positive whole number';
+    }
+  }
+
+  return null;
+}
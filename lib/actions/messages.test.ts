@@ -1,10 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { saveMessage, createConversation } from './messages';
+import {
+  saveMessage,
+  createConversation,
+  listConversations,
+  getConversationMessages,
+  getConversation,
+  findOrCreateConversation,
+  renameConversation,
+  saveConversationSummary,
+} from './messages';
+import { saveUsage } from './usage';
 import { createTestDb, cleanupTestDb } from '@/lib/test-helpers';
 import { messages, conversations } from '../schema';
 import { eq } from 'drizzle-orm';
 import type { LibSQLDatabase } from 'drizzle-orm/libsql';
 import type { createClient } from '@libsql/client';
+import type { UIMessage } from 'ai';
 
 describe('Message Actions', () => {
   let db: LibSQLDatabase<typeof import('../schema')>;
@@ -111,6 +122,30 @@ describe('Message Actions', () => {
       }
     });
 
+    it('records the model that wrote an assistant message', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveMessage(
+        {
+          conversationId: convResult.conversationId,
+          role: 'assistant',
+          content: 'Pack a raincoat',
+          model: 'openai/gpt-4o-mini',
+        },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const saved = await db.query.messages.findFirst({
+          where: eq(messages.id, result.messageId),
+        });
+
+        expect(saved?.model).toBe('openai/gpt-4o-mini');
+      }
+    });
+
     it('returns error when conversation does not exist', async () => {
       const result = await saveMessage(
         {
@@ -146,6 +181,83 @@ describe('Message Actions', () => {
       }
     });
 
+    it('saves full message parts including tool calls', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const parts: UIMessage['parts'] = [
+        { type: 'step-start' },
+        {
+          type: 'dynamic-tool',
+          toolName: 'get_weather',
+          toolCallId: 'call-1',
+          state: 'output-available',
+          input: { location: 'Paris', startDate: '2024-06-01', endDate: '2024-06-01' },
+          output: { location: 'Paris', forecast: [] },
+        },
+        { type: 'text', text: 'Pack an umbrella.' },
+      ];
+
+      const result = await saveMessage(
+        { conversationId: convResult.conversationId, role: 'assistant', parts },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const saved = await db.query.messages.findFirst({
+          where: eq(messages.id, result.messageId),
+        });
+
+        expect(saved?.parts).toEqual(parts);
+        expect(saved?.content).toBe('Pack an umbrella.');
+      }
+    });
+
+    it('saves tool-only messages without text', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveMessage(
+        {
+          conversationId: convResult.conversationId,
+          role: 'assistant',
+          parts: [
+            {
+              type: 'dynamic-tool',
+              toolName: 'parse_date',
+              toolCallId: 'call-2',
+              state: 'output-error',
+              input: { dateString: 'someday' },
+              errorText: 'Unable to parse date: someday',
+            },
+          ],
+        },
+        db
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('returns error when parts have no content', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveMessage(
+        {
+          conversationId: convResult.conversationId,
+          role: 'assistant',
+          parts: [{ type: 'step-start' }],
+        },
+        db
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Content cannot be empty');
+      }
+    });
+
     it('updates conversation updatedAt timestamp', async () => {
       const convResult = await createConversation(undefined, db);
       if (!convResult.success) throw new Error('Failed to create conversation');
@@ -175,4 +287,339 @@ describe('Message Actions', () => {
       );
     });
   });
+
+  describe('listConversations', () => {
+    it('lists conversations ordered by most recently updated', async () => {
+      await db.insert(conversations).values([
+        { id: 'conv-old', title: 'Old', updatedAt: new Date('2024-01-01T00:00:00Z') },
+        { id: 'conv-new', title: 'New', updatedAt: new Date('2024-03-01T00:00:00Z') },
+        { id: 'conv-mid', title: 'Mid', updatedAt: new Date('2024-02-01T00:00:00Z') },
+      ]);
+
+      const result = await listConversations(db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.conversations.map((c) => c.id)).toEqual(['conv-new', 'conv-mid', 'conv-old']);
+        expect(result.conversations[0].title).toBe('New');
+      }
+    });
+
+    it('returns an empty list when there are no conversations', async () => {
+      const result = await listConversations(db);
+
+      expect(result).toEqual({ success: true, conversations: [] });
+    });
+  });
+
+  describe('getConversationMessages', () => {
+    it('loads messages as UIMessages in the order they were saved', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      await saveMessage(
+        { conversationId: convResult.conversationId, role: 'user', content: 'Going to Paris' },
+        db
+      );
+      await saveMessage(
+        { conversationId: convResult.conversationId, role: 'assistant', content: 'When?' },
+        db
+      );
+
+      const result = await getConversationMessages(convResult.conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.messages).toHaveLength(2);
+        expect(result.messages[0]).toMatchObject({
+          role: 'user',
+          parts: [{ type: 'text', text: 'Going to Paris' }],
+        });
+        expect(result.messages[1]).toMatchObject({
+          role: 'assistant',
+          parts: [{ type: 'text', text: 'When?' }],
+        });
+      }
+    });
+
+    it('returns the model of assistant messages as metadata', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      await saveMessage(
+        { conversationId: convResult.conversationId, role: 'user', content: 'Going to Paris' },
+        db
+      );
+      await saveMessage(
+        {
+          conversationId: convResult.conversationId,
+          role: 'assistant',
+          content: 'When?',
+          model: 'groq/llama-3.3-70b-versatile',
+        },
+        db
+      );
+
+      const result = await getConversationMessages(convResult.conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.messages[0].metadata).toBeUndefined();
+        expect(result.messages[1].metadata).toEqual({ model: 'groq/llama-3.3-70b-versatile' });
+      }
+    });
+
+    it('returns the priced usage of assistant messages as metadata', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const saved = await saveMessage(
+        {
+          conversationId: convResult.conversationId,
+          role: 'assistant',
+          content: 'Here is your list',
+          model: 'openai/gpt-4o-mini',
+        },
+        db
+      );
+      if (!saved.success) throw new Error('Failed to save message');
+      await saveUsage(
+        {
+          conversationId: convResult.conversationId,
+          messageId: saved.messageId,
+          steps: [
+            {
+              model: 'openai/gpt-4o-mini',
+              inputTokens: 1000,
+              outputTokens: 100,
+              cachedInputTokens: 0,
+            },
+            {
+              model: 'openai/gpt-4o-mini',
+              inputTokens: 1500,
+              outputTokens: 200,
+              cachedInputTokens: 1000,
+            },
+          ],
+        },
+        db
+      );
+
+      const result = await getConversationMessages(convResult.conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.messages[0].metadata).toEqual({
+          model: 'openai/gpt-4o-mini',
+          usage: {
+            inputTokens: 2500,
+            outputTokens: 300,
+            cachedInputTokens: 1000,
+            costUsd: expect.closeTo((1500 * 0.15 + 1000 * 0.075 + 300 * 0.6) / 1_000_000, 12),
+          },
+        });
+      }
+    });
+
+    it('restores stored parts and falls back to text for legacy rows', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      // Legacy row saved before parts were stored
+      await db.insert(messages).values({
+        id: 'msg-legacy',
+        conversationId: convResult.conversationId,
+        role: 'user',
+        content: 'Going to Paris',
+      });
+
+      const parts: UIMessage['parts'] = [
+        {
+          type: 'dynamic-tool',
+          toolName: 'get_weather',
+          toolCallId: 'call-1',
+          state: 'output-available',
+          input: { location: 'Paris' },
+          output: { location: 'Paris', forecast: [] },
+        },
+        { type: 'text', text: 'Sunny!' },
+      ];
+      await saveMessage(
+        { conversationId: convResult.conversationId, role: 'assistant', parts },
+        db
+      );
+
+      const result = await getConversationMessages(convResult.conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.messages[0].parts).toEqual([{ type: 'text', text: 'Going to Paris' }]);
+        expect(result.messages[1].parts).toEqual(parts);
+      }
+    });
+
+    it('only loads messages from the requested conversation', async () => {
+      const first = await createConversation(undefined, db);
+      const second = await createConversation(undefined, db);
+      if (!first.success || !second.success) throw new Error('Failed to create conversation');
+
+      await saveMessage({ conversationId: first.conversationId, role: 'user', content: 'First' }, db);
+      await saveMessage({ conversationId: second.conversationId, role: 'user', content: 'Second' }, db);
+
+      const result = await getConversationMessages(second.conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.messages).toHaveLength(1);
+        expect(result.messages[0].parts).toEqual([{ type: 'text', text: 'Second' }]);
+      }
+    });
+  });
+
+  describe('getConversation', () => {
+    it('returns the conversation', async () => {
+      const convResult = await createConversation({ title: 'Paris' }, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await getConversation(convResult.conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.conversation.title).toBe('Paris');
+      }
+    });
+
+    it('returns error when conversation does not exist', async () => {
+      const result = await getConversation('non-existent-id', db);
+
+      expect(result).toEqual({ success: false, error: 'Conversation not found' });
+    });
+  });
+
+  describe('findOrCreateConversation', () => {
+    it('uses a saved conversation', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await findOrCreateConversation(convResult.conversationId, db);
+
+      expect(result).toEqual({ success: true, conversationId: convResult.conversationId });
+      expect(await db.query.conversations.findMany()).toHaveLength(1);
+    });
+
+    it.each([
+      ['an unknown ID', 'conv-stale'],
+      ['no ID', undefined],
+    ])('creates a conversation for %s', async (_, conversationId) => {
+      const result = await findOrCreateConversation(conversationId, db);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.conversationId).not.toBe('conv-stale');
+      expect((await getConversation(result.conversationId, db)).success).toBe(true);
+
+      // Messages can be saved against the new conversation
+      const saved = await saveMessage(
+        {
+          conversationId: result.conversationId,
+          role: 'user',
+          parts: [{ type: 'text', text: 'Hi' }],
+        },
+        db
+      );
+      expect(saved.success).toBe(true);
+    });
+  });
+
+  describe('saveConversationSummary', () => {
+    it('stores the summary and how many messages it covers', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      await saveConversationSummary(
+        convResult.conversationId,
+        { text: 'Trip to Paris, Jun 1-7', messageCount: 4 },
+        db
+      );
+      const result = await saveConversationSummary(
+        convResult.conversationId,
+        { text: ' Trip to Paris, Jun 1-7, checklist saved ', messageCount: 8 },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      const saved = await db.query.conversations.findFirst({
+        where: eq(conversations.id, convResult.conversationId),
+      });
+      expect(saved).toMatchObject({
+        summary: 'Trip to Paris, Jun 1-7, checklist saved',
+        summaryMessageCount: 8,
+      });
+    });
+
+    it('returns error when summary is empty', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveConversationSummary(
+        convResult.conversationId,
+        { text: ' ', messageCount: 2 },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Summary cannot be empty' });
+    });
+
+    it('returns error when conversation does not exist', async () => {
+      const result = await saveConversationSummary(
+        'non-existent-id',
+        { text: 'Summary', messageCount: 2 },
+        db
+      );
+
+      expect(result).toEqual({ success: false, error: 'Conversation not found' });
+    });
+  });
+
+  describe('renameConversation', () => {
+    it('updates the conversation title', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await renameConversation(convResult.conversationId, '  Lisbon weekend  ', db);
+
+      expect(result.success).toBe(true);
+      const saved = await db.query.conversations.findFirst({
+        where: eq(conversations.id, convResult.conversationId),
+      });
+      expect(saved?.title).toBe('Lisbon weekend');
+    });
+
+    it('returns error when title is empty', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await renameConversation(convResult.conversationId, '   ', db);
+
+      expect(result).toEqual({ success: false, error: 'Title cannot be empty' });
+    });
+
+    it('returns error when title is too long', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await renameConversation(convResult.conversationId, 'x'.repeat(101), db);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Title cannot be longer than');
+      }
+    });
+
+    it('returns error when conversation does not exist', async () => {
+      const result = await renameConversation('non-existent-id', 'Title', db);
+
+      expect(result).toEqual({ success: false, error: 'Conversation not found' });
+    });
+  });
 });
@@ -6,9 +6,14 @@
  */
 
 import { db as defaultDb } from '@/lib/db';
-import { conversations, messages } from '@/lib/schema';
-import { eq, sql } from 'drizzle-orm';
+import { getPriceTable, priceUsage } from '@/lib/llm/pricing';
+import type { ChatMessageMetadata, StepUsage } from '@/lib/llm/types';
+import { conversations, llmUsage, messages, type Conversation } from '@/lib/schema';
+import { asc, desc, eq, sql } from 'drizzle-orm';
 import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { UIMessage } from 'ai';
+
+const MAX_TITLE_LENGTH = 100;
 
 /**
  * Create a new conversation
@@ -39,10 +44,154 @@ export async function createConversation(
   }
 }
 
+/**
+ * Use an existing conversation, or create one when the ID is missing or
+ * doesn't match a saved conversation (e.g. a stale or mistyped ID)
+ * @param conversationId - Conversation ID sent by the caller, if any
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function findOrCreateConversation(
+  conversationId: unknown,
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; conversationId: string } | { success: false; error: string }> {
+  if (typeof conversationId === 'string' && conversationId) {
+    const existing = await getConversation(conversationId, dbInstance);
+    if (existing.success) {
+      return { success: true, conversationId };
+    }
+  }
+
+  return createConversation(undefined, dbInstance);
+}
+
+/**
+ * Get a single conversation
+ * @param conversationId - Conversation to load
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function getConversation(
+  conversationId: string,
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; conversation: Conversation } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+
+    if (!conversation) {
+      return { success: false, error: 'Conversation not found' };
+    }
+
+    return { success: true, conversation };
+  } catch (error) {
+    console.error('Failed to get conversation:', error);
+    return {
+      success: false,
+      error: 'Failed to get conversation',
+    };
+  }
+}
+
+/**
+ * Rename a conversation
+ * @param conversationId - Conversation to rename
+ * @param title - New title
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function renameConversation(
+  conversationId: string,
+  title: string,
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+  const trimmed = title.trim();
+
+  // Validate input
+  if (!trimmed) {
+    return {
+      success: false,
+      error: 'Title cannot be empty',
+    };
+  }
+
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    return {
+      success: false,
+      error: `Title cannot be longer than ${MAX_TITLE_LENGTH} characters`,
+    };
+  }
+
+  try {
+    const result = await db
+      .update(conversations)
+      .set({ title: trimmed })
+      .where(eq(conversations.id, conversationId));
+
+    if (result.rowsAffected === 0) {
+      return { success: false, error: 'Conversation not found' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to rename conversation:', error);
+    return {
+      success: false,
+      error: 'Failed to rename conversation',
+    };
+  }
+}
+
+/**
+ * Save the summary of a conversation's first messages
+ * Replaces any earlier summary, which the new one is expected to include
+ *
+ * @param conversationId - Conversation the summary belongs to
+ * @param summary - Summary text and how many leading messages it covers
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function saveConversationSummary(
+  conversationId: string,
+  summary: { text: string; messageCount: number },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  if (!summary.text.trim()) {
+    return {
+      success: false,
+      error: 'Summary cannot be empty',
+    };
+  }
+
+  try {
+    const result = await db
+      .update(conversations)
+      .set({ summary: summary.text.trim(), summaryMessageCount: summary.messageCount })
+      .where(eq(conversations.id, conversationId));
+
+    if (result.rowsAffected === 0) {
+      return { success: false, error: 'Conversation not found' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to save conversation summary:', error);
+    return {
+      success: false,
+      error: 'Failed to save conversation summary',
+    };
+  }
+}
+
 /**
  * Save a message to the database
  * Also updates the conversation's updatedAt timestamp
  *
+ * Pass the full UIMessage `parts` to keep tool calls; `content` defaults to
+ * their joined text. Assistant messages record the `model` that wrote them.
+ *
  * @param params - Message details
  * @param dbInstance - Optional database instance (for testing)
  */
@@ -50,14 +199,17 @@ export async function saveMessage(
   params: {
     conversationId: string;
     role: 'user' | 'assistant';
-    content: string;
+    content?: string;
+    parts?: UIMessage['parts'];
+    model?: string;
   },
   dbInstance?: LibSQLDatabase<typeof import('../schema')>
 ): Promise<{ success: true; messageId: string } | { success: false; error: string }> {
   const db = dbInstance || defaultDb;
+  const content = params.content ?? (params.parts ? getPartsText(params.parts) : '');
 
-  // Validate input
-  if (!params.content.trim()) {
+  // Validate input - tool-only messages have no text but still need saving
+  if (!content.trim() && !params.parts?.some((part) => part.type !== 'step-start')) {
     return {
       success: false,
       error: 'Content cannot be empty',
@@ -72,7 +224,9 @@ export async function saveMessage(
       id: messageId,
       conversationId: params.conversationId,
       role: params.role,
-      content: params.content,
+      content,
+      parts: params.parts ?? null,
+      model: params.model ?? null,
     });
 
     // Update conversation's updatedAt timestamp
@@ -92,3 +246,100 @@ export async function saveMessage(
     };
   }
 }
+
+/**
+ * List all conversations, most recently updated first
+ *
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function listConversations(
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; conversations: Conversation[] } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const rows = await db
+      .select()
+      .from(conversations)
+      .orderBy(desc(conversations.updatedAt), desc(conversations.createdAt));
+
+    return { success: true, conversations: rows };
+  } catch (error) {
+    console.error('Failed to list conversations:', error);
+    return {
+      success: false,
+      error: 'Failed to list conversations',
+    };
+  }
+}
+
+/**
+ * Load a conversation's messages as UIMessages, ready for useChat
+ * Assistant messages carry the model that wrote them and their priced
+ * token usage as metadata
+ *
+ * @param conversationId - Conversation to load
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function getConversationMessages(
+  conversationId: string,
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; messages: UIMessage[] } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    // createdAt has second precision, so fall back to insertion order
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt), sql`rowid`);
+
+    const usageRows = await db
+      .select()
+      .from(llmUsage)
+      .where(eq(llmUsage.conversationId, conversationId))
+      .orderBy(asc(llmUsage.step));
+
+    const stepsByMessage = new Map<string, StepUsage[]>();
+    for (const { messageId, ...step } of usageRows) {
+      if (!messageId) continue;
+      stepsByMessage.set(messageId, [...(stepsByMessage.get(messageId) ?? []), step]);
+    }
+    const prices = stepsByMessage.size > 0 ? getPriceTable() : {};
+
+    return {
+      success: true,
+      messages: rows.map((row) => {
+        const steps = stepsByMessage.get(row.id);
+        const metadata: ChatMessageMetadata = {
+          ...(row.model && { model: row.model }),
+          ...(steps && { usage: priceUsage(steps, prices) }),
+        };
+        return {
+          id: row.id,
+          role: row.role as UIMessage['role'],
+          // Rows saved before parts were stored only have flattened text
+          parts: row.parts ?? [{ type: 'text', text: row.content ?? '' }],
+          ...(Object.keys(metadata).length > 0 && { metadata }),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error('Failed to load conversation messages:', error);
+    return {
+      success: false,
+      error: 'Failed to load conversation messages',
+    };
+  }
+}
+
+/**
+ * Join the text parts of a message
+ */
+function getPartsText(parts: UIMessage['parts']): string {
+  return parts
+    .filter((part) => part.type === 'text')
+    .map((part) => ('text' in part ? part.text : ''))
+    .join('');
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { saveToolInvocation } from './tool-invocations';
+import { createConversation } from './messages';
+import { createTestDb, cleanupTestDb } from '@/lib/test-helpers';
+import { toolInvocations } from '../schema';
+import { eq } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { createClient } from '@libsql/client';
+
+describe('Tool Invocation Actions', () => {
+  let db: LibSQLDatabase<typeof import('../schema')>;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(async () => {
+    const testDb = await createTestDb();
+    db = testDb.db;
+    client = testDb.client;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDb(client);
+  });
+
+  describe('saveToolInvocation', () => {
+    it('saves a successful tool call against its conversation', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveToolInvocation(
+        {
+          conversationId: convResult.conversationId,
+          toolName: 'get_weather',
+          parameters: { location: 'Paris', startDate: '2024-06-01', endDate: '2024-06-02' },
+          result: { location: 'Paris', forecast: [] },
+          durationMs: 42,
+        },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const saved = await db.query.toolInvocations.findFirst({
+          where: eq(toolInvocations.id, result.toolInvocationId),
+        });
+
+        expect(saved?.conversationId).toBe(convResult.conversationId);
+        expect(saved?.toolName).toBe('get_weather');
+        expect(saved?.parameters).toEqual({
+          location: 'Paris',
+          startDate: '2024-06-01',
+          endDate: '2024-06-02',
+        });
+        expect(saved?.result).toEqual({ location: 'Paris', forecast: [] });
+        expect(saved?.error).toBeNull();
+        expect(saved?.durationMs).toBe(42);
+      }
+    });
+
+    it('saves a failed tool call with its error', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveToolInvocation(
+        {
+          conversationId: convResult.conversationId,
+          toolName: 'parse_date',
+          parameters: { dateString: 'someday' },
+          error: 'Unable to parse date: someday',
+          durationMs: 1,
+        },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const saved = await db.query.toolInvocations.findFirst({
+          where: eq(toolInvocations.id, result.toolInvocationId),
+        });
+
+        expect(saved?.result).toBeNull();
+        expect(saved?.error).toBe('Unable to parse date: someday');
+      }
+    });
+
+    it('returns error when conversation does not exist', async () => {
+      const result = await saveToolInvocation(
+        {
+          conversationId: 'non-existent-id',
+          toolName: 'get_weather',
+          parameters: {},
+        },
+        db
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Failed to save tool invocation');
+      }
+    });
+  });
+});
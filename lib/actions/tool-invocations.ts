@@ -0,0 +1,52 @@
+'use server';
+
+/**
+ * Server actions for tool invocation logging
+ * Persists every tool call made during a chat against its conversation
+ */
+
+import { db as defaultDb } from '@/lib/db';
+import { toolInvocations } from '@/lib/schema';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+
+/**
+ * Save a tool invocation to the database
+ *
+ * @param params - Tool call details, as measured by executeTool
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function saveToolInvocation(
+  params: {
+    conversationId: string;
+    toolName: string;
+    parameters: Record<string, unknown>;
+    result?: unknown;
+    error?: string;
+    durationMs?: number;
+  },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true; toolInvocationId: string } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  try {
+    const toolInvocationId = `tool-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    await db.insert(toolInvocations).values({
+      id: toolInvocationId,
+      conversationId: params.conversationId,
+      toolName: params.toolName,
+      parameters: params.parameters,
+      result: params.result ?? null,
+      error: params.error ?? null,
+      durationMs: params.durationMs ?? null,
+    });
+
+    return { success: true, toolInvocationId };
+  } catch (error) {
+    console.error('Failed to save tool invocation:', error);
+    return {
+      success: false,
+      error: 'Failed to save tool invocation',
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { saveUsage } from './usage';
+import { createConversation, saveMessage } from './messages';
+import { createTestDb, cleanupTestDb } from '@/lib/test-helpers';
+import { conversations, llmUsage } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { createClient } from '@libsql/client';
+
+describe('Usage Actions', () => {
+  let db: LibSQLDatabase<typeof import('../schema')>;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(async () => {
+    const testDb = await createTestDb();
+    db = testDb.db;
+    client = testDb.client;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDb(client);
+  });
+
+  describe('saveUsage', () => {
+    it('saves one row per step against the message', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+      const msgResult = await saveMessage(
+        { conversationId: convResult.conversationId, role: 'assistant', content: 'Hi' },
+        db
+      );
+      if (!msgResult.success) throw new Error('Failed to save message');
+
+      const result = await saveUsage(
+        {
+          conversationId: convResult.conversationId,
+          messageId: msgResult.messageId,
+          steps: [
+            {
+              model: 'groq/llama-3.3-70b-versatile',
+              inputTokens: 900,
+              outputTokens: 40,
+              cachedInputTokens: 0,
+            },
+            {
+              model: 'openai/gpt-4o-mini',
+              inputTokens: 1200,
+              outputTokens: 80,
+              cachedInputTokens: 512,
+            },
+          ],
+        },
+        db
+      );
+
+      expect(result.success).toBe(true);
+
+      const rows = await db
+        .select()
+        .from(llmUsage)
+        .where(eq(llmUsage.messageId, msgResult.messageId))
+        .orderBy(asc(llmUsage.step));
+      expect(rows).toMatchObject([
+        {
+          conversationId: convResult.conversationId,
+          step: 0,
+          model: 'groq/llama-3.3-70b-versatile',
+          inputTokens: 900,
+          outputTokens: 40,
+          cachedInputTokens: 0,
+        },
+        {
+          step: 1,
+          model: 'openai/gpt-4o-mini',
+          inputTokens: 1200,
+          outputTokens: 80,
+          cachedInputTokens: 512,
+        },
+      ]);
+    });
+
+    it('saves usage without a message', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+
+      const result = await saveUsage(
+        {
+          conversationId: convResult.conversationId,
+          steps: [{ model: 'fake/chat', inputTokens: 10, outputTokens: 5, cachedInputTokens: 0 }],
+        },
+        db
+      );
+
+      expect(result.success).toBe(true);
+      const rows = await db.select().from(llmUsage);
+      expect(rows).toHaveLength(1);
+      expect(rows[0].messageId).toBeNull();
+    });
+
+    it('does nothing without steps', async () => {
+      const result = await saveUsage({ conversationId: 'conv-missing', steps: [] }, db);
+
+      expect(result.success).toBe(true);
+      expect(await db.select().from(llmUsage)).toHaveLength(0);
+    });
+
+    it('deletes usage with its conversation', async () => {
+      const convResult = await createConversation(undefined, db);
+      if (!convResult.success) throw new Error('Failed to create conversation');
+      await saveUsage(
+        {
+          conversationId: convResult.conversationId,
+          steps: [{ model: 'fake/chat', inputTokens: 10, outputTokens: 5, cachedInputTokens: 0 }],
+        },
+        db
+      );
+
+      await db.delete(conversations).where(eq(conversations.id, convResult.conversationId));
+
+      expect(await db.select().from(llmUsage)).toHaveLength(0);
+    });
+
+    it('returns error for an unknown conversation', async () => {
+      const result = await saveUsage(
+        {
+          conversationId: 'conv-missing',
+          steps: [{ model: 'fake/chat', inputTokens: 10, outputTokens: 5, cachedInputTokens: 0 }],
+        },
+        db
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Failed to save LLM usage');
+      }
+    });
+  });
+});
@@ -0,0 +1,58 @@
+'use server';
+
+/**
+ * Server actions for LLM usage logging
+ * Persists the tokens used by each step of an assistant reply
+ */
+
+import { db as defaultDb } from '@/lib/db';
+import { llmUsage } from '@/lib/schema';
+import type { StepUsage } from '@/lib/llm/types';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+
+/**
+ * Save the usage of each step of a reply
+ *
+ * @param params - The conversation, the saved assistant message if any,
+ *   and the usage of each step in order
+ * @param dbInstance - Optional database instance (for testing)
+ */
+export async function saveUsage(
+  params: {
+    conversationId: string;
+    messageId?: string;
+    steps: StepUsage[];
+  },
+  dbInstance?: LibSQLDatabase<typeof import('../schema')>
+): Promise<{ success: true } | { success: false; error: string }> {
+  const db = dbInstance || defaultDb;
+
+  if (params.steps.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const prefix = `usage-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    await db.insert(llmUsage).values(
+      params.steps.map((step, index) => ({
+        id: `${prefix}-${index}`,
+        conversationId: params.conversationId,
+        messageId: params.messageId ?? null,
+        step: index,
+        model: step.model,
+        inputTokens: step.inputTokens,
+        outputTokens: step.outputTokens,
+        cachedInputTokens: step.cachedInputTokens,
+      }))
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to save LLM usage:', error);
+    return {
+      success: false,
+      error: 'Failed to save LLM usage',
+    };
+  }
+}
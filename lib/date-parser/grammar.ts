@@ -0,0 +1,580 @@
+import type { Day } from 'date-fns';
+import type { Token } from './tokenizer';
+import type { DateNode, DateOrder, DurationUnit, OffsetUnit, PeriodUnit, RangeNode } from './types';
+
+type NumberToken = Extract<Token, { type: 'number' }>;
+
+export type GrammarResult<T> =
+  | { success: true; node: T }
+  | {
+      success: false;
+      /** Index of the token the grammar got furthest to before failing */
+      index: number;
+      expected: string[];
+    };
+
+const OFFSET_UNITS: OffsetUnit[] = ['day', 'week', 'fortnight', 'month', 'year'];
+const DURATION_UNITS: DurationUnit[] = [...OFFSET_UNITS, 'night'];
+const PERIOD_UNITS: PeriodUnit[] = ['week', 'month', 'year'];
+
+/**
+ * Recursive-descent parser over date tokens
+ *
+ * Every rule returns its node, or null after putting the position back
+ * where it started. The furthest position any rule reached, and what it
+ * expected there, becomes the error when nothing matches.
+ */
+class Parser {
+  private index = 0;
+  private furthest = 0;
+  private expected = new Set<string>();
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly dateOrder: DateOrder
+  ) {}
+
+  /**
+   * Parse the whole input with one rule
+   */
+  parseAll<T>(rule: () => T | null): GrammarResult<T> {
+    const node = this.attempt(() => {
+      const result = rule();
+      return result !== null && this.end() ? result : null;
+    });
+
+    if (node !== null) {
+      return { success: true, node };
+    }
+    return { success: false, index: this.furthest, expected: [...this.expected].sort() };
+  }
+
+  // Ranges
+
+  range(): RangeNode | null {
+    return this.parseFirst<RangeNode>(
+      [
+        () => this.weekend(),
+        () => this.wholePeriod(),
+        () => this.wholeMonth(),
+        () => this.durationStarting(),
+        () => this.durationFor(),
+        () => this.between(),
+        () => {
+          const date = this.date();
+          return date && { kind: 'single', date };
+        },
+      ],
+      // Forms must use up the whole input, so "Dec 20 for a week" isn't read as "Dec"
+      true
+    );
+  }
+
+  /** ["the"] ["this" | "next"] "weekend" */
+  private weekend(): RangeNode | null {
+    const weekend = this.modified(() => this.keyword('weekend'), ['this', 'next']);
+    if (!weekend) return null;
+    return { kind: 'weekend', offset: weekend.modifier === 'next' ? 1 : 0 };
+  }
+
+  /** ["the"] ("this" | "next") ("week" | "month" | "year") */
+  private wholePeriod(): RangeNode | null {
+    return this.attempt(() => {
+      const period = this.modified(() => this.periodUnit(), ['this', 'next']);
+      if (!period?.modifier) return null;
+      return { kind: 'period', unit: period.head, offset: period.modifier === 'next' ? 1 : 0 };
+    });
+  }
+
+  /** ["in"] month [year] */
+  private wholeMonth(): RangeNode | null {
+    return this.attempt(() => {
+      this.keyword('in');
+      const month = this.month();
+      if (month === null) return null;
+      return { kind: 'month', month, year: this.year() };
+    });
+  }
+
+  /** quantity unit ("starting" | "from" | "beginning") date */
+  private durationStarting(): RangeNode | null {
+    return this.attempt(() => {
+      const duration = this.duration();
+      if (!duration || !this.keyword('starting', 'from', 'start')) return null;
+      const start = this.date();
+      return start && { kind: 'duration', start, ...duration };
+    });
+  }
+
+  /** ["from"] date "for" quantity unit */
+  private durationFor(): RangeNode | null {
+    return this.attempt(() => {
+      this.keyword('from');
+      const start = this.date();
+      if (!start || !this.keyword('for')) return null;
+      const duration = this.duration();
+      return duration && { kind: 'duration', start, ...duration };
+    });
+  }
+
+  /** ["from" | "between"] date ("to" | "and" | "-") date */
+  private between(): RangeNode | null {
+    return this.attempt(() => {
+      // Spanish and Portuguese "de" is both "from" and "of"
+      this.keyword('from', 'between', 'of');
+      const start = this.date();
+      if (!start || !(this.keyword('to', 'and') || this.punct('-'))) return null;
+      const end = this.date();
+      return end && { kind: 'between', start, end };
+    });
+  }
+
+  // Single dates
+
+  /** primary, optionally followed by "+ 2 days" or "minus a week" */
+  date(): DateNode | null {
+    let node = this.primaryDate();
+    if (!node) return null;
+
+    for (;;) {
+      const offset = this.signedOffset();
+      if (!offset) return node;
+      node = { kind: 'offset', base: node, ...offset };
+    }
+  }
+
+  /** ["on"] date without an offset */
+  private primaryDate(): DateNode | null {
+    return this.attempt(() => {
+      this.keyword('on');
+      return this.parseFirst<DateNode>([
+        () => this.relativeDay(),
+        () => this.inOffset(),
+        () => this.relativeOffset(),
+        () => this.dayAfter(),
+        () => this.periodBoundary(),
+        () => this.monthBoundary(),
+        () => this.weekday(),
+        () => this.period(),
+        () => this.isoDate(),
+        () => this.numericDate(),
+        () => this.monthFirst(),
+        () => this.dayFirst(),
+        () => this.monthOnly(),
+        () => this.dayOfMonth(),
+      ]);
+    });
+  }
+
+  /** "today" | "tomorrow" | "yesterday" */
+  private relativeDay(): DateNode | null {
+    const keyword = this.keyword('today', 'tomorrow', 'yesterday');
+    if (!keyword) return null;
+    return { kind: 'relativeDay', days: { today: 0, tomorrow: 1, yesterday: -1 }[keyword]! };
+  }
+
+  /** "in" quantity unit */
+  private inOffset(): DateNode | null {
+    return this.attempt(() => {
+      const offset = this.keyword('in') ? this.offset() : null;
+      return offset && { kind: 'offset', base: TODAY, ...offset };
+    });
+  }
+
+  /**
+   * "ago" quantity unit, or
+   * quantity unit ("ago" | "later" | "from now" | ("from" | "after" | "before") date)
+   */
+  private relativeOffset(): DateNode | null {
+    return this.attempt(() => {
+      // "hace 3 días" puts "ago" first
+      const agoFirst = this.keyword('ago');
+      const offset = this.offset();
+      if (!offset) return null;
+
+      if (agoFirst || this.keyword('ago')) {
+        return { kind: 'offset', base: TODAY, amount: -offset.amount, unit: offset.unit };
+      }
+      if (
+        this.keyword('later') ||
+        this.attempt(() => (this.keyword('from') ? this.keyword('now') : null))
+      ) {
+        return { kind: 'offset', base: TODAY, ...offset };
+      }
+
+      const direction = this.keyword('from', 'after', 'before');
+      const base = direction ? this.date() : null;
+      if (!base) return null;
+      return {
+        kind: 'offset',
+        base,
+        amount: direction === 'before' ? -offset.amount : offset.amount,
+        unit: offset.unit,
+      };
+    });
+  }
+
+  /** ["the"] "day" ("after" | "before") date */
+  private dayAfter(): DateNode | null {
+    return this.attempt(() => {
+      this.keyword('the');
+      const direction = this.keyword('day') ? this.keyword('after', 'before') : null;
+      const base = direction ? this.date() : null;
+      return base && { kind: 'offset', base, amount: direction === 'after' ? 1 : -1, unit: 'day' };
+    });
+  }
+
+  /** ["the"] ("start" | "end") ["of"] ["the" | "this" | "next" | "last"] ("week" | "month" | "year") */
+  private periodBoundary(): DateNode | null {
+    return this.attempt(() => {
+      this.keyword('the');
+      const anchor = this.keyword('start', 'end');
+      if (!anchor) return null;
+      this.keyword('of');
+      const period = this.modified(() => this.periodUnit(), ['this', 'next', 'last']);
+      if (!period) return null;
+      return {
+        kind: 'period',
+        unit: period.head,
+        offset: modifierOffset(period.modifier),
+        anchor: anchor as 'start' | 'end',
+      };
+    });
+  }
+
+  /** ["the"] ("start" | "end") ["of"] month [year] */
+  private monthBoundary(): DateNode | null {
+    return this.attempt(() => {
+      this.keyword('the');
+      const anchor = this.keyword('start', 'end');
+      if (!anchor) return null;
+      this.keyword('of');
+      const month = this.month();
+      if (month === null) return null;
+      return { kind: 'month', month, year: this.year(), anchor: anchor as 'start' | 'end' };
+    });
+  }
+
+  /** ["the"] ["this" | "next" | "last"] weekday */
+  private weekday(): DateNode | null {
+    const weekday = this.modified(
+      () => this.match('weekday', 'a day of the week'),
+      ['this', 'next', 'last']
+    );
+    if (!weekday) return null;
+    return {
+      kind: 'weekday',
+      weekday: weekday.head.value as Day,
+      modifier: weekday.modifier as 'this' | 'next' | 'last' | null,
+    };
+  }
+
+  /** ["the"] ("this" | "next" | "last") ("week" | "month" | "year") */
+  private period(): DateNode | null {
+    return this.attempt(() => {
+      const period = this.modified(() => this.periodUnit(), ['this', 'next', 'last']);
+      if (!period?.modifier) return null;
+      return {
+        kind: 'period',
+        unit: period.head,
+        offset: modifierOffset(period.modifier),
+        anchor: period.modifier === 'this' ? null : 'start',
+      };
+    });
+  }
+
+  /** yyyy-mm-dd, yyyy/mm/dd or yyyy.mm.dd */
+  private isoDate(): DateNode | null {
+    return this.attempt(() => {
+      const year = this.number((token) => token.digits === 4, 'a year');
+      const separator = year ? this.punct('-', '/', '.') : null;
+      const month = separator ? this.number(isNumericPart, 'a month') : null;
+      const day = month && this.punct(separator!) ? this.number(isNumericPart, 'a day') : null;
+      if (!year || !month || !day) return null;
+      return { kind: 'calendar', year: year.value, month: month.value - 1, day: day.value };
+    });
+  }
+
+  /** n/n[/yy], n.n[.yy] or n-n-yy, read in the preferred date order */
+  private numericDate(): DateNode | null {
+    return this.attempt(() => {
+      const first = this.number(isNumericPart, 'a number');
+      const separator = first ? this.punct('/', '.', '-') : null;
+      const second = separator ? this.number(isNumericPart, 'a number') : null;
+      if (!first || !separator || !second) return null;
+
+      const year = this.attempt(() => {
+        const part = this.punct(separator) ? this.number(isYearPart, 'a year') : null;
+        return part && (part.digits === 2 ? 2000 + part.value : part.value);
+      });
+      // "20-27" is a range of days, not a date
+      if (year === null && separator === '-') return null;
+
+      let [month, day] =
+        this.dateOrder === 'MDY' ? [first.value, second.value] : [second.value, first.value];
+      if (month > 12 && day <= 12) {
+        [month, day] = [day, month];
+      }
+      return { kind: 'calendar', year, month: month - 1, day };
+    });
+  }
+
+  /** month ["the"] day [","] [year] */
+  private monthFirst(): DateNode | null {
+    return this.attempt(() => {
+      const month = this.month();
+      if (month === null) return null;
+      this.keyword('the');
+      const day = this.dayNumber();
+      if (day === null) return null;
+      return { kind: 'calendar', year: this.year(), month, day };
+    });
+  }
+
+  /** ["the"] ["day"] day ["of"] month [year] */
+  private dayFirst(): DateNode | null {
+    return this.attempt(() => {
+      this.keyword('the');
+      this.keyword('day');
+      const day = this.dayNumber(true);
+      if (day === null) return null;
+      this.keyword('of');
+      const month = this.month();
+      if (month === null) return null;
+      return { kind: 'calendar', year: this.year(), month, day };
+    });
+  }
+
+  /** month [year] */
+  private monthOnly(): DateNode | null {
+    return this.attempt(() => {
+      const month = this.month();
+      if (month === null) return null;
+      return { kind: 'month', month, year: this.year(), anchor: 'start' };
+    });
+  }
+
+  /** ["the"] ["day"] day */
+  private dayOfMonth(): DateNode | null {
+    return this.attempt(() => {
+      const article = this.keyword('the');
+      const day = this.dayNumber(Boolean(this.keyword('day') ?? article));
+      return day === null ? null : { kind: 'dayOfMonth', day };
+    });
+  }
+
+  // Pieces
+
+  /** quantity ("day" | "week" | "fortnight" | "month" | "year") */
+  private offset(): { amount: number; unit: OffsetUnit } | null {
+    return this.attempt(() => {
+      const amount = this.quantity();
+      const unit = amount ? (this.keyword(...OFFSET_UNITS) as OffsetUnit | null) : null;
+      return amount && unit ? { amount, unit } : null;
+    });
+  }
+
+  /** quantity ("day" | "night" | "week" | "fortnight" | "month" | "year") */
+  private duration(): { amount: number; unit: DurationUnit } | null {
+    return this.attempt(() => {
+      const amount = this.quantity();
+      const unit = amount ? (this.keyword(...DURATION_UNITS) as DurationUnit | null) : null;
+      return amount && unit ? { amount, unit } : null;
+    });
+  }
+
+  private periodUnit(): PeriodUnit | null {
+    return this.keyword(...PERIOD_UNITS) as PeriodUnit | null;
+  }
+
+  /**
+   * ["the"] [modifier] head, or ["the"] head modifier - Spanish and
+   * Portuguese can put "next" and "last" after the word ("sexta que vem")
+   */
+  private modified<T>(
+    head: () => T | null,
+    modifiers: string[]
+  ): { head: T; modifier: string | null } | null {
+    return this.attempt(() => {
+      this.keyword('the');
+      const before = this.keyword(...modifiers);
+      const value = head();
+      if (value === null) return null;
+      const after = before ? null : this.keyword(...modifiers.filter((m) => m !== 'this'));
+      return { head: value, modifier: before ?? after };
+    });
+  }
+
+  /** ("+" | "plus" | "-" | "minus") quantity unit */
+  private signedOffset(): { amount: number; unit: OffsetUnit } | null {
+    return this.attempt(() => {
+      let sign = 0;
+      if (this.punct('+') || this.keyword('plus')) sign = 1;
+      else if (this.punct('-') || this.keyword('minus')) sign = -1;
+      const offset = sign ? this.offset() : null;
+      return offset && { amount: sign * offset.amount, unit: offset.unit };
+    });
+  }
+
+  /** A count: "3", "three", "twenty-one", "a" */
+  private quantity(): number | null {
+    if (this.keyword('a', 'an')) return 1;
+    const token = this.number((token) => !token.ordinal && token.value > 0, 'a number');
+    return token ? token.value : null;
+  }
+
+  /**
+   * A day of the month: "3", "3rd", "third", "twenty-first", and written
+   * cardinals ("tres") after "the" or "day" or before a month
+   */
+  private dayNumber(cardinalWords = false): number | null {
+    const token = this.number(
+      (token) =>
+        (token.ordinal || token.digits > 0 || cardinalWords) &&
+        token.digits <= 2 &&
+        token.value >= 1 &&
+        token.value <= 31,
+      'a day of the month'
+    );
+    return token ? token.value : null;
+  }
+
+  /** Optional year after a date: ["," | "of"] yyyy */
+  private year(): number | null {
+    return this.attempt(() => {
+      if (!this.punct(',')) this.keyword('of');
+      const token = this.number((token) => token.digits === 4, 'a year');
+      return token ? token.value : null;
+    });
+  }
+
+  private month(): number | null {
+    const token = this.match('month', 'a month');
+    if (!token) return null;
+    // "Dec." is an abbreviation
+    this.punct('.');
+    return token.value;
+  }
+
+  // Terminals
+
+  private keyword(...values: string[]): string | null {
+    const token = this.tokens[this.index];
+    if (token?.type === 'keyword' && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    values.forEach((value) => this.fail(`"${value}"`));
+    return null;
+  }
+
+  private punct(...values: string[]): string | null {
+    const token = this.tokens[this.index];
+    if (token?.type === 'punct' && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    values.forEach((value) => this.fail(`"${value}"`));
+    return null;
+  }
+
+  private number(accept: (token: NumberToken) => boolean, description: string): NumberToken | null {
+    const token = this.tokens[this.index];
+    if (token?.type === 'number' && accept(token)) {
+      this.index++;
+      return token;
+    }
+    this.fail(description);
+    return null;
+  }
+
+  private match<T extends Token['type']>(
+    type: T,
+    description: string
+  ): Extract<Token, { type: T }> | null {
+    const token = this.tokens[this.index];
+    if (token?.type === type) {
+      this.index++;
+      return token as Extract<Token, { type: T }>;
+    }
+    this.fail(description);
+    return null;
+  }
+
+  private end(): boolean {
+    if (this.index === this.tokens.length) return true;
+    this.fail('end of input');
+    return false;
+  }
+
+  // Backtracking
+
+  private attempt<T>(rule: () => T | null): T | null {
+    const start = this.index;
+    const result = rule();
+    if (result === null) {
+      this.index = start;
+    }
+    return result;
+  }
+
+  /**
+   * Ordered choice: the first rule that matches, optionally only
+   * counting matches that reach the end of the input
+   */
+  private parseFirst<T>(rules: Array<() => T | null>, toEnd = false): T | null {
+    for (const rule of rules) {
+      const node = this.attempt(() => {
+        const result = rule();
+        return result !== null && (!toEnd || this.end()) ? result : null;
+      });
+      if (node !== null) return node;
+    }
+    return null;
+  }
+
+  private fail(expected: string) {
+    if (this.index > this.furthest) {
+      this.furthest = this.index;
+      this.expected.clear();
+    }
+    if (this.index === this.furthest) {
+      this.expected.add(expected);
+    }
+  }
+}
+
+const TODAY: DateNode = { kind: 'relativeDay', days: 0 };
+
+function isNumericPart(token: NumberToken): boolean {
+  return !token.ordinal && token.digits > 0 && token.digits <= 2;
+}
+
+function isYearPart(token: NumberToken): boolean {
+  return !token.ordinal && (token.digits === 2 || token.digits === 4);
+}
+
+function modifierOffset(modifier: string | null): number {
+  if (modifier === 'next') return 1;
+  if (modifier === 'last') return -1;
+  return 0;
+}
+
+/**
+ * Parse tokens as a single date
+ */
+export function parseDateTokens(tokens: Token[], dateOrder: DateOrder): GrammarResult<DateNode> {
+  const parser = new Parser(tokens, dateOrder);
+  return parser.parseAll(() => parser.date());
+}
+
+/**
+ * Parse tokens as a date range
+ *
+ * Each form must consume the whole input, so "Friday for 3 nights" isn't
+ * mistaken for the single date "Friday".
+ */
+export function parseRangeTokens(tokens: Token[], dateOrder: DateOrder): GrammarResult<RangeNode> {
+  const parser = new Parser(tokens, dateOrder);
+  return parser.parseAll(() => parser.range());
+}
@@ -0,0 +1,583 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseDate, parseDateRange, parseHumanDate, parseHumanDateRange } from '.';
+
+describe('parseHumanDate', () => {
+  beforeEach(() => {
+    // Mock the current date to 2025-11-18 for consistent testing
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('absolute dates', () => {
+    it('parses "today" to current date', () => {
+      const result = parseHumanDate('today');
+      expect(result).toBe('2025-11-18');
+    });
+
+    it('parses "tomorrow" to next day', () => {
+      const result = parseHumanDate('tomorrow');
+      expect(result).toBe('2025-11-19');
+    });
+
+    it('parses "yesterday" to previous day', () => {
+      const result = parseHumanDate('yesterday');
+      expect(result).toBe('2025-11-17');
+    });
+  });
+
+  describe('relative dates with "from now"', () => {
+    it('parses "two days from now"', () => {
+      const result = parseHumanDate('two days from now');
+      expect(result).toBe('2025-11-20');
+    });
+
+    it('parses "2 days from now"', () => {
+      const result = parseHumanDate('2 days from now');
+      expect(result).toBe('2025-11-20');
+    });
+
+    it('parses "1 week from now"', () => {
+      const result = parseHumanDate('1 week from now');
+      expect(result).toBe('2025-11-25');
+    });
+
+    it('parses "3 weeks from now"', () => {
+      const result = parseHumanDate('3 weeks from now');
+      expect(result).toBe('2025-12-09');
+    });
+  });
+
+  describe('addition syntax', () => {
+    it('parses "today + 2 days"', () => {
+      const result = parseHumanDate('today + 2 days');
+      expect(result).toBe('2025-11-20');
+    });
+
+    it('parses "today + 1 week"', () => {
+      const result = parseHumanDate('today + 1 week');
+      expect(result).toBe('2025-11-25');
+    });
+
+    it('parses "today+2days" (no spaces)', () => {
+      const result = parseHumanDate('today+2days');
+      expect(result).toBe('2025-11-20');
+    });
+  });
+
+  describe('week references', () => {
+    it('parses "next week" to next Monday (date-fns default)', () => {
+      // If today is Tuesday 2025-11-18, next week (next Monday) is 2025-11-24
+      const result = parseHumanDate('next week');
+      expect(result).toBe('2025-11-24');
+    });
+
+    it('parses "next Monday"', () => {
+      // From Tuesday 2025-11-18, next Monday is 2025-11-24
+      const result = parseHumanDate('next Monday');
+      expect(result).toBe('2025-11-24');
+    });
+
+    it('parses "next Friday"', () => {
+      // From Tuesday 2025-11-18, next Friday is 2025-11-21
+      const result = parseHumanDate('next Friday');
+      expect(result).toBe('2025-11-21');
+    });
+  });
+
+  describe('word numbers', () => {
+    it('parses "one day from now"', () => {
+      const result = parseHumanDate('one day from now');
+      expect(result).toBe('2025-11-19');
+    });
+
+    it('parses "three weeks from now"', () => {
+      const result = parseHumanDate('three weeks from now');
+      expect(result).toBe('2025-12-09');
+    });
+  });
+
+  describe('case insensitivity', () => {
+    it('handles uppercase input', () => {
+      const result = parseHumanDate('TODAY');
+      expect(result).toBe('2025-11-18');
+    });
+
+    it('handles mixed case input', () => {
+      const result = parseHumanDate('Next Week');
+      expect(result).toBe('2025-11-24');
+    });
+  });
+
+  describe('error handling', () => {
+    it('throws error for unparseable input', () => {
+      expect(() => parseHumanDate('invalid date string')).toThrow(
+        'Unable to parse date: invalid date string'
+      );
+    });
+
+    it('throws error for empty string', () => {
+      expect(() => parseHumanDate('')).toThrow('Unable to parse date:');
+    });
+  });
+
+  describe('already formatted dates', () => {
+    it('returns YYYY-MM-DD dates as-is', () => {
+      const result = parseHumanDate('2025-12-25');
+      expect(result).toBe('2025-12-25');
+    });
+
+    it('validates that formatted dates are valid', () => {
+      expect(() => parseHumanDate('2025-13-45')).toThrow();
+    });
+  });
+});
+
+describe('parseHumanDateRange', () => {
+  beforeEach(() => {
+    // Mock the current date to Tuesday 2025-11-18 for consistent testing
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('named periods', () => {
+    it('parses "this weekend" to the coming Saturday and Sunday', () => {
+      const result = parseHumanDateRange('this weekend');
+      expect(result).toEqual({ startDate: '2025-11-22', endDate: '2025-11-23', nights: 1 });
+    });
+
+    it('parses "next weekend" to the weekend of next week', () => {
+      const result = parseHumanDateRange('next weekend');
+      expect(result).toEqual({ startDate: '2025-11-29', endDate: '2025-11-30', nights: 1 });
+    });
+
+    it('parses "next week" to Monday through Sunday', () => {
+      const result = parseHumanDateRange('next week');
+      expect(result).toEqual({ startDate: '2025-11-24', endDate: '2025-11-30', nights: 6 });
+    });
+
+    it('parses "this weekend" on a Saturday to today and tomorrow', () => {
+      vi.setSystemTime(new Date('2025-11-22T12:00:00Z'));
+
+      const result = parseHumanDateRange('this weekend');
+      expect(result).toEqual({ startDate: '2025-11-22', endDate: '2025-11-23', nights: 1 });
+    });
+  });
+
+  describe('days of the month', () => {
+    it('parses "from the 3rd to the 10th" to next month when the 3rd has passed', () => {
+      const result = parseHumanDateRange('from the 3rd to the 10th');
+      expect(result).toEqual({ startDate: '2025-12-03', endDate: '2025-12-10', nights: 7 });
+    });
+
+    it('parses "from the 20th to the 25th" to this month when the 20th is ahead', () => {
+      const result = parseHumanDateRange('from the 20th to the 25th');
+      expect(result).toEqual({ startDate: '2025-11-20', endDate: '2025-11-25', nights: 5 });
+    });
+
+    it('rolls the end into the next month when it is before the start', () => {
+      const result = parseHumanDateRange('the 28th to the 3rd');
+      expect(result).toEqual({ startDate: '2025-11-28', endDate: '2025-12-03', nights: 5 });
+    });
+
+    it('skips months that do not have the day', () => {
+      const result = parseHumanDateRange('the 31st to the 2nd');
+      expect(result).toEqual({ startDate: '2025-12-31', endDate: '2026-01-02', nights: 2 });
+    });
+  });
+
+  describe('month names', () => {
+    it('parses "Dec 20 – Jan 2" across the new year', () => {
+      const result = parseHumanDateRange('Dec 20 – Jan 2');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2026-01-02', nights: 13 });
+    });
+
+    it('parses full month names with ordinals', () => {
+      const result = parseHumanDateRange('December 20th to January 2nd');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2026-01-02', nights: 13 });
+    });
+
+    it('parses day-first dates', () => {
+      const result = parseHumanDateRange('20 Dec - 2 Jan');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2026-01-02', nights: 13 });
+    });
+
+    it('parses "Dec 20-27" with the month given once', () => {
+      const result = parseHumanDateRange('Dec 20-27');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2025-12-27', nights: 7 });
+    });
+
+    it('uses next year for months that have passed', () => {
+      const result = parseHumanDateRange('Jan 5 to Jan 10');
+      expect(result).toEqual({ startDate: '2026-01-05', endDate: '2026-01-10', nights: 5 });
+    });
+
+    it('respects explicit years', () => {
+      const result = parseHumanDateRange('March 3, 2027 to March 10, 2027');
+      expect(result).toEqual({ startDate: '2027-03-03', endDate: '2027-03-10', nights: 7 });
+    });
+
+    it('parses "between Dec 1 and Dec 5"', () => {
+      const result = parseHumanDateRange('between Dec 1 and Dec 5');
+      expect(result).toEqual({ startDate: '2025-12-01', endDate: '2025-12-05', nights: 4 });
+    });
+  });
+
+  describe('durations', () => {
+    it('parses "a week starting Friday"', () => {
+      const result = parseHumanDateRange('a week starting Friday');
+      expect(result).toEqual({ startDate: '2025-11-21', endDate: '2025-11-28', nights: 7 });
+    });
+
+    it('parses "3 nights from tomorrow"', () => {
+      const result = parseHumanDateRange('3 nights from tomorrow');
+      expect(result).toEqual({ startDate: '2025-11-19', endDate: '2025-11-22', nights: 3 });
+    });
+
+    it('counts the start day in "five days starting next Monday"', () => {
+      const result = parseHumanDateRange('five days starting next Monday');
+      expect(result).toEqual({ startDate: '2025-11-24', endDate: '2025-11-28', nights: 4 });
+    });
+
+    it('parses "Friday for a week"', () => {
+      const result = parseHumanDateRange('Friday for a week');
+      expect(result).toEqual({ startDate: '2025-11-21', endDate: '2025-11-28', nights: 7 });
+    });
+
+    it('parses "Dec 20 for two weeks"', () => {
+      const result = parseHumanDateRange('Dec 20 for two weeks');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2026-01-03', nights: 14 });
+    });
+  });
+
+  describe('relative dates', () => {
+    it('parses "today to Sunday"', () => {
+      const result = parseHumanDateRange('today to Sunday');
+      expect(result).toEqual({ startDate: '2025-11-18', endDate: '2025-11-23', nights: 5 });
+    });
+
+    it('parses "tomorrow until next Friday"', () => {
+      const result = parseHumanDateRange('tomorrow until next Friday');
+      expect(result).toEqual({ startDate: '2025-11-19', endDate: '2025-11-21', nights: 2 });
+    });
+
+    it('parses a single day as a day trip', () => {
+      const result = parseHumanDateRange('tomorrow');
+      expect(result).toEqual({ startDate: '2025-11-19', endDate: '2025-11-19', nights: 0 });
+    });
+  });
+
+  describe('already formatted dates', () => {
+    it('parses "2025-12-20 to 2025-12-27"', () => {
+      const result = parseHumanDateRange('2025-12-20 to 2025-12-27');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2025-12-27', nights: 7 });
+    });
+
+    it('parses ISO dates separated by a dash', () => {
+      const result = parseHumanDateRange('2025-12-20 - 2025-12-27');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2025-12-27', nights: 7 });
+    });
+  });
+
+  describe('case insensitivity', () => {
+    it('handles mixed case and extra spaces', () => {
+      const result = parseHumanDateRange('  DEC 20   to  Jan 2 ');
+      expect(result).toEqual({ startDate: '2025-12-20', endDate: '2026-01-02', nights: 13 });
+    });
+  });
+
+  describe('error handling', () => {
+    it('throws error for unparseable input', () => {
+      expect(() => parseHumanDateRange('whenever suits')).toThrow(
+        'Unable to parse date range: whenever suits'
+      );
+    });
+
+    it('throws error for empty string', () => {
+      expect(() => parseHumanDateRange('')).toThrow('Unable to parse date range:');
+    });
+
+    it('throws error when the end is before the start', () => {
+      expect(() => parseHumanDateRange('2025-12-27 to 2025-12-20')).toThrow(
+        'End date is before start date: 2025-12-27 to 2025-12-20'
+      );
+    });
+
+    it('throws error for impossible dates', () => {
+      expect(() => parseHumanDateRange('Feb 30 to Mar 2')).toThrow(
+        'Unable to parse date range: Feb 30 to Mar 2'
+      );
+    });
+  });
+});
+
+describe('parseDate', () => {
+  beforeEach(() => {
+    // Tuesday 2025-11-18
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ['March 3rd', '2026-03-03'],
+    ['3 March 2026', '2026-03-03'],
+    ['Dec. 25', '2025-12-25'],
+    ['December 25th, 2027', '2027-12-25'],
+    ['the 3rd of March', '2026-03-03'],
+    ['March the third', '2026-03-03'],
+    ['the twenty-first', '2025-11-21'],
+    ['the 10th', '2025-12-10'],
+    ['on Friday', '2025-11-21'],
+    ['this Friday', '2025-11-21'],
+    ['last Friday', '2025-11-14'],
+    ['this Tuesday', '2025-11-18'],
+    ['next Tuesday', '2025-11-25'],
+  ])('parses calendar and weekday dates: %s', (input, expected) => {
+    expect(parseDate(input)).toEqual({ success: true, date: expected });
+  });
+
+  it.each([
+    ['in 2 weeks', '2025-12-02'],
+    ['in a fortnight', '2025-12-02'],
+    ['in three months', '2026-02-18'],
+    ['a year from now', '2026-11-18'],
+    ['twenty-one days from now', '2025-12-09'],
+    ['thirty days later', '2025-12-18'],
+    ['2 weeks ago', '2025-11-04'],
+    ['a week from Friday', '2025-11-28'],
+    ['2 days before Dec 25', '2025-12-23'],
+    ['the day after tomorrow', '2025-11-20'],
+    ['next Friday plus a week', '2025-11-28'],
+    ['today - 1 month', '2025-10-18'],
+  ])('parses relative dates: %s', (input, expected) => {
+    expect(parseDate(input)).toEqual({ success: true, date: expected });
+  });
+
+  it.each([
+    ['end of the month', '2025-11-30'],
+    ['end of next month', '2025-12-31'],
+    ['start of next week', '2025-11-24'],
+    ['end of this week', '2025-11-23'],
+    ['beginning of next year', '2026-01-01'],
+    ['end of February', '2026-02-28'],
+    ['next month', '2025-12-01'],
+    ['this week', '2025-11-18'],
+  ])('parses periods: %s', (input, expected) => {
+    expect(parseDate(input)).toEqual({ success: true, date: expected });
+  });
+
+  describe('numeric dates', () => {
+    it('reads month first by default', () => {
+      expect(parseDate('03/04/2026')).toEqual({ success: true, date: '2026-03-04' });
+    });
+
+    it('reads day first with the DMY date order', () => {
+      expect(parseDate('03/04/2026', { dateOrder: 'DMY' })).toEqual({
+        success: true,
+        date: '2026-04-03',
+      });
+    });
+
+    it('switches order when only the other one is valid', () => {
+      expect(parseDate('25.12.2025')).toEqual({ success: true, date: '2025-12-25' });
+      expect(parseDate('12/25', { dateOrder: 'DMY' })).toEqual({
+        success: true,
+        date: '2025-12-25',
+      });
+    });
+
+    it('expands two-digit years and rolls dates without a year forward', () => {
+      expect(parseDate('1-2-27')).toEqual({ success: true, date: '2027-01-02' });
+      expect(parseDate('1/2')).toEqual({ success: true, date: '2026-01-02' });
+    });
+  });
+
+  describe('structured errors', () => {
+    it('reports an empty input', () => {
+      expect(parseDate('   ')).toEqual({
+        success: false,
+        error: {
+          code: 'empty_input',
+          message: 'Unable to parse date: input is empty',
+          input: '   ',
+          position: 0,
+        },
+      });
+    });
+
+    it('reports where an unexpected word is and what was expected', () => {
+      const result = parseDate('next Fryday');
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toMatchObject({
+        code: 'unexpected_token',
+        message: 'Unable to parse date: next Fryday (unexpected "Fryday" at position 5)',
+        position: 5,
+      });
+      expect(result.error.expected).toEqual(
+        expect.arrayContaining(['a day of the week', '"week"', '"month"'])
+      );
+    });
+
+    it('reports input that ends too early', () => {
+      const result = parseDate('in 3');
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toMatchObject({ code: 'unexpected_end', position: 4 });
+      expect(result.error.expected).toContain('"week"');
+    });
+
+    it('reports dates that do not exist', () => {
+      expect(parseDate('February 30th')).toEqual({
+        success: false,
+        error: {
+          code: 'invalid_date',
+          message: 'Unable to parse date: February 30th (February has no day 30)',
+          input: 'February 30th',
+        },
+      });
+      expect(parseDate('2025-13-01')).toMatchObject({
+        success: false,
+        error: { code: 'invalid_date', message: expect.stringContaining('there is no month 13') },
+      });
+    });
+  });
+});
+
+describe('parseDateRange', () => {
+  beforeEach(() => {
+    // Tuesday 2025-11-18
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ['next month', '2025-12-01', '2025-12-31'],
+    ['this week', '2025-11-18', '2025-11-23'],
+    ['in March', '2026-03-01', '2026-03-31'],
+    ['March 3rd for a fortnight', '2026-03-03', '2026-03-17'],
+    ['2 months starting March 1', '2026-03-01', '2026-05-01'],
+    ['12/20 - 12/27', '2025-12-20', '2025-12-27'],
+    ['20/12 to 2/1', '2025-12-20', '2026-01-02'],
+    ['Dec 1 - 5', '2025-12-01', '2025-12-05'],
+    ['tomorrow until the end of the month', '2025-11-19', '2025-11-30'],
+  ])('parses %s', (input, startDate, endDate) => {
+    const result = parseDateRange(input, { dateOrder: 'DMY' });
+
+    expect(result).toMatchObject({ success: true, range: { startDate, endDate } });
+  });
+
+  it('reports a range that ends before it starts', () => {
+    expect(parseDateRange('2025-12-27 to 2025-12-20')).toEqual({
+      success: false,
+      error: {
+        code: 'end_before_start',
+        message: 'End date is before start date: 2025-12-27 to 2025-12-20',
+        input: '2025-12-27 to 2025-12-20',
+      },
+    });
+  });
+
+  it.each(['Jan 5 to Jan 3', 'Dec 20 to Dec 18', 'tomorrow until Nov 10'])(
+    'reports %s as ending before it starts rather than a year later',
+    (input) => {
+      expect(parseDateRange(input)).toMatchObject({
+        success: false,
+        error: { code: 'end_before_start', input },
+      });
+    }
+  );
+
+  it('crosses into the next year when the end month comes first', () => {
+    expect(parseDateRange('Dec 20 to Jan 2')).toMatchObject({
+      success: true,
+      range: { startDate: '2025-12-20', endDate: '2026-01-02', nights: 13 },
+    });
+    expect(parseDateRange('Jan 5 to Feb 3')).toMatchObject({
+      success: true,
+      range: { startDate: '2026-01-05', endDate: '2026-02-03' },
+    });
+  });
+
+  it.each(['in 300000 years', '1000000 years from now'])(
+    'reports dates too far away to represent: %s',
+    (input) => {
+      expect(parseDateRange(input)).toMatchObject({
+        success: false,
+        error: { code: 'invalid_date', input },
+      });
+      expect(parseDate(input)).toMatchObject({
+        success: false,
+        error: { code: 'invalid_date', input },
+      });
+    }
+  );
+
+  it('reports the furthest point the grammar reached', () => {
+    const result = parseDateRange('Friday for a while');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toMatchObject({ code: 'unexpected_token', position: 13 });
+    expect(result.error.expected).toEqual(expect.arrayContaining(['"night"', '"week"']));
+  });
+});
+
+describe('time zones and reference dates', () => {
+  beforeEach(() => {
+    // 09:30 on Wednesday 2025-11-19 in Sydney, still Tuesday in UTC
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-18T22:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves relative dates from the user's today", () => {
+    expect(parseDate('tomorrow', { timeZone: 'Australia/Sydney' })).toEqual({
+      success: true,
+      date: '2025-11-20',
+    });
+    expect(parseDate('tomorrow', { timeZone: 'UTC' })).toEqual({
+      success: true,
+      date: '2025-11-19',
+    });
+  });
+
+  it('resolves ranges from the reference date', () => {
+    expect(parseDateRange('this weekend', { referenceDate: '2026-01-07' })).toEqual({
+      success: true,
+      range: { startDate: '2026-01-10', endDate: '2026-01-11', nights: 1 },
+    });
+    expect(parseHumanDate('in 2 weeks', { referenceDate: '2026-01-07' })).toBe('2026-01-21');
+  });
+
+  it('reports an unknown time zone', () => {
+    expect(parseDate('tomorrow', { timeZone: 'Nowhere/Special' })).toEqual({
+      success: false,
+      error: {
+        code: 'invalid_option',
+        message: 'Unable to parse date: tomorrow (Unknown time zone: Nowhere/Special)',
+        input: 'tomorrow',
+      },
+    });
+  });
+});
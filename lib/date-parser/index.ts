@@ -0,0 +1,261 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { parseDateTokens, parseRangeTokens, type GrammarResult } from './grammar';
+import { LOCALES } from './locales';
+import { getReferenceDay } from './reference';
+import { resolveDate, resolveRange } from './resolve';
+import { tokenize, type Token } from './tokenizer';
+import type {
+  DateParseError,
+  DateParseOptions,
+  DateParseResult,
+  DateRange,
+  DateRangeParseResult,
+  LocalePack,
+} from './types';
+
+export type {
+  DateOrder,
+  DateParseError,
+  DateParseOptions,
+  DateParseResult,
+  DateRange,
+  DateRangeParseResult,
+  Locale,
+} from './types';
+export { isLocale, toLocale } from './locales';
+export { isTimeZone, getReferenceDay } from './reference';
+
+/**
+ * Parses a human-readable date into YYYY-MM-DD format
+ *
+ * Supports formats like (from Tuesday 2025-11-18):
+ * - "today", "tomorrow", "yesterday"
+ * - "next Friday" → 2025-11-21, "this Friday", "last Friday"
+ * - "next week" → 2025-11-24 (next Monday), "next month", "next year"
+ * - "end of the month" → 2025-11-30, "start of next week", "end of March"
+ * - "in 2 weeks", "in a fortnight", "twenty-one days from now", "3 months ago"
+ * - "a week from Friday", "2 days before Dec 25", "today + 2 days"
+ * - "March 3rd", "3 March 2026", "the 3rd of March", "the twenty-first"
+ * - "2025-12-25", "12/25", "25.12.2025" (numeric dates read month first
+ *   unless `dateOrder` is 'DMY' or only day first is valid)
+ *
+ * Dates without a year or month are the next matching date. Relative
+ * dates count from `referenceDate` (default now) in the user's `timeZone`.
+ *
+ * Spanish and Portuguese work the same way ("el viernes que viene",
+ * "daqui a 2 semanas"); the language is `locale` or detected from the words.
+ *
+ * @param input - Human-readable date string
+ * @returns The date, or a structured error saying where parsing failed
+ */
+export function parseDate(input: string, options: DateParseOptions = {}): DateParseResult {
+  const readings = readInput(input, options);
+  if (readings[0].tokens.length === 0) {
+    return { success: false, error: emptyInputError(input, 'date') };
+  }
+
+  let today: Date;
+  try {
+    today = getReferenceDay(options);
+  } catch (error) {
+    return { success: false, error: invalidOptionError(input, 'date', error) };
+  }
+
+  const parsed = parseReadings(readings, (tokens, pack) =>
+    parseDateTokens(tokens, options.dateOrder ?? pack.dateOrder)
+  );
+  if (!parsed.success) {
+    return { success: false, error: grammarError(input, 'date', parsed.tokens, parsed) };
+  }
+
+  try {
+    const date = resolveDate(parsed.node, { today, notBefore: today });
+    return { success: true, date: format(date, 'yyyy-MM-dd') };
+  } catch (error) {
+    return { success: false, error: invalidDateError(input, 'date', error) };
+  }
+}
+
+/**
+ * Parses a human-readable date range into YYYY-MM-DD start and end dates
+ *
+ * Supports formats like (from Tuesday 2025-11-18):
+ * - "this weekend" → 2025-11-22 to 2025-11-23
+ * - "next weekend" → 2025-11-29 to 2025-11-30 (the weekend of next week)
+ * - "next week" → 2025-11-24 to 2025-11-30 (Monday to Sunday)
+ * - "next month", "in March" → the whole month
+ * - "from the 3rd to the 10th" → 2025-12-03 to 2025-12-10
+ * - "a week starting Friday" → 2025-11-21 to 2025-11-28
+ * - "Friday for 3 nights" → 2025-11-21 to 2025-11-24
+ * - "Dec 20 – Jan 2" → 2025-12-20 to 2026-01-02
+ * - Any single date parseDate understands, as a one-day range
+ *
+ * Dates without a month or year are the next matching date, and an end
+ * date without one is the first match on or after the start date. An end
+ * month and day without a year only crosses into the next year when its
+ * month comes before the start's, so "Jan 5 to Jan 3" ends before it starts.
+ * Languages are handled as in parseDate ("este fin de semana").
+ *
+ * @param input - Human-readable date range
+ * @returns Start and end dates and the number of nights, or a structured error
+ */
+export function parseDateRange(
+  input: string,
+  options: DateParseOptions = {}
+): DateRangeParseResult {
+  const readings = readInput(input, options);
+  if (readings[0].tokens.length === 0) {
+    return { success: false, error: emptyInputError(input, 'date range') };
+  }
+
+  let today: Date;
+  try {
+    today = getReferenceDay(options);
+  } catch (error) {
+    return { success: false, error: invalidOptionError(input, 'date range', error) };
+  }
+
+  const parsed = parseReadings(readings, (tokens, pack) =>
+    parseRangeTokens(tokens, options.dateOrder ?? pack.dateOrder)
+  );
+  if (!parsed.success) {
+    return { success: false, error: grammarError(input, 'date range', parsed.tokens, parsed) };
+  }
+
+  try {
+    const { start, end } = resolveRange(parsed.node, today);
+    if (end < start) {
+      return {
+        success: false,
+        error: {
+          code: 'end_before_start',
+          message: `End date is before start date: ${input}`,
+          input,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      range: {
+        startDate: format(start, 'yyyy-MM-dd'),
+        endDate: format(end, 'yyyy-MM-dd'),
+        nights: differenceInCalendarDays(end, start),
+      },
+    };
+  } catch (error) {
+    return { success: false, error: invalidDateError(input, 'date range', error) };
+  }
+}
+
+/**
+ * Parses a human-readable date into YYYY-MM-DD format
+ *
+ * @see parseDate for the supported formats
+ * @throws Error if the date cannot be parsed
+ */
+export function parseHumanDate(input: string, options?: DateParseOptions): string {
+  const result = parseDate(input, options);
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return result.date;
+}
+
+/**
+ * Parses a human-readable date range into YYYY-MM-DD start and end dates
+ *
+ * @see parseDateRange for the supported formats
+ * @throws Error if the range cannot be parsed or ends before it starts
+ */
+export function parseHumanDateRange(input: string, options?: DateParseOptions): DateRange {
+  const result = parseDateRange(input, options);
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return result.range;
+}
+
+/**
+ * The input tokenized in `options.locale`, or in every language with the
+ * ones that know the most words first (ties keep the LOCALES order)
+ */
+function readInput(
+  input: string,
+  options: DateParseOptions
+): { pack: LocalePack; tokens: Token[] }[] {
+  const packs = options.locale ? [LOCALES[options.locale]] : Object.values(LOCALES);
+  const readings = packs.map((pack) => {
+    const tokens = tokenize(input, pack);
+    return { pack, tokens, unknown: tokens.filter((token) => token.type === 'unknown').length };
+  });
+  return readings.sort((a, b) => a.unknown - b.unknown);
+}
+
+/**
+ * Parse the readings in order until one succeeds, or the best one's failure
+ */
+function parseReadings<T>(
+  readings: { pack: LocalePack; tokens: Token[] }[],
+  parse: (tokens: Token[], pack: LocalePack) => GrammarResult<T>
+): GrammarResult<T> & { tokens: Token[] } {
+  const [best, ...others] = readings.map(({ pack, tokens }) => () => ({
+    ...parse(tokens, pack),
+    tokens,
+  }));
+  const first = best();
+  if (first.success) return first;
+
+  for (const other of others) {
+    const parsed = other();
+    if (parsed.success) return parsed;
+  }
+  return first;
+}
+
+function emptyInputError(input: string, what: string): DateParseError {
+  return {
+    code: 'empty_input',
+    message: `Unable to parse ${what}: input is empty`,
+    input,
+    position: 0,
+  };
+}
+
+function grammarError(
+  input: string,
+  what: string,
+  tokens: Token[],
+  failure: Extract<GrammarResult<unknown>, { success: false }>
+): DateParseError {
+  const token = tokens[failure.index];
+  const detail = token
+    ? `unexpected "${input.slice(token.position, token.position + token.text.length)}" at position ${token.position}`
+    : 'unexpected end of input';
+
+  return {
+    code: token ? 'unexpected_token' : 'unexpected_end',
+    message: `Unable to parse ${what}: ${input.trim()} (${detail})`,
+    input,
+    position: token ? token.position : input.length,
+    expected: failure.expected,
+  };
+}
+
+function invalidDateError(input: string, what: string, error: unknown): DateParseError {
+  const detail = error instanceof Error ? error.message : 'invalid date';
+  return {
+    code: 'invalid_date',
+    message: `Unable to parse ${what}: ${input.trim()} (${detail})`,
+    input,
+  };
+}
+
+function invalidOptionError(input: string, what: string, error: unknown): DateParseError {
+  const detail = error instanceof Error ? error.message : 'invalid option';
+  return {
+    code: 'invalid_option',
+    message: `Unable to parse ${what}: ${input.trim()} (${detail})`,
+    input,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * English inputs and what they mean on Tuesday 2025-11-18
+ */
+export const dates: [input: string, date: string][] = [
+  ['tomorrow', '2025-11-19'],
+  ['next Friday', '2025-11-21'],
+  ['in 3 days', '2025-11-21'],
+  ['a week ago', '2025-11-11'],
+  ['the day after tomorrow', '2025-11-20'],
+  ['end of the month', '2025-11-30'],
+  ['start of next month', '2025-12-01'],
+  ['March 3rd', '2026-03-03'],
+  ['the twenty-first', '2025-11-21'],
+  ['2 days after Friday', '2025-11-23'],
+];
+
+export const ranges: [input: string, start: string, end: string][] = [
+  ['this weekend', '2025-11-22', '2025-11-23'],
+  ['next week', '2025-11-24', '2025-11-30'],
+  ['from the 20th to the 27th of December', '2025-12-20', '2025-12-27'],
+  ['Friday for 3 nights', '2025-11-21', '2025-11-24'],
+  ['a week starting Friday', '2025-11-21', '2025-11-28'],
+];
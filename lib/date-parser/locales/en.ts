@@ -0,0 +1,181 @@
+import type { LocalePack } from '../types';
+
+/**
+ * English vocabulary for the date grammar
+ *
+ * The grammar's keywords are English, so most words map to themselves;
+ * other packs map their words onto the same keywords.
+ */
+export const en: LocalePack = {
+  keywords: {
+    today: 'today',
+    tonight: 'today',
+    tomorrow: 'tomorrow',
+    tmrw: 'tomorrow',
+    yesterday: 'yesterday',
+    now: 'now',
+
+    next: 'next',
+    this: 'this',
+    coming: 'this',
+    last: 'last',
+    previous: 'last',
+
+    in: 'in',
+    from: 'from',
+    after: 'after',
+    before: 'before',
+    ago: 'ago',
+    later: 'later',
+    plus: 'plus',
+    minus: 'minus',
+
+    end: 'end',
+    start: 'start',
+    beginning: 'start',
+    of: 'of',
+    the: 'the',
+    a: 'a',
+    an: 'an',
+    on: 'on',
+
+    // Ranges
+    to: 'to',
+    until: 'to',
+    till: 'to',
+    til: 'to',
+    through: 'to',
+    thru: 'to',
+    between: 'between',
+    and: 'and',
+    for: 'for',
+    starting: 'starting',
+    weekend: 'weekend',
+
+    // Units
+    day: 'day',
+    days: 'day',
+    night: 'night',
+    nights: 'night',
+    week: 'week',
+    weeks: 'week',
+    wk: 'week',
+    wks: 'week',
+    fortnight: 'fortnight',
+    fortnights: 'fortnight',
+    month: 'month',
+    months: 'month',
+    year: 'year',
+    years: 'year',
+    yr: 'year',
+    yrs: 'year',
+  },
+
+  months: {
+    jan: 0,
+    january: 0,
+    feb: 1,
+    february: 1,
+    mar: 2,
+    march: 2,
+    apr: 3,
+    april: 3,
+    may: 4,
+    jun: 5,
+    june: 5,
+    jul: 6,
+    july: 6,
+    aug: 7,
+    august: 7,
+    sep: 8,
+    sept: 8,
+    september: 8,
+    oct: 9,
+    october: 9,
+    nov: 10,
+    november: 10,
+    dec: 11,
+    december: 11,
+  },
+
+  weekdays: {
+    sun: 0,
+    sunday: 0,
+    mon: 1,
+    monday: 1,
+    tue: 2,
+    tues: 2,
+    tuesday: 2,
+    wed: 3,
+    wednesday: 3,
+    thu: 4,
+    thur: 4,
+    thurs: 4,
+    thursday: 4,
+    fri: 5,
+    friday: 5,
+    sat: 6,
+    saturday: 6,
+  },
+
+  numbers: {
+    zero: 0,
+    one: 1,
+    two: 2,
+    three: 3,
+    four: 4,
+    five: 5,
+    six: 6,
+    seven: 7,
+    eight: 8,
+    nine: 9,
+    ten: 10,
+    eleven: 11,
+    twelve: 12,
+    thirteen: 13,
+    fourteen: 14,
+    fifteen: 15,
+    sixteen: 16,
+    seventeen: 17,
+    eighteen: 18,
+    nineteen: 19,
+  },
+
+  tens: {
+    twenty: 20,
+    thirty: 30,
+    forty: 40,
+    fifty: 50,
+    sixty: 60,
+    seventy: 70,
+    eighty: 80,
+    ninety: 90,
+  },
+
+  ordinals: {
+    first: 1,
+    second: 2,
+    third: 3,
+    fourth: 4,
+    fifth: 5,
+    sixth: 6,
+    seventh: 7,
+    eighth: 8,
+    ninth: 9,
+    tenth: 10,
+    eleventh: 11,
+    twelfth: 12,
+    thirteenth: 13,
+    fourteenth: 14,
+    fifteenth: 15,
+    sixteenth: 16,
+    seventeenth: 17,
+    eighteenth: 18,
+    nineteenth: 19,
+    twentieth: 20,
+    thirtieth: 30,
+  },
+
+  ordinalSuffixes: ['st', 'nd', 'rd', 'th'],
+  dateOrder: 'MDY',
+};
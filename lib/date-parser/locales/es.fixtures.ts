@@ -0,0 +1,25 @@
+/**
+ * Spanish inputs and what they mean on Tuesday 2025-11-18
+ */
+export const dates: [input: string, date: string][] = [
+  ['mañana', '2025-11-19'],
+  ['próximo viernes', '2025-11-21'],
+  ['el viernes que viene', '2025-11-21'],
+  ['dentro de 3 días', '2025-11-21'],
+  ['hace una semana', '2025-11-11'],
+  ['pasado mañana', '2025-11-20'],
+  ['fin de mes', '2025-11-30'],
+  ['principio del mes que viene', '2025-12-01'],
+  ['el tres de marzo', '2026-03-03'],
+  ['3 de marzo de 2026', '2026-03-03'],
+  ['el veintiuno', '2025-11-21'],
+  ['dos días después del viernes', '2025-11-23'],
+];
+
+export const ranges: [input: string, start: string, end: string][] = [
+  ['este fin de semana', '2025-11-22', '2025-11-23'],
+  ['la semana que viene', '2025-11-24', '2025-11-30'],
+  ['del 20 al 27 de diciembre', '2025-12-20', '2025-12-27'],
+  ['el viernes por 3 noches', '2025-11-21', '2025-11-24'],
+  ['una semana a partir del viernes', '2025-11-21', '2025-11-28'],
+];
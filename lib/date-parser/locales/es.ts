@@ -0,0 +1,185 @@
+import type { LocalePack } from '../types';
+
+/**
+ * Spanish vocabulary for the date grammar
+ *
+ * Spanish puts some modifiers after the word ("el viernes que viene",
+ * "hace 3 días"), which the grammar accepts in either position.
+ */
+export const es: LocalePack = {
+  keywords: {
+    hoy: 'today',
+    manana: 'tomorrow',
+    ayer: 'yesterday',
+    'pasado manana': ['day', 'after', 'tomorrow'],
+    anteayer: ['day', 'before', 'yesterday'],
+    antier: ['day', 'before', 'yesterday'],
+    ahora: 'now',
+
+    proximo: 'next',
+    proxima: 'next',
+    siguiente: 'next',
+    'que viene': 'next',
+    este: 'this',
+    esta: 'this',
+    pasado: 'last',
+    pasada: 'last',
+    ultimo: 'last',
+    ultima: 'last',
+
+    en: 'in',
+    'dentro de': 'in',
+    desde: 'from',
+    'despues de': 'after',
+    'despues del': ['after', 'the'],
+    despues: 'later',
+    'antes de': 'before',
+    'antes del': ['before', 'the'],
+    hace: 'ago',
+    mas: 'plus',
+    menos: 'minus',
+
+    fin: 'end',
+    final: 'end',
+    principio: 'start',
+    inicio: 'start',
+    comienzo: 'start',
+    de: 'of',
+    del: ['of', 'the'],
+    el: 'the',
+    la: 'the',
+    los: 'the',
+    las: 'the',
+
+    // Ranges
+    a: 'to',
+    al: ['to', 'the'],
+    hasta: 'to',
+    entre: 'between',
+    y: 'and',
+    por: 'for',
+    durante: 'for',
+    'a partir de': 'starting',
+    'a partir del': ['starting', 'the'],
+    empezando: 'starting',
+    'fin de semana': 'weekend',
+    finde: 'weekend',
+
+    // Units
+    dia: 'day',
+    dias: 'day',
+    noche: 'night',
+    noches: 'night',
+    semana: 'week',
+    semanas: 'week',
+    quincena: 'fortnight',
+    quincenas: 'fortnight',
+    mes: 'month',
+    meses: 'month',
+    ano: 'year',
+    anos: 'year',
+  },
+
+  months: {
+    ene: 0,
+    enero: 0,
+    feb: 1,
+    febrero: 1,
+    mar: 2,
+    marzo: 2,
+    abr: 3,
+    abril: 3,
+    may: 4,
+    mayo: 4,
+    jun: 5,
+    junio: 5,
+    jul: 6,
+    julio: 6,
+    ago: 7,
+    agosto: 7,
+    sep: 8,
+    sept: 8,
+    septiembre: 8,
+    setiembre: 8,
+    oct: 9,
+    octubre: 9,
+    nov: 10,
+    noviembre: 10,
+    dic: 11,
+    diciembre: 11,
+  },
+
+  // "mar" is left to March
+  weekdays: {
+    dom: 0,
+    domingo: 0,
+    lun: 1,
+    lunes: 1,
+    martes: 2,
+    mie: 3,
+    miercoles: 3,
+    jue: 4,
+    jueves: 4,
+    vie: 5,
+    viernes: 5,
+    sab: 6,
+    sabado: 6,
+  },
+
+  numbers: {
+    cero: 0,
+    un: 1,
+    uno: 1,
+    una: 1,
+    dos: 2,
+    tres: 3,
+    cuatro: 4,
+    cinco: 5,
+    seis: 6,
+    siete: 7,
+    ocho: 8,
+    nueve: 9,
+    diez: 10,
+    once: 11,
+    doce: 12,
+    trece: 13,
+    catorce: 14,
+    quince: 15,
+    dieciseis: 16,
+    diecisiete: 17,
+    dieciocho: 18,
+    diecinueve: 19,
+    veintiuno: 21,
+    veintiun: 21,
+    veintiuna: 21,
+    veintidos: 22,
+    veintitres: 23,
+    veinticuatro: 24,
+    veinticinco: 25,
+    veintiseis: 26,
+    veintisiete: 27,
+    veintiocho: 28,
+    veintinueve: 29,
+  },
+
+  tens: {
+    veinte: 20,
+    treinta: 30,
+    cuarenta: 40,
+    cincuenta: 50,
+    sesenta: 60,
+    setenta: 70,
+    ochenta: 80,
+    noventa: 90,
+  },
+  tensJoiner: 'y',
+
+  // Other days of the month are cardinal ("el 3 de marzo")
+  ordinals: {
+    primero: 1,
+    primer: 1,
+  },
+
+  ordinalSuffixes: ['º', 'ª', 'o'],
+  dateOrder: 'DMY',
+};
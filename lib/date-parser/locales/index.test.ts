@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseDate, parseDateRange } from '..';
+import type { Locale } from '../types';
+import * as en from './en.fixtures';
+import * as es from './es.fixtures';
+import * as pt from './pt.fixtures';
+import { isLocale, toLocale } from '.';
+
+const FIXTURES: Record<Locale, typeof en> = { en, es, pt };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2025, 10, 18, 12)); // Tuesday 2025-11-18
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe.each(Object.entries(FIXTURES))('%s', (locale, { dates, ranges }) => {
+  it.each(dates)('parses "%s" as %s', (input, date) => {
+    expect(parseDate(input, { locale: locale as Locale })).toEqual({ success: true, date });
+  });
+
+  it.each(dates)('detects the language of "%s"', (input, date) => {
+    expect(parseDate(input)).toEqual({ success: true, date });
+  });
+
+  it.each(ranges)('parses "%s" as %s to %s', (input, startDate, endDate) => {
+    expect(parseDateRange(input, { locale: locale as Locale })).toMatchObject({
+      success: true,
+      range: { startDate, endDate },
+    });
+  });
+
+  it.each(ranges)('detects the language of "%s"', (input, startDate, endDate) => {
+    expect(parseDateRange(input)).toMatchObject({ success: true, range: { startDate, endDate } });
+  });
+});
+
+describe('locale selection', () => {
+  it('reads numeric dates in the locale date order', () => {
+    expect(parseDate('3/4', { locale: 'en' })).toEqual({ success: true, date: '2026-03-04' });
+    expect(parseDate('3/4', { locale: 'es' })).toEqual({ success: true, date: '2026-04-03' });
+    expect(parseDate('3/4', { locale: 'pt', dateOrder: 'MDY' })).toEqual({
+      success: true,
+      date: '2026-03-04',
+    });
+  });
+
+  it('only uses the requested locale', () => {
+    const result = parseDate('mañana', { locale: 'en' });
+
+    expect(result.success).toBe(false);
+    expect(parseDate('tomorrow', { locale: 'es' }).success).toBe(false);
+  });
+
+  it('reports the error of the language that knows the most words', () => {
+    const result = parseDate('próximo viernes por favor');
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'unexpected_token', position: 16 },
+    });
+  });
+});
+
+describe('isLocale', () => {
+  it('accepts supported locales only', () => {
+    expect(isLocale('pt')).toBe(true);
+    expect(isLocale('fr')).toBe(false);
+    expect(isLocale('toString')).toBe(false);
+    expect(isLocale(undefined)).toBe(false);
+  });
+});
+
+describe('toLocale', () => {
+  it('takes the language of a language tag', () => {
+    expect(toLocale('pt-BR')).toBe('pt');
+    expect(toLocale('ES_mx')).toBe('es');
+    expect(toLocale('fr-FR')).toBeUndefined();
+  });
+});
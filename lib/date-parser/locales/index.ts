@@ -0,0 +1,24 @@
+import type { Locale, LocalePack } from '../types';
+import { en } from './en';
+import { es } from './es';
+import { pt } from './pt';
+
+/**
+ * Every supported language, in the order ties are broken when detecting
+ */
+export const LOCALES: Record<Locale, LocalePack> = { en, es, pt };
+
+/**
+ * Whether a value is a supported locale, e.g. "pt"
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.hasOwn(LOCALES, value);
+}
+
+/**
+ * The supported locale for a language tag like "pt-BR", if any
+ */
+export function toLocale(tag: string): Locale | undefined {
+  const language = tag.toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : undefined;
+}
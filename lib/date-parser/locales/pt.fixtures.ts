@@ -0,0 +1,25 @@
+/**
+ * Portuguese inputs and what they mean on Tuesday 2025-11-18
+ */
+export const dates: [input: string, date: string][] = [
+  ['amanhã', '2025-11-19'],
+  ['próxima sexta', '2025-11-21'],
+  ['sexta-feira que vem', '2025-11-21'],
+  ['daqui a 3 dias', '2025-11-21'],
+  ['há uma semana', '2025-11-11'],
+  ['depois de amanhã', '2025-11-20'],
+  ['fim do mês', '2025-11-30'],
+  ['início do mês que vem', '2025-12-01'],
+  ['3 de março de 2026', '2026-03-03'],
+  ['1º de janeiro', '2026-01-01'],
+  ['dia vinte e um', '2025-11-21'],
+  ['dois dias depois da sexta', '2025-11-23'],
+];
+
+export const ranges: [input: string, start: string, end: string][] = [
+  ['este fim de semana', '2025-11-22', '2025-11-23'],
+  ['semana que vem', '2025-11-24', '2025-11-30'],
+  ['de 20 a 27 de dezembro', '2025-12-20', '2025-12-27'],
+  ['sexta por 3 noites', '2025-11-21', '2025-11-24'],
+  ['uma semana a partir de sexta', '2025-11-21', '2025-11-28'],
+];
@@ -0,0 +1,185 @@
+import type { LocalePack } from '../types';
+
+/**
+ * Portuguese vocabulary for the date grammar
+ *
+ * Weekdays are matched with or without "-feira", and modifiers may come
+ * after the word ("sexta que vem", "há 3 dias").
+ */
+export const pt: LocalePack = {
+  keywords: {
+    hoje: 'today',
+    amanha: 'tomorrow',
+    ontem: 'yesterday',
+    'depois de amanha': ['day', 'after', 'tomorrow'],
+    anteontem: ['day', 'before', 'yesterday'],
+    agora: 'now',
+
+    proximo: 'next',
+    proxima: 'next',
+    seguinte: 'next',
+    'que vem': 'next',
+    este: 'this',
+    esta: 'this',
+    nesta: ['on', 'this'],
+    neste: ['on', 'this'],
+    passado: 'last',
+    passada: 'last',
+    ultimo: 'last',
+    ultima: 'last',
+
+    em: 'in',
+    'dentro de': 'in',
+    'daqui a': 'in',
+    desde: 'from',
+    'depois de': 'after',
+    'depois do': ['after', 'the'],
+    'depois da': ['after', 'the'],
+    depois: 'later',
+    'antes de': 'before',
+    'antes do': ['before', 'the'],
+    'antes da': ['before', 'the'],
+    ha: 'ago',
+    mais: 'plus',
+    menos: 'minus',
+
+    fim: 'end',
+    final: 'end',
+    inicio: 'start',
+    comeco: 'start',
+    de: 'of',
+    do: ['of', 'the'],
+    da: ['of', 'the'],
+    o: 'the',
+    os: 'the',
+    as: 'the',
+    na: ['on', 'the'],
+    no: ['on', 'the'],
+
+    // Ranges
+    a: 'to',
+    ao: ['to', 'the'],
+    ate: 'to',
+    entre: 'between',
+    e: 'and',
+    por: 'for',
+    durante: 'for',
+    'a partir de': 'starting',
+    'a partir do': ['starting', 'the'],
+    'a partir da': ['starting', 'the'],
+    comecando: 'starting',
+    'fim de semana': 'weekend',
+
+    // Units
+    dia: 'day',
+    dias: 'day',
+    noite: 'night',
+    noites: 'night',
+    semana: 'week',
+    semanas: 'week',
+    quinzena: 'fortnight',
+    quinzenas: 'fortnight',
+    mes: 'month',
+    meses: 'month',
+    ano: 'year',
+    anos: 'year',
+  },
+
+  // "dez" is left to the number ten
+  months: {
+    jan: 0,
+    janeiro: 0,
+    fev: 1,
+    fevereiro: 1,
+    mar: 2,
+    marco: 2,
+    abr: 3,
+    abril: 3,
+    mai: 4,
+    maio: 4,
+    jun: 5,
+    junho: 5,
+    jul: 6,
+    julho: 6,
+    ago: 7,
+    agosto: 7,
+    set: 8,
+    setembro: 8,
+    out: 9,
+    outubro: 9,
+    nov: 10,
+    novembro: 10,
+    dezembro: 11,
+  },
+
+  weekdays: {
+    dom: 0,
+    domingo: 0,
+    seg: 1,
+    segunda: 1,
+    'segunda feira': 1,
+    ter: 2,
+    terca: 2,
+    'terca feira': 2,
+    qua: 3,
+    quarta: 3,
+    'quarta feira': 3,
+    qui: 4,
+    quinta: 4,
+    'quinta feira': 4,
+    sex: 5,
+    sexta: 5,
+    'sexta feira': 5,
+    sab: 6,
+    sabado: 6,
+  },
+
+  numbers: {
+    zero: 0,
+    um: 1,
+    uma: 1,
+    dois: 2,
+    duas: 2,
+    tres: 3,
+    quatro: 4,
+    cinco: 5,
+    seis: 6,
+    sete: 7,
+    oito: 8,
+    nove: 9,
+    dez: 10,
+    onze: 11,
+    doze: 12,
+    treze: 13,
+    catorze: 14,
+    quatorze: 14,
+    quinze: 15,
+    dezesseis: 16,
+    dezasseis: 16,
+    dezessete: 17,
+    dezassete: 17,
+    dezoito: 18,
+    dezenove: 19,
+    dezanove: 19,
+  },
+
+  tens: {
+    vinte: 20,
+    trinta: 30,
+    quarenta: 40,
+    cinquenta: 50,
+    sessenta: 60,
+    setenta: 70,
+    oitenta: 80,
+    noventa: 90,
+  },
+  tensJoiner: 'e',
+
+  // Other days of the month are cardinal ("3 de março")
+  ordinals: {
+    primeiro: 1,
+  },
+
+  ordinalSuffixes: ['º', 'ª', 'o'],
+  dateOrder: 'DMY',
+};
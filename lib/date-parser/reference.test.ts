@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { format } from 'date-fns';
+import { getReferenceDay, isTimeZone } from './reference';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('isTimeZone', () => {
+  it('accepts IANA time zones', () => {
+    expect(isTimeZone('Australia/Sydney')).toBe(true);
+    expect(isTimeZone('UTC')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isTimeZone('')).toBe(false);
+    expect(isTimeZone(undefined)).toBe(false);
+  });
+});
+
+describe('getReferenceDay', () => {
+  beforeEach(() => {
+    // Late evening in UTC, already the next morning in Sydney
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-18T22:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("uses today's date in the user's time zone", () => {
+    expect(day(getReferenceDay({ timeZone: 'Australia/Sydney' }))).toBe('2025-11-19');
+    expect(day(getReferenceDay({ timeZone: 'America/Los_Angeles' }))).toBe('2025-11-18');
+  });
+
+  it('returns local midnight', () => {
+    const today = getReferenceDay({ timeZone: 'Australia/Sydney' });
+
+    expect([today.getHours(), today.getMinutes()]).toEqual([0, 0]);
+  });
+
+  it('uses a reference instant in the time zone', () => {
+    const reference = new Date('2026-03-01T15:00:00Z');
+
+    expect(day(getReferenceDay({ timeZone: 'Asia/Tokyo', referenceDate: reference }))).toBe(
+      '2026-03-02'
+    );
+    expect(day(getReferenceDay({ timeZone: 'UTC', referenceDate: reference.toISOString() }))).toBe(
+      '2026-03-01'
+    );
+  });
+
+  it('uses a YYYY-MM-DD reference date as-is', () => {
+    expect(day(getReferenceDay({ timeZone: 'Asia/Tokyo', referenceDate: '2026-03-01' }))).toBe(
+      '2026-03-01'
+    );
+  });
+
+  it('throws on an unknown time zone or invalid reference date', () => {
+    expect(() => getReferenceDay({ timeZone: 'Nowhere/Special' })).toThrow(
+      'Unknown time zone: Nowhere/Special'
+    );
+    expect(() => getReferenceDay({ referenceDate: '2026-02-30' })).toThrow(
+      'Invalid reference date: 2026-02-30'
+    );
+    expect(() => getReferenceDay({ referenceDate: 'soon' })).toThrow('Invalid reference date: soon');
+  });
+});
@@ -0,0 +1,61 @@
+import { isValid, parse } from 'date-fns';
+import type { DateParseOptions } from './types';
+
+/**
+ * Whether a value is an IANA time zone this runtime knows, e.g. "Australia/Sydney"
+ */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The day relative dates are resolved against, as local midnight
+ *
+ * That's the reference date (default now) as a calendar day in the
+ * user's time zone, so "tomorrow" late in the evening in Sydney is the
+ * Sydney tomorrow whatever time zone the server runs in. A YYYY-MM-DD
+ * reference date is used as-is.
+ *
+ * @throws Error if the time zone or reference date is invalid
+ */
+export function getReferenceDay({ timeZone, referenceDate }: DateParseOptions = {}): Date {
+  if (timeZone !== undefined && !isTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  if (typeof referenceDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(referenceDate)) {
+    const day = parse(referenceDate, 'yyyy-MM-dd', new Date());
+    if (!isValid(day)) {
+      throw new Error(`Invalid reference date: ${referenceDate}`);
+    }
+    return day;
+  }
+
+  const instant = referenceDate === undefined ? new Date() : new Date(referenceDate);
+  if (!isValid(instant)) {
+    throw new Error(`Invalid reference date: ${String(referenceDate)}`);
+  }
+
+  if (!timeZone) {
+    return new Date(instant.getFullYear(), instant.getMonth(), instant.getDate());
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((p) => p.type === type)!.value, 10);
+
+  return new Date(part('year'), part('month') - 1, part('day'));
+}
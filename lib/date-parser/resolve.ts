@@ -0,0 +1,271 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  getDay,
+  isSaturday,
+  isSunday,
+  max,
+  nextDay,
+  nextMonday,
+  nextSaturday,
+  previousDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  type Day,
+} from 'date-fns';
+import type { DateNode, DurationUnit, OffsetUnit, PeriodUnit, RangeNode } from './types';
+
+/**
+ * What relative dates are relative to
+ */
+export interface ResolveContext {
+  /** Start of the current day */
+  today: Date;
+  /**
+   * Earliest date for dates without a year, month or modifier ("the 3rd",
+   * "Dec 20", "Friday") - today, or the start date for the end of a range
+   */
+  notBefore: Date;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+/**
+ * Turn a parsed date into a calendar date
+ *
+ * @throws Error if the date doesn't exist, e.g. February 30th
+ */
+export function resolveDate(node: DateNode, context: ResolveContext): Date {
+  const { today, notBefore } = context;
+
+  switch (node.kind) {
+    case 'relativeDay':
+      return addDays(today, node.days);
+
+    case 'weekday':
+      switch (node.modifier) {
+        case 'next':
+          return nextDay(today, node.weekday);
+        case 'last':
+          return previousDay(today, node.weekday);
+        case 'this':
+          return onOrAfter(today, node.weekday);
+        default:
+          return onOrAfter(notBefore, node.weekday);
+      }
+
+    case 'period': {
+      if (node.anchor === null && node.offset === 0) {
+        return today;
+      }
+      const [start, end] = periodBounds(today, node.unit, node.offset);
+      return node.anchor === 'end' ? end : start;
+    }
+
+    case 'month': {
+      const start = resolveMonth(node.month, node.year, notBefore);
+      return node.anchor === 'end' ? startOfDay(endOfMonth(start)) : start;
+    }
+
+    case 'calendar':
+      return resolveCalendarDate(node.year, node.month, node.day, notBefore);
+
+    case 'dayOfMonth':
+      return resolveDayOfMonth(node.day, notBefore);
+
+    case 'offset':
+      return addOffset(resolveDate(node.base, context), node.amount, node.unit);
+  }
+}
+
+/**
+ * Turn a parsed range into start and end dates
+ *
+ * The end of a "between" range is resolved relative to its start, so
+ * "Dec 20 – Jan 2" crosses into the next year, and a bare start day takes
+ * the end's month ("del 20 al 27 de diciembre").
+ *
+ * @throws Error if either date doesn't exist
+ */
+export function resolveRange(node: RangeNode, today: Date): { start: Date; end: Date } {
+  const context = { today, notBefore: today };
+
+  switch (node.kind) {
+    case 'weekend': {
+      if (node.offset === 0 && isSunday(today)) {
+        return { start: today, end: today };
+      }
+      const saturday =
+        node.offset === 0
+          ? isSaturday(today)
+            ? today
+            : nextSaturday(today)
+          : nextSaturday(nextMonday(today));
+      return { start: saturday, end: addDays(saturday, 1) };
+    }
+
+    case 'period': {
+      const [start, end] = periodBounds(today, node.unit, node.offset);
+      return { start: max([start, today]), end };
+    }
+
+    case 'month': {
+      const start = resolveMonth(node.month, node.year, today);
+      return { start: max([start, today]), end: startOfDay(endOfMonth(start)) };
+    }
+
+    case 'duration': {
+      const start = resolveDate(node.start, context);
+      return { start, end: addDuration(start, node.amount, node.unit) };
+    }
+
+    case 'between': {
+      // "3 to 10 December" takes the month and year of the end
+      const startNode =
+        node.start.kind === 'dayOfMonth' && node.end.kind === 'calendar'
+          ? { ...node.end, day: node.start.day }
+          : node.start;
+      const start = resolveDate(startNode, context);
+      return { start, end: resolveRangeEnd(node.end, start, today) };
+    }
+
+    case 'single': {
+      const date = resolveDate(node.date, context);
+      return { start: date, end: date };
+    }
+  }
+}
+
+/**
+ * The end of a "between" range, from its start
+ *
+ * A month and day without a year is in the start's year, or the next year
+ * when its month comes before the start's ("Dec 20 – Jan 2"). An end
+ * earlier in the same month ("Jan 5 to Jan 3") is left before the start,
+ * as it's more likely a typo than a trip of almost a year.
+ */
+function resolveRangeEnd(node: DateNode, start: Date, today: Date): Date {
+  if (node.kind === 'calendar' && node.year === null) {
+    const year = start.getFullYear() + (node.month < start.getMonth() ? 1 : 0);
+    return resolveCalendarDate(year, node.month, node.day, start);
+  }
+  return resolveDate(node, { today, notBefore: start });
+}
+
+/**
+ * First day and last day of the week (Monday to Sunday), month or year
+ * `offset` periods from today's
+ */
+function periodBounds(today: Date, unit: PeriodUnit, offset: number): [Date, Date] {
+  switch (unit) {
+    case 'week': {
+      const day = addWeeks(today, offset);
+      return [startOfWeek(day, WEEK_OPTIONS), startOfDay(endOfWeek(day, WEEK_OPTIONS))];
+    }
+    case 'month': {
+      const day = addMonths(today, offset);
+      return [startOfMonth(day), startOfDay(endOfMonth(day))];
+    }
+    case 'year': {
+      const day = addYears(today, offset);
+      return [startOfYear(day), startOfDay(endOfYear(day))];
+    }
+  }
+}
+
+function onOrAfter(date: Date, weekday: Day): Date {
+  return getDay(date) === weekday ? date : nextDay(date, weekday);
+}
+
+/**
+ * First day of a month, in the given year or the first year it hasn't ended by `notBefore`
+ */
+function resolveMonth(month: number, year: number | null, notBefore: Date): Date {
+  const start = new Date(year ?? notBefore.getFullYear(), month, 1);
+  if (year === null && endOfMonth(start) < notBefore) {
+    return addYears(start, 1);
+  }
+  return start;
+}
+
+/**
+ * A date with a month and day, in the given year or the first year it
+ * falls on or after `notBefore`
+ */
+function resolveCalendarDate(
+  year: number | null,
+  month: number,
+  day: number,
+  notBefore: Date
+): Date {
+  if (month < 0 || month > 11) {
+    throw new Error(`there is no month ${month + 1}`);
+  }
+
+  if (year !== null) {
+    const date = new Date(year, month, day);
+    if (date.getMonth() !== month || day < 1) {
+      throw new Error(`${format(new Date(year, month, 1), 'MMMM yyyy')} has no day ${day}`);
+    }
+    return date;
+  }
+
+  // February 29th can be up to four years away
+  for (let year = notBefore.getFullYear(); year <= notBefore.getFullYear() + 4; year++) {
+    const date = new Date(year, month, day);
+    if (date.getMonth() === month && day >= 1 && date >= notBefore) {
+      return date;
+    }
+  }
+  throw new Error(`${format(new Date(2000, month, 1), 'MMMM')} has no day ${day}`);
+}
+
+/**
+ * That day of this month, or of the next month that has it, on or after `notBefore`
+ */
+function resolveDayOfMonth(day: number, notBefore: Date): Date {
+  for (let months = 0; months <= 2; months++) {
+    const month = addMonths(startOfMonth(notBefore), months);
+    const date = new Date(month.getFullYear(), month.getMonth(), day);
+    if (date.getDate() === day && date >= notBefore) {
+      return date;
+    }
+  }
+  throw new Error(`no month has a day ${day}`);
+}
+
+function addOffset(date: Date, amount: number, unit: OffsetUnit): Date {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addWeeks(date, amount);
+    case 'fortnight':
+      return addWeeks(date, amount * 2);
+    case 'month':
+      return addMonths(date, amount);
+    case 'year':
+      return addYears(date, amount);
+  }
+}
+
+/**
+ * End date of a stay: N days includes the start day, N nights and weeks don't
+ */
+function addDuration(start: Date, amount: number, unit: DurationUnit): Date {
+  if (unit === 'day') {
+    return addDays(start, amount - 1);
+  }
+  if (unit === 'night') {
+    return addDays(start, amount);
+  }
+  return addOffset(start, amount, unit);
+}
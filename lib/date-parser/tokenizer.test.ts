@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { es } from './locales/es';
+import { pt } from './locales/pt';
+import { tokenize } from './tokenizer';
+
+describe('tokenize', () => {
+  it('maps words to canonical keywords, months and weekdays', () => {
+    expect(tokenize('Next FRI until 3 wks')).toEqual([
+      { type: 'keyword', value: 'next', text: 'Next', position: 0 },
+      { type: 'weekday', value: 5, text: 'FRI', position: 5 },
+      { type: 'keyword', value: 'to', text: 'until', position: 9 },
+      { type: 'number', value: 3, ordinal: false, digits: 1, text: '3', position: 15 },
+      { type: 'keyword', value: 'week', text: 'wks', position: 17 },
+    ]);
+  });
+
+  it('reads ordinal suffixes and splits other words off numbers', () => {
+    expect(tokenize('3rd')).toEqual([
+      { type: 'number', value: 3, ordinal: true, digits: 1, text: '3rd', position: 0 },
+    ]);
+    expect(tokenize('2days').map((token) => token.type)).toEqual(['number', 'keyword']);
+  });
+
+  it('combines written compound numbers', () => {
+    expect(tokenize('twenty-one')).toEqual([
+      { type: 'number', value: 21, ordinal: false, digits: 0, text: 'twenty-one', position: 0 },
+    ]);
+    expect(tokenize('thirty first')).toEqual([
+      { type: 'number', value: 31, ordinal: true, digits: 0, text: 'thirty first', position: 0 },
+    ]);
+    expect(tokenize('twelve')[0]).toMatchObject({ type: 'number', value: 12 });
+  });
+
+  it('normalizes dashes and keeps unknown words', () => {
+    expect(tokenize('Dec 20 – soon!')).toEqual([
+      { type: 'month', value: 11, text: 'Dec', position: 0 },
+      { type: 'number', value: 20, ordinal: false, digits: 2, text: '20', position: 4 },
+      { type: 'punct', value: '-', text: '–', position: 7 },
+      { type: 'unknown', value: 'soon', text: 'soon', position: 9 },
+      { type: 'unknown', value: '!', text: '!', position: 13 },
+    ]);
+  });
+
+  it('matches phrases in other locales, ignoring accents', () => {
+    expect(tokenize('pasado Mañana', es)).toEqual([
+      { type: 'keyword', value: 'day', text: 'pasado Mañana', position: 0 },
+      { type: 'keyword', value: 'after', text: 'pasado Mañana', position: 0 },
+      { type: 'keyword', value: 'tomorrow', text: 'pasado Mañana', position: 0 },
+    ]);
+    expect(tokenize('sexta-feira', pt)).toEqual([
+      { type: 'weekday', value: 5, text: 'sexta-feira', position: 0 },
+    ]);
+    expect(tokenize('treinta y uno', es)[0]).toMatchObject({ type: 'number', value: 31 });
+    expect(tokenize('1º', pt)[0]).toMatchObject({ type: 'number', value: 1, ordinal: true });
+  });
+});
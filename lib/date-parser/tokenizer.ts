@@ -0,0 +1,249 @@
+import { en } from './locales/en';
+import type { LocalePack } from './types';
+
+interface TokenBase {
+  /** Text as written in the input */
+  text: string;
+  /** Character offset in the input */
+  position: number;
+}
+
+export type Token = TokenBase &
+  (
+    | {
+        type: 'number';
+        value: number;
+        ordinal: boolean;
+        /** Digits as written, 0 for written numbers ("twelve") */
+        digits: number;
+      }
+    | { type: 'keyword'; value: string }
+    | { type: 'month'; value: number }
+    | { type: 'weekday'; value: number }
+    /** Punctuation; all dashes are normalized to "-" */
+    | { type: 'punct'; value: string }
+    /** Anything the vocabulary doesn't know */
+    | { type: 'unknown'; value: string }
+  );
+
+/**
+ * A piece of the input before words are looked up in the vocabulary
+ */
+interface Lexeme {
+  kind: 'digits' | 'word' | 'punct' | 'other';
+  text: string;
+  /** Lowercase text without accents, for vocabulary lookups */
+  key: string;
+  position: number;
+  /** Digits with an ordinal suffix ("3rd") */
+  ordinal?: boolean;
+}
+
+type WithoutPlace<T> = T extends Token ? Omit<T, 'text' | 'position'> : never;
+
+/** A token before it's given the text and position it came from */
+type TokenValue = WithoutPlace<Token>;
+
+const LEXEME_PATTERN = /(\d+)([\p{L}\p{M}]*)|([\p{L}\p{M}]+)|([/.,+\-–—])|(\S)/gu;
+
+/** Longest phrase in any vocabulary, in words */
+const MAX_PHRASE_WORDS = 4;
+
+/**
+ * Split a date expression into tokens
+ *
+ * Words and phrases are looked up in the locale's vocabulary, ignoring
+ * case and accents, so "Weeks", "wk" and "week" all become the "week"
+ * keyword, "fin de semana" becomes "weekend", and written numbers
+ * ("twenty-one", "treinta y uno", "third") become number tokens.
+ */
+export function tokenize(input: string, pack: LocalePack = en): Token[] {
+  const lexemes = lex(input, pack);
+  const tokens: Token[] = [];
+
+  for (let i = 0; i < lexemes.length;) {
+    const lexeme = lexemes[i];
+    const { text, position } = lexeme;
+
+    switch (lexeme.kind) {
+      case 'digits':
+        tokens.push({
+          type: 'number',
+          value: parseInt(text, 10),
+          ordinal: Boolean(lexeme.ordinal),
+          digits: lexeme.key.length,
+          text,
+          position,
+        });
+        i++;
+        break;
+
+      case 'punct':
+        tokens.push({ type: 'punct', value: /[–—]/.test(text) ? '-' : text, text, position });
+        i++;
+        break;
+
+      case 'other':
+        tokens.push({ type: 'unknown', value: text, text, position });
+        i++;
+        break;
+
+      case 'word': {
+        const match = matchCompoundNumber(lexemes, i, pack) ??
+          matchPhrase(lexemes, i, pack) ?? {
+            values: [{ type: 'unknown', value: lexeme.key }],
+            next: i + 1,
+          };
+        const last = lexemes[match.next - 1];
+        const phrase = input.slice(position, last.position + last.text.length);
+        tokens.push(
+          ...match.values.map((value) => ({ ...value, text: phrase, position }) as Token)
+        );
+        i = match.next;
+        break;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Split the input into digits, words and punctuation
+ */
+function lex(input: string, pack: LocalePack): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+
+  for (const match of input.matchAll(LEXEME_PATTERN)) {
+    const [text, digits, suffix, word, punct] = match;
+    const position = match.index;
+
+    if (digits !== undefined) {
+      // "3rd" is an ordinal, while "2days" is a number followed by a word
+      const ordinal = pack.ordinalSuffixes.includes(toKey(suffix));
+      lexemes.push({
+        kind: 'digits',
+        text: ordinal ? text : digits,
+        key: digits,
+        position,
+        ordinal,
+      });
+      if (suffix && !ordinal) {
+        lexemes.push({
+          kind: 'word',
+          text: suffix,
+          key: toKey(suffix),
+          position: position + digits.length,
+        });
+      }
+    } else if (word !== undefined) {
+      lexemes.push({ kind: 'word', text, key: toKey(word), position });
+    } else if (punct !== undefined) {
+      lexemes.push({ kind: 'punct', text, key: text, position });
+    } else {
+      lexemes.push({ kind: 'other', text, key: text, position });
+    }
+  }
+
+  return lexemes;
+}
+
+/**
+ * "twenty one", "twenty-one", "twenty-first" or "treinta y uno" as one number
+ */
+function matchCompoundNumber(
+  lexemes: Lexeme[],
+  index: number,
+  pack: LocalePack
+): { values: TokenValue[]; next: number } | null {
+  const tens = find(pack.tens, lexemes[index].key);
+  if (tens === undefined) return null;
+
+  let next = index + 1;
+  const separator = lexemes[next];
+  if (separator?.key === '-' || (separator?.kind === 'word' && separator.key === pack.tensJoiner)) {
+    next++;
+  }
+
+  const unit = lexemes[next];
+  if (unit?.kind !== 'word') return null;
+  const ordinal = find(pack.ordinals, unit.key);
+  const value = ordinal ?? find(pack.numbers, unit.key);
+  if (value === undefined || value < 1 || value > 9) return null;
+
+  return {
+    values: [{ type: 'number', value: tens + value, ordinal: ordinal !== undefined, digits: 0 }],
+    next: next + 1,
+  };
+}
+
+/**
+ * The longest phrase of words starting at `index` that's in the
+ * vocabulary; words may be joined by hyphens ("sexta-feira")
+ */
+function matchPhrase(
+  lexemes: Lexeme[],
+  index: number,
+  pack: LocalePack
+): { values: TokenValue[]; next: number } | null {
+  // Word positions of each possible phrase length
+  const ends: number[] = [];
+  const words: string[] = [];
+  for (let i = index; i < lexemes.length && words.length < MAX_PHRASE_WORDS; i++) {
+    if (lexemes[i].kind !== 'word') break;
+    words.push(lexemes[i].key);
+    ends.push(i + 1);
+    if (lexemes[i + 1]?.key === '-' && lexemes[i + 2]?.kind === 'word') i++;
+  }
+
+  for (let length = words.length; length > 0; length--) {
+    const values = lookup(words.slice(0, length).join(' '), pack);
+    if (values) {
+      return { values, next: ends[length - 1] };
+    }
+  }
+  return null;
+}
+
+function lookup(key: string, pack: LocalePack): TokenValue[] | null {
+  const keywords = find(pack.keywords, key);
+  if (keywords !== undefined) {
+    return (Array.isArray(keywords) ? keywords : [keywords]).map((value) => ({
+      type: 'keyword',
+      value,
+    }));
+  }
+
+  const month = find(pack.months, key);
+  if (month !== undefined) {
+    return [{ type: 'month', value: month }];
+  }
+  const weekday = find(pack.weekdays, key);
+  if (weekday !== undefined) {
+    return [{ type: 'weekday', value: weekday }];
+  }
+
+  const number = find(pack.numbers, key) ?? find(pack.tens, key);
+  if (number !== undefined) {
+    return [{ type: 'number', value: number, ordinal: false, digits: 0 }];
+  }
+  const ordinal = find(pack.ordinals, key);
+  if (ordinal !== undefined) {
+    return [{ type: 'number', value: ordinal, ordinal: true, digits: 0 }];
+  }
+  return null;
+}
+
+/**
+ * A vocabulary entry, ignoring inherited keys like "constructor"
+ */
+function find<T>(vocabulary: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(vocabulary, key) ? vocabulary[key] : undefined;
+}
+
+/**
+ * Lowercase without accents, so "Mañana" and "manana" match alike
+ */
+function toKey(word: string): string {
+  return word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+}
@@ -0,0 +1,138 @@
+import type { Day } from 'date-fns';
+
+/**
+ * How to read ambiguous numeric dates like 03/04: month first (US) or
+ * day first (most other places)
+ */
+export type DateOrder = 'MDY' | 'DMY';
+
+/**
+ * Languages the date grammar understands
+ */
+export type Locale = 'en' | 'es' | 'pt';
+
+export interface DateParseOptions {
+  /** Language of the input (default: detected from the words used) */
+  locale?: Locale;
+  /**
+   * Precedence for numeric dates, used unless only the other order is
+   * valid (default: the locale's, 'MDY' for English and 'DMY' otherwise)
+   */
+  dateOrder?: DateOrder;
+  /** The user's IANA time zone, which decides what day it is (default the server's) */
+  timeZone?: string;
+  /** When "today" is: an instant, or a YYYY-MM-DD day (default now) */
+  referenceDate?: Date | string;
+}
+
+/**
+ * The words of one language, mapped onto the grammar's vocabulary
+ *
+ * Keys are lowercase without accents, and may be phrases of several
+ * words ("fin de semana"); the longest phrase wins.
+ */
+export interface LocalePack {
+  /** Words with a fixed meaning, mapped to the grammar keyword(s) they stand for */
+  keywords: Record<string, string | string[]>;
+  /** Month names and abbreviations to month index (January = 0) */
+  months: Record<string, number>;
+  /** Day names and abbreviations to day-of-week index (Sunday = 0) */
+  weekdays: Record<string, number>;
+  /** Written numbers that stand on their own */
+  numbers: Record<string, number>;
+  /** Written multiples of ten, which combine with a following unit */
+  tens: Record<string, number>;
+  /** Word joining tens and units ("treinta y uno"), besides a hyphen */
+  tensJoiner?: string;
+  /** Written ordinals, for days of the month */
+  ordinals: Record<string, number>;
+  /** Suffixes after digits that make an ordinal ("3rd", "1º") */
+  ordinalSuffixes: string[];
+  /** How numeric dates like 03/04 are usually written */
+  dateOrder: DateOrder;
+}
+
+/**
+ * An inclusive date range, ready to pass to get_weather
+ */
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+  /** Nights between the start and end dates - 0 for a day trip */
+  nights: number;
+}
+
+/**
+ * Why a date expression couldn't be parsed
+ */
+export interface DateParseError {
+  code:
+    | 'empty_input'
+    | 'unexpected_token'
+    | 'unexpected_end'
+    | 'invalid_date'
+    | 'end_before_start'
+    | 'invalid_option';
+  /** Human-readable description, including the input */
+  message: string;
+  input: string;
+  /** Character offset where parsing failed, for grammar errors */
+  position?: number;
+  /** What the grammar would have accepted at that position */
+  expected?: string[];
+}
+
+export type DateParseResult =
+  { success: true; date: string } | { success: false; error: DateParseError };
+
+export type DateRangeParseResult =
+  { success: true; range: DateRange } | { success: false; error: DateParseError };
+
+/**
+ * Units for offsets like "in 3 months" or "2 weeks ago"
+ */
+export type OffsetUnit = 'day' | 'week' | 'fortnight' | 'month' | 'year';
+
+/**
+ * Units for stays like "3 nights from Friday"
+ */
+export type DurationUnit = OffsetUnit | 'night';
+
+export type PeriodUnit = 'week' | 'month' | 'year';
+
+/**
+ * A single date as the grammar understood it, before it's resolved
+ * against today's date
+ */
+export type DateNode =
+  /** "today" (0), "tomorrow" (1), "yesterday" (-1) */
+  | { kind: 'relativeDay'; days: number }
+  /** "Friday", "this Friday", "next Friday", "last Friday" */
+  | { kind: 'weekday'; weekday: Day; modifier: 'this' | 'next' | 'last' | null }
+  /** "next week", "end of the month", "start of next year" */
+  | { kind: 'period'; unit: PeriodUnit; offset: number; anchor: 'start' | 'end' | null }
+  /** "March", "end of March 2026" */
+  | { kind: 'month'; month: number; year: number | null; anchor: 'start' | 'end' }
+  /** "March 3rd", "3 March 2026", "03/04" - month is 0-based */
+  | { kind: 'calendar'; year: number | null; month: number; day: number }
+  /** "the 3rd" */
+  | { kind: 'dayOfMonth'; day: number }
+  /** "in 2 weeks", "3 days before Friday", "today + 2 days" */
+  | { kind: 'offset'; base: DateNode; amount: number; unit: OffsetUnit };
+
+/**
+ * A date range as the grammar understood it
+ */
+export type RangeNode =
+  /** "this weekend" (0), "next weekend" (1) */
+  | { kind: 'weekend'; offset: number }
+  /** "this week", "next month" */
+  | { kind: 'period'; unit: PeriodUnit; offset: number }
+  /** "March", "in March 2026" */
+  | { kind: 'month'; month: number; year: number | null }
+  /** "a week starting Friday", "Dec 20 for 5 nights" */
+  | { kind: 'duration'; start: DateNode; amount: number; unit: DurationUnit }
+  /** "Dec 20 – Jan 2", "between the 3rd and the 10th" */
+  | { kind: 'between'; start: DateNode; end: DateNode }
+  /** A single day */
+  | { kind: 'single'; date: DateNode };
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { toAISDKTool, toAISDKTools } from './ai-sdk';
+import { toolRegistry } from './registry';
+import type { ToolDefinition } from './types';
+
+describe('AI SDK adapter', () => {
+  const echoTool: ToolDefinition = {
+    name: 'adapter_echo',
+    description: 'Echoes the message back',
+    parameters: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+      },
+      required: ['message'],
+    },
+    execute: async (params) => ({ echo: params.message }),
+  };
+
+  const executeOptions = { toolCallId: 'call-1', messages: [] };
+
+  describe('toAISDKTools', () => {
+    it('keys the tools map by tool name', () => {
+      const tools = toAISDKTools([echoTool]);
+
+      expect(Object.keys(tools)).toEqual(['adapter_echo']);
+      expect(tools.adapter_echo.description).toBe('Echoes the message back');
+    });
+  });
+
+  describe('toAISDKTool', () => {
+    it('executes registered tools through executeTool', async () => {
+      if (!toolRegistry.has('adapter_echo')) {
+        toolRegistry.register(echoTool);
+      }
+
+      const tool = toAISDKTool(echoTool);
+      const result = await tool.execute!({ message: 'Hello' }, executeOptions);
+
+      expect(result).toEqual({ echo: 'Hello' });
+    });
+
+    it('rethrows executor errors so the SDK reports an output-error', async () => {
+      const unregistered: ToolDefinition = { ...echoTool, name: 'adapter_missing' };
+      const tool = toAISDKTool(unregistered);
+
+      await expect(tool.execute!({ message: 'Hello' }, executeOptions)).rejects.toThrow(
+        'Tool "adapter_missing" not found'
+      );
+    });
+
+    it('reports every timed result to onToolResult', async () => {
+      if (!toolRegistry.has('adapter_echo')) {
+        toolRegistry.register(echoTool);
+      }
+      const onToolResult = vi.fn();
+
+      const tool = toAISDKTool(echoTool, { onToolResult });
+      await tool.execute!({ message: 'Hi' }, executeOptions);
+
+      expect(onToolResult).toHaveBeenCalledWith(
+        { id: 'call-1', name: 'adapter_echo', parameters: { message: 'Hi' } },
+        expect.objectContaining({
+          id: 'call-1',
+          result: { echo: 'Hi' },
+          durationMs: expect.any(Number),
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { dynamicTool, jsonSchema, type JSONSchema7, type Tool } from 'ai';
+import type { ToolContext, ToolDefinition, ToolInvocation, ToolResult } from './types';
+import { executeTool } from './executor';
+
+/**
+ * Options for adapting registered tools
+ */
+export interface ToolAdapterOptions {
+  /**
+   * Request-scoped context passed through to every tool execution
+   */
+  context?: ToolContext;
+
+  /**
+   * Called after every execution, successful or not, with the timed result
+   */
+  onToolResult?: (
+    invocation: ToolInvocation,
+    result: ToolResult
+  ) => void | Promise<void>;
+}
+
+/**
+ * Adapt a registered ToolDefinition into an AI SDK tool
+ *
+ * Execution goes through executeTool so live chats get the same timing
+ * and error shaping as the executor. A failed ToolResult is rethrown so
+ * the AI SDK reports it as an `output-error` part with its errorText.
+ */
+export function toAISDKTool(
+  definition: ToolDefinition,
+  options: ToolAdapterOptions = {}
+): Tool {
+  return dynamicTool({
+    description: definition.description,
+    inputSchema: jsonSchema(definition.parameters as JSONSchema7),
+    execute: async (input, { toolCallId }) => {
+      console.log(`[Tool] Executing ${definition.name}:`, input);
+      const invocation: ToolInvocation = {
+        id: toolCallId,
+        name: definition.name,
+        parameters: (input ?? {}) as Record<string, unknown>,
+      };
+      const toolResult = await executeTool(invocation, options.context);
+
+      console.log(`[Tool] ${definition.name} result:`, toolResult);
+      await options.onToolResult?.(invocation, toolResult);
+
+      if (toolResult.error !== undefined) {
+        throw new Error(toolResult.error);
+      }
+
+      return toolResult.result;
+    },
+  });
+}
+
+/**
+ * Build an AI SDK tools map keyed by tool name
+ */
+export function toAISDKTools(
+  definitions: ToolDefinition[],
+  options: ToolAdapterOptions = {}
+): Record<string, Tool> {
+  return Object.fromEntries(
+    definitions.map((definition) => [
+      definition.name,
+      toAISDKTool(definition, options),
+    ])
+  );
+}
@@ -0,0 +1,338 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { UIMessage } from 'ai';
+import type { WeatherData, WeatherForecast } from '@/lib/weather/types';
+import { estimateTokens, fitToContext, getContextBudget, summarizeConversation } from './index';
+import { createFakeModel } from './fake-model';
+import { getModel } from './models';
+import { weatherTool } from './tools/weather';
+
+function day(date: string, overrides?: Partial<WeatherData>): WeatherData {
+  return {
+    date,
+    temperature: { high: 24, low: 15, unit: 'C' },
+    conditions: 'Sunny',
+    precipitation: 10,
+    precipitationAmount: { amount: 0, unit: 'mm' },
+    humidity: 60,
+    wind: { speed: 12, unit: 'km/h' },
+    uvIndex: 6,
+    source: 'forecast',
+    ...overrides,
+  };
+}
+
+function forecast(days: number): WeatherForecast {
+  return {
+    location: 'Lisbon, Portugal',
+    place: {
+      name: 'Lisbon',
+      country: 'Portugal',
+      latitude: 38.72,
+      longitude: -9.14,
+      timezone: 'Europe/Lisbon',
+    },
+    startDate: '2025-06-01',
+    endDate: `2025-06-${String(days).padStart(2, '0')}`,
+    units: 'metric',
+    forecast: Array.from({ length: days }, (_, i) =>
+      day(`2025-06-${String(i + 1).padStart(2, '0')}`)
+    ),
+    alerts: [],
+  };
+}
+
+function user(id: string, text: string): UIMessage {
+  return { id, role: 'user', parts: [{ type: 'text', text }] };
+}
+
+function assistant(id: string, text: string): UIMessage {
+  return { id, role: 'assistant', parts: [{ type: 'text', text }] };
+}
+
+/**
+ * An assistant message that looked up a two week forecast
+ */
+function weatherReply(id: string): UIMessage {
+  return {
+    id,
+    role: 'assistant',
+    parts: [
+      {
+        type: 'dynamic-tool',
+        toolName: 'get_weather',
+        toolCallId: `call-${id}`,
+        state: 'output-available',
+        input: { location: 'Lisbon', startDate: '2025-06-01', endDate: '2025-06-14' },
+        output: forecast(14),
+      },
+      { type: 'text', text: 'Mostly sunny, pack light.' },
+    ],
+  };
+}
+
+// Three turns; the first carries a forecast
+const conversation: UIMessage[] = [
+  user('u1', 'Two weeks in Lisbon in June'),
+  weatherReply('a1'),
+  user('u2', 'I also want to hike'),
+  assistant('a2', 'Bring hiking boots.'),
+  user('u3', 'What about the evenings?'),
+];
+
+const tokens = (messages: UIMessage[]) =>
+  messages.reduce((total, message) => total + estimateTokens(message.parts), 0);
+
+describe('estimateTokens', () => {
+  it('counts four characters per token', () => {
+    expect(estimateTokens('12345678')).toBe(2);
+    expect(estimateTokens('123')).toBe(1);
+    expect(estimateTokens({ a: 1 })).toBe(2);
+    expect(estimateTokens(undefined)).toBe(0);
+  });
+});
+
+describe('getContextBudget', () => {
+  const request = { system: 'x'.repeat(400), maxOutputTokens: 500 };
+
+  it('uses the smallest context window in the chain, less headroom, output and system', () => {
+    const budget = getContextBudget(
+      [getModel('openai/gpt-4.1-mini'), getModel('openai/gpt-4o-mini')],
+      request,
+      {}
+    );
+
+    expect(budget).toBe(128_000 * 0.75 - 500 - 100);
+  });
+
+  it('lowers the budget to LLM_CONTEXT_TOKENS', () => {
+    expect(
+      getContextBudget([getModel('openai/gpt-4o-mini')], request, { LLM_CONTEXT_TOKENS: '2000' })
+    ).toBe(2000);
+    expect(
+      getContextBudget([getModel('openai/gpt-4o-mini')], request, { LLM_CONTEXT_TOKENS: 'lots' })
+    ).toBe(128_000 * 0.75 - 600);
+  });
+
+  it('is never negative', () => {
+    expect(
+      getContextBudget([getModel('local/tiny')], { system: '', maxOutputTokens: 10_000 }, {})
+    ).toBe(0);
+  });
+});
+
+describe('fitToContext', () => {
+  it('sends everything that fits', async () => {
+    const summarize = vi.fn();
+
+    const context = await fitToContext(conversation, { budget: 100_000, summarize });
+
+    expect(context).toEqual({
+      messages: conversation,
+      summary: null,
+      summaryChanged: false,
+      droppedMessages: 0,
+      estimatedTokens: tokens(conversation),
+    });
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('sends the stored summary in place of the messages it covers', async () => {
+    const summary = { text: 'Two weeks in Lisbon, sunny forecast', messageCount: 2 };
+
+    const context = await fitToContext(conversation, { budget: 100_000, summary });
+
+    expect(context.messages).toEqual(conversation.slice(2));
+    expect(context.summary).toBe(summary);
+    expect(context.summaryChanged).toBe(false);
+  });
+
+  it('ignores a summary covering more messages than there are', async () => {
+    const context = await fitToContext(conversation, {
+      budget: 100_000,
+      summary: { text: 'Another conversation', messageCount: 9 },
+    });
+
+    expect(context.messages).toEqual(conversation);
+    expect(context.summary).toBeNull();
+  });
+
+  it('digests tool results of older turns first', async () => {
+    const summarize = vi.fn();
+
+    const context = await fitToContext(conversation, {
+      budget: tokens(conversation) / 2,
+      summarize,
+    });
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(context.messages.map((message) => message.id)).toEqual(['u1', 'a1', 'u2', 'a2', 'u3']);
+    expect(context.messages[1].parts[0]).toMatchObject({
+      toolName: 'get_weather',
+      output: {
+        location: 'Lisbon, Portugal',
+        days: expect.arrayContaining([
+          '2025-06-01 Sunny, 15-24°C, 10% rain (0 mm), wind 12 km/h, UV 6',
+        ]),
+      },
+    });
+    expect(context.messages.slice(2)).toEqual(conversation.slice(2));
+    expect(context.estimatedTokens).toBeLessThanOrEqual(tokens(conversation) / 2);
+  });
+
+  it('cuts short long results of tools without a digest', async () => {
+    const longResult: UIMessage = {
+      id: 'a1',
+      role: 'assistant',
+      parts: [
+        {
+          type: 'dynamic-tool',
+          toolName: 'unknown_tool',
+          toolCallId: 'call-a1',
+          state: 'output-available',
+          input: {},
+          output: { notes: 'x'.repeat(5000) },
+        },
+      ],
+    };
+    const messages = [user('u1', 'Hi'), longResult, ...conversation.slice(2)];
+
+    const context = await fitToContext(messages, { budget: 1000 });
+
+    const output = (context.messages[1].parts[0] as { output: unknown }).output;
+    expect(output).toMatch(/… \(cut short\)$/);
+    expect(String(output).length).toBeLessThan(1100);
+  });
+
+  it('summarizes older turns when digests are not enough', async () => {
+    const summarize = vi.fn().mockResolvedValue('Lisbon in June, sunny; wants to hike');
+
+    const context = await fitToContext(conversation, {
+      budget: 100,
+      summary: { text: 'Planning a trip', messageCount: 0 },
+      summarize,
+    });
+
+    expect(summarize).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'u1' }), expect.objectContaining({ id: 'a1' })],
+      'Planning a trip'
+    );
+    expect(context).toMatchObject({
+      summary: { text: 'Lisbon in June, sunny; wants to hike', messageCount: 2 },
+      summaryChanged: true,
+      droppedMessages: 0,
+    });
+    expect(context.messages.map((message) => message.id)).toEqual(['u2', 'a2', 'u3']);
+  });
+
+  it('counts new summaries on from the stored one', async () => {
+    const messages = [
+      ...conversation,
+      assistant('a3', 'Bring a light jacket.'),
+      user('u4', 'And shoes?'),
+    ];
+
+    const context = await fitToContext(messages, {
+      budget: 10,
+      summary: { text: 'Lisbon in June', messageCount: 2 },
+      summarize: async () => 'Lisbon in June, hiking, evenings',
+    });
+
+    // The new summary covers u2 and a2 on top of the first two messages
+    expect(context.summary).toEqual({
+      text: 'Lisbon in June, hiking, evenings',
+      messageCount: 4,
+    });
+    // Still over budget, so the u3 turn is dropped
+    expect(context.messages.map((message) => message.id)).toEqual(['u4']);
+    expect(context.droppedMessages).toBe(2);
+  });
+
+  it('drops the oldest turns when it cannot summarize, keeping the latest', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const summarize = vi.fn().mockRejectedValue(new Error('rate limited'));
+
+    const context = await fitToContext(conversation, { budget: 20, summarize });
+
+    expect(summarize).toHaveBeenCalled();
+    expect(context.summary).toBeNull();
+    expect(context.summaryChanged).toBe(false);
+    expect(context.messages.map((message) => message.id)).toEqual(['u3']);
+    expect(context.droppedMessages).toBe(4);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('summarizeConversation', () => {
+  it('asks the model for a summary that includes the previous one', async () => {
+    const model = createFakeModel('summary', [
+      ({ userText }) => ({
+        text: userText.includes('Planning a trip') ? ' Lisbon in June ' : 'No summary',
+      }),
+    ]);
+
+    const { text, usage } = await summarizeConversation(
+      conversation.slice(0, 2),
+      'Planning a trip',
+      model
+    );
+
+    expect(text).toBe('Lisbon in June');
+    expect(usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('sends tool calls and results in the transcript', async () => {
+    const model = createFakeModel('summary', [({ userText }) => ({ text: userText })]);
+
+    const { text } = await summarizeConversation(conversation.slice(0, 2), null, model);
+
+    expect(text).toContain('user: Two weeks in Lisbon in June');
+    expect(text).toContain('assistant called get_weather({"location":"Lisbon"');
+    expect(text).toContain('assistant: Mostly sunny, pack light.');
+    expect(text).not.toContain('Summary of the conversation before');
+  });
+
+  it('throws when the model replies without text', async () => {
+    const model = createFakeModel('summary', [{ toolCalls: [] }]);
+
+    await expect(summarizeConversation(conversation, null, model)).rejects.toThrow(
+      'The model returned an empty summary'
+    );
+  });
+});
+
+describe('get_weather digest', () => {
+  it('shortens a forecast to one line per day and its alerts', () => {
+    const digest = weatherTool.digest?.({
+      ...forecast(2),
+      forecast: [day('2025-06-01'), day('2025-06-02', { wind: null, source: 'climatology' })],
+      alerts: [
+        {
+          type: 'heat',
+          severity: 'warning',
+          title: 'Heat warning',
+          description: 'Highs near 40°C',
+          startDate: '2025-06-02',
+          endDate: '2025-06-02',
+          source: 'threshold',
+        },
+      ],
+    });
+
+    expect(digest).toEqual({
+      location: 'Lisbon, Portugal',
+      startDate: '2025-06-01',
+      endDate: '2025-06-02',
+      days: [
+        '2025-06-01 Sunny, 15-24°C, 10% rain (0 mm), wind 12 km/h, UV 6',
+        '2025-06-02 Sunny, 15-24°C, 10% rain (0 mm), UV 6 (typical for the season)',
+      ],
+      alerts: ['Heat warning (2025-06-02 to 2025-06-02)'],
+    });
+  });
+
+  it('keeps results without a forecast as they are', () => {
+    const ambiguous = { status: 'ambiguous', query: 'Paris', candidates: [] };
+
+    expect(weatherTool.digest?.(ambiguous)).toBe(ambiguous);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  generateText,
+  getToolOrDynamicToolName,
+  isToolOrDynamicToolUIPart,
+  type LanguageModel,
+  type LanguageModelUsage,
+  type UIMessage,
+} from 'ai';
+import { getChainCapabilities } from './models';
+import { toolRegistry } from './registry';
+import type { ModelInfo } from './types';
+
+/** Share of the context window left for the reply's own tool calls and results */
+const REPLY_HEADROOM = 0.25;
+
+/** Turns (a user message and the replies to it) always sent as they are */
+export const DEFAULT_RECENT_TURNS = 2;
+
+/** Longest result of a tool without a digest kept in older turns, in characters */
+const MAX_UNDIGESTED_LENGTH = 1000;
+
+/**
+ * A summary of a conversation's first messages, sent in their place
+ */
+export interface ConversationSummary {
+  text: string;
+  /** Number of leading messages the summary covers */
+  messageCount: number;
+}
+
+export interface ContextOptions {
+  /** Most tokens the summary and messages may take */
+  budget: number;
+  /** Latest turns to keep as they are (default 2) */
+  recentTurns?: number;
+  /** Summary stored on an earlier turn */
+  summary?: ConversationSummary | null;
+  /** Condense messages into a summary that includes the previous one */
+  summarize?: (messages: UIMessage[], previousSummary: string | null) => Promise<string>;
+}
+
+export interface FittedContext {
+  /** Messages to send, after the ones the summary covers */
+  messages: UIMessage[];
+  summary: ConversationSummary | null;
+  /** Whether the summary is new and should be stored */
+  summaryChanged: boolean;
+  /** Messages left out without being summarized */
+  droppedMessages: number;
+  estimatedTokens: number;
+}
+
+/**
+ * Rough token count of some text or JSON, at four characters per token
+ */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : (JSON.stringify(value) ?? '');
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens the conversation history may take in a request
+ *
+ * The smallest context window in the fallback chain counts, as any model
+ * in it may answer. A quarter of it is left for the reply's tool calls and
+ * results, and the system prompt and output tokens come off the rest.
+ *
+ * - LLM_CONTEXT_TOKENS: a lower budget, e.g. to try summarization on short
+ *   conversations
+ */
+export function getContextBudget(
+  models: ModelInfo[],
+  request: { system: string; maxOutputTokens: number },
+  env: Record<string, string | undefined> = process.env
+): number {
+  const { contextWindow } = getChainCapabilities(models);
+  const budget =
+    Math.floor(contextWindow * (1 - REPLY_HEADROOM)) -
+    request.maxOutputTokens -
+    estimateTokens(request.system);
+
+  const limit = Number(env.LLM_CONTEXT_TOKENS?.trim() || NaN);
+  return Math.max(Number.isInteger(limit) && limit > 0 ? Math.min(budget, limit) : budget, 0);
+}
+
+/**
+ * Fit a conversation into a token budget
+ *
+ * The stored summary replaces the messages it covers. If the rest is still
+ * over budget, tool results of older turns are swapped for their digests,
+ * then older turns are summarized, and as a last resort the oldest turns
+ * are left out. The latest turn is always sent.
+ */
+export async function fitToContext(
+  messages: UIMessage[],
+  options: ContextOptions
+): Promise<FittedContext> {
+  const { budget, recentTurns = DEFAULT_RECENT_TURNS, summarize } = options;
+
+  // A summary covering more messages than there are belongs to other history
+  let summary =
+    options.summary && options.summary.messageCount <= messages.length ? options.summary : null;
+  let summaryChanged = false;
+  let droppedMessages = 0;
+  let kept = messages.slice(summary?.messageCount ?? 0);
+
+  const estimate = () =>
+    estimateTokens(summary?.text ?? '') +
+    kept.reduce((total, message) => total + estimateTokens(message.parts), 0);
+  const fitted = (): FittedContext => ({
+    messages: kept,
+    summary,
+    summaryChanged,
+    droppedMessages,
+    estimatedTokens: estimate(),
+  });
+
+  if (estimate() <= budget) {
+    return fitted();
+  }
+
+  const recentStart = startOfRecentTurns(kept, recentTurns);
+  kept = [...kept.slice(0, recentStart).map(digestToolResults), ...kept.slice(recentStart)];
+  if (estimate() <= budget) {
+    return fitted();
+  }
+
+  if (summarize && recentStart > 0) {
+    try {
+      const text = await summarize(kept.slice(0, recentStart), summary?.text ?? null);
+      summary = { text, messageCount: (summary?.messageCount ?? 0) + recentStart };
+      summaryChanged = true;
+      kept = kept.slice(recentStart);
+    } catch (error) {
+      console.error('[Context] Failed to summarize conversation:', error);
+    }
+  }
+
+  while (estimate() > budget) {
+    const nextTurn = kept.findIndex((message, index) => index > 0 && message.role === 'user');
+    if (nextTurn === -1) break;
+    droppedMessages += nextTurn;
+    kept = kept.slice(nextTurn);
+  }
+
+  return fitted();
+}
+
+/**
+ * Ask the model to condense messages, and an earlier summary, into a
+ * summary the conversation can go on from
+ *
+ * @throws Error if the model fails or replies without text
+ */
+export async function summarizeConversation(
+  messages: UIMessage[],
+  previousSummary: string | null,
+  model: LanguageModel
+): Promise<{ text: string; usage: LanguageModelUsage }> {
+  const { text, usage } = await generateText({
+    model,
+    system:
+      'Summarize this travel planning conversation so an assistant can continue it without ' +
+      'the messages. Keep the destination, dates, weather highlights, user preferences, ' +
+      'decisions made and IDs of saved checklists. Write at most 200 words, in the language ' +
+      'the user writes in.',
+    prompt: [
+      previousSummary && `Summary of the conversation before these messages:\n${previousSummary}`,
+      `Messages:\n${getTranscript(messages)}`,
+    ]
+      .filter(Boolean)
+      .join('\n\n'),
+    maxOutputTokens: 400,
+  });
+
+  if (!text.trim()) {
+    throw new Error('The model returned an empty summary');
+  }
+  return { text: text.trim(), usage };
+}
+
+/**
+ * Index of the first message of the latest `turns` turns
+ */
+function startOfRecentTurns(messages: UIMessage[], turns: number): number {
+  const starts = messages.flatMap((message, index) => (message.role === 'user' ? [index] : []));
+  if (turns <= 0) return messages.length;
+  return starts.length > turns ? starts[starts.length - turns] : 0;
+}
+
+/**
+ * Swap a message's tool results for their digests
+ */
+function digestToolResults(message: UIMessage): UIMessage {
+  return {
+    ...message,
+    parts: message.parts.map((part) =>
+      isToolOrDynamicToolUIPart(part) && part.state === 'output-available'
+        ? { ...part, output: digestResult(getToolOrDynamicToolName(part), part.output) }
+        : part
+    ),
+  };
+}
+
+/**
+ * The tool's digest of a result, or the result cut short if the tool has
+ * no digest
+ */
+function digestResult(toolName: string, output: unknown): unknown {
+  const digest = toolRegistry.get(toolName)?.digest;
+  if (digest) {
+    return digest(output);
+  }
+
+  const json = JSON.stringify(output) ?? '';
+  return json.length > MAX_UNDIGESTED_LENGTH
+    ? `${json.slice(0, MAX_UNDIGESTED_LENGTH)}… (cut short)`
+    : output;
+}
+
+/**
+ * Flatten messages, with their tool calls, for the summary prompt
+ */
+function getTranscript(messages: UIMessage[]): string {
+  return messages
+    .flatMap((message) =>
+      message.parts.map((part) => {
+        if (part.type === 'text') {
+          return `${message.role}: ${part.text}`;
+        }
+        if (!isToolOrDynamicToolUIPart(part)) {
+          return '';
+        }
+
+        const call = `${message.role} called ${getToolOrDynamicToolName(part)}(${JSON.stringify(part.input)})`;
+        if (part.state === 'output-available') return `${call} -> ${JSON.stringify(part.output)}`;
+        if (part.state === 'output-error') return `${call} -> error: ${part.errorText}`;
+        return call;
+      })
+    )
+    .filter(Boolean)
+    .join('\n');
+}
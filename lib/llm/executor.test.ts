@@ -71,5 +71,24 @@ describe('Tool Executor', () => {
       expect(typeof result.durationMs).toBe('number');
       expect(result.durationMs!).toBeGreaterThanOrEqual(0);
     });
+
+    it('should pass the context through to the tool', async () => {
+      const contextTool: ToolDefinition = {
+        name: 'context_tool',
+        description: 'Returns its context',
+        parameters: { type: 'object', properties: {} },
+        execute: async (_params, context) => context,
+      };
+      if (!toolRegistry.has('context_tool')) {
+        toolRegistry.register(contextTool);
+      }
+
+      const result = await executeTool(
+        { id: 'inv-ctx', name: 'context_tool', parameters: {} },
+        { conversationId: 'conv-123' }
+      );
+
+      expect(result.result).toEqual({ conversationId: 'conv-123' });
+    });
   });
 });
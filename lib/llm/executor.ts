@@ -1,11 +1,12 @@
-import type { ToolInvocation, ToolResult } from './types';
+import type { ToolContext, ToolInvocation, ToolResult } from './types';
 import { toolRegistry } from './registry';
 
 /**
  * Execute a tool invocation
  */
 export async function executeTool(
-  invocation: ToolInvocation
+  invocation: ToolInvocation,
+  context: ToolContext = {}
 ): Promise<ToolResult> {
   const startTime = performance.now();
 
@@ -16,7 +17,7 @@ export async function executeTool(
       throw new Error(`Tool "${invocation.name}" not found`);
     }
 
-    const result = await tool.execute(invocation.parameters);
+    const result = await tool.execute(invocation.parameters, context);
 
     return {
       id: invocation.id,
@@ -38,7 +39,8 @@ export async function executeTool(
  * Execute multiple tool invocations in parallel
  */
 export async function executeTools(
-  invocations: ToolInvocation[]
+  invocations: ToolInvocation[],
+  context: ToolContext = {}
 ): Promise<ToolResult[]> {
-  return Promise.all(invocations.map(executeTool));
+  return Promise.all(invocations.map((invocation) => executeTool(invocation, context)));
 }
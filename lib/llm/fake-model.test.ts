@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { dynamicTool, generateText, jsonSchema, stepCountIs, streamText } from 'ai';
+import { FAKE_SCRIPTS, createFakeModel } from './fake-model';
+
+const tool = (output: unknown) =>
+  dynamicTool({
+    inputSchema: jsonSchema({ type: 'object' }),
+    execute: async () => output,
+  });
+
+describe('createFakeModel', () => {
+  it('streams text replies word by word', async () => {
+    const result = streamText({
+      model: createFakeModel('chat', FAKE_SCRIPTS.chat),
+      prompt: 'Hello there',
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of result.textStream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe(
+      'This is a scripted reply from the fake model. You said: "Hello there"'
+    );
+    expect(chunks.length).toBeGreaterThan(1);
+  });
+
+  it('replays tool calls step by step, using earlier tool results', async () => {
+    const result = streamText({
+      model: createFakeModel('trip', FAKE_SCRIPTS.trip),
+      prompt: 'Help me pack for next weekend',
+      tools: {
+        parse_date_range: tool({ success: true, startDate: '2025-11-22', endDate: '2025-11-23' }),
+        get_weather: tool({ forecast: [] }),
+        create_checklist: tool({ success: true, checklistId: 'c1' }),
+      },
+      stopWhen: stepCountIs(10),
+    });
+
+    const steps = await result.steps;
+    expect(steps.map((step) => step.toolCalls.map((call) => call.toolName))).toEqual([
+      ['parse_date_range'],
+      ['get_weather'],
+      ['create_checklist'],
+      [],
+    ]);
+    expect(steps[1].toolCalls[0].input).toEqual({
+      location: 'Lisbon',
+      startDate: '2025-11-22',
+      endDate: '2025-11-23',
+    });
+    expect(await result.text).toContain('packing list for a weekend in Lisbon');
+  });
+
+  it('gives tool calls unique IDs across steps', async () => {
+    const result = streamText({
+      model: createFakeModel('trip', FAKE_SCRIPTS.trip),
+      prompt: 'Plan my trip',
+      tools: { parse_date_range: tool({}), get_weather: tool({}), create_checklist: tool({}) },
+      stopWhen: stepCountIs(10),
+    });
+
+    const ids = (await result.steps).flatMap((step) =>
+      step.toolCalls.map((call) => call.toolCallId)
+    );
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('starts the script over after each user message', async () => {
+    const model = createFakeModel('script', [{ text: 'first' }, { text: 'last' }]);
+
+    const { text } = await generateText({
+      model,
+      messages: [
+        { role: 'user', content: 'one' },
+        { role: 'assistant', content: 'first' },
+        { role: 'user', content: 'two' },
+      ],
+    });
+
+    expect(text).toBe('first');
+  });
+
+  it('reports estimated token usage', async () => {
+    const { usage } = await generateText({
+      model: createFakeModel('chat', FAKE_SCRIPTS.chat),
+      prompt: 'Hi',
+    });
+
+    expect(usage.inputTokens).toBeGreaterThan(0);
+    expect(usage.totalTokens).toBe((usage.inputTokens ?? 0) + (usage.outputTokens ?? 0));
+  });
+});
@@ -0,0 +1,216 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+} from '@ai-sdk/provider';
+import { simulateReadableStream } from 'ai';
+import { addDays, format, nextSaturday } from 'date-fns';
+
+/**
+ * One model response: some text, or tool calls for the SDK to run
+ */
+export type FakeTurn =
+  { text: string } | { toolCalls: Array<{ toolName: string; input: Record<string, unknown> }> };
+
+/**
+ * What a scripted turn can see of the conversation so far
+ */
+export interface FakeTurnContext {
+  /** Text of the latest user message */
+  userText: string;
+  /** Latest output of each tool called since that message, by tool name */
+  toolResults: Record<string, unknown>;
+}
+
+/**
+ * Turns replayed in order after each user message; the last one repeats
+ * if the conversation goes on longer
+ */
+export type FakeScript = Array<FakeTurn | ((context: FakeTurnContext) => FakeTurn)>;
+
+/**
+ * Built-in scripts, used as "fake/<name>" models
+ */
+export const FAKE_SCRIPTS: Record<string, FakeScript> = {
+  // Plans a weekend trip end to end: dates, weather, then a saved checklist
+  trip: [
+    { toolCalls: [{ toolName: 'parse_date_range', input: { rangeString: 'next weekend' } }] },
+    ({ toolResults }) => {
+      const range = tripDates(toolResults.parse_date_range);
+      return { toolCalls: [{ toolName: 'get_weather', input: { location: 'Lisbon', ...range } }] };
+    },
+    ({ toolResults }) => ({
+      toolCalls: [
+        {
+          toolName: 'create_checklist',
+          input: {
+            destination: 'Lisbon',
+            ...tripDates(toolResults.parse_date_range),
+            items: [
+              { item: 'T-shirt', category: 'Clothing', quantity: 2 },
+              { item: 'Light jacket', category: 'Clothing' },
+              { item: 'Sunscreen', category: 'Toiletries' },
+              { item: 'Passport', category: 'Documents' },
+              { item: 'Phone charger', category: 'Electronics' },
+            ],
+          },
+        },
+      ],
+    }),
+    {
+      text:
+        "Here's your packing list for a weekend in Lisbon. I've saved it as a checklist, " +
+        'so you can tick items off or ask me to change it.',
+    },
+  ],
+
+  // Answers every message with text only
+  chat: [
+    ({ userText }) => ({
+      text: `This is a scripted reply from the fake model. You said: "${userText}"`,
+    }),
+  ],
+};
+
+export interface FakeModelOptions {
+  /** Delay between streamed chunks, to make streaming visible in the UI (default 0) */
+  chunkDelayInMs?: number;
+}
+
+/**
+ * A language model that replays a script instead of calling an API
+ *
+ * Which turn comes next is worked out from the prompt, so the same script
+ * drives every step of a multi-step tool-calling response. Usage is
+ * estimated at four characters per token.
+ */
+export function createFakeModel(
+  modelId: string,
+  script: FakeScript,
+  options: FakeModelOptions = {}
+): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'fake',
+    modelId,
+    supportedUrls: {},
+
+    doGenerate: async (callOptions) => {
+      const turn = nextTurn(script, callOptions);
+      const content: LanguageModelV2Content[] =
+        'text' in turn
+          ? [{ type: 'text', text: turn.text }]
+          : turn.toolCalls.map((call, index) => ({
+              type: 'tool-call',
+              toolCallId: toolCallId(callOptions, index),
+              toolName: call.toolName,
+              input: JSON.stringify(call.input),
+            }));
+
+      return {
+        content,
+        finishReason: 'text' in turn ? 'stop' : 'tool-calls',
+        usage: estimateUsage(callOptions, turn),
+        warnings: [],
+      };
+    },
+
+    doStream: async (callOptions) => {
+      const turn = nextTurn(script, callOptions);
+      const chunks: LanguageModelV2StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+      if ('text' in turn) {
+        chunks.push({ type: 'text-start', id: 'text' });
+        for (const word of turn.text.match(/\S+\s*/g) ?? []) {
+          chunks.push({ type: 'text-delta', id: 'text', delta: word });
+        }
+        chunks.push({ type: 'text-end', id: 'text' });
+      } else {
+        turn.toolCalls.forEach((call, index) => {
+          chunks.push({
+            type: 'tool-call',
+            toolCallId: toolCallId(callOptions, index),
+            toolName: call.toolName,
+            input: JSON.stringify(call.input),
+          });
+        });
+      }
+
+      chunks.push({
+        type: 'finish',
+        finishReason: 'text' in turn ? 'stop' : 'tool-calls',
+        usage: estimateUsage(callOptions, turn),
+      });
+
+      return {
+        stream: simulateReadableStream({ chunks, chunkDelayInMs: options.chunkDelayInMs ?? 0 }),
+      };
+    },
+  };
+}
+
+/**
+ * Pick the turn for this call: one per model call since the last user message
+ */
+function nextTurn(script: FakeScript, { prompt }: LanguageModelV2CallOptions): FakeTurn {
+  const lastUser = prompt.map((message) => message.role).lastIndexOf('user');
+  const since = prompt.slice(lastUser + 1);
+
+  const toolResults: Record<string, unknown> = {};
+  for (const message of since) {
+    if (message.role !== 'tool') continue;
+    for (const part of message.content) {
+      if (part.output.type === 'json') {
+        toolResults[part.toolName] = part.output.value;
+      }
+    }
+  }
+
+  const userMessage = prompt[lastUser];
+  const userText =
+    userMessage?.role === 'user'
+      ? userMessage.content
+          .map((part) => (part.type === 'text' ? part.text : ''))
+          .join('')
+          .trim()
+      : '';
+
+  const calls = since.filter((message) => message.role === 'assistant').length;
+  const turn = script[Math.min(calls, script.length - 1)];
+  return typeof turn === 'function' ? turn({ userText, toolResults }) : turn;
+}
+
+/**
+ * A call ID that's unique within the conversation, as the UI keys tool
+ * parts by it
+ */
+function toolCallId({ prompt }: LanguageModelV2CallOptions, index: number): string {
+  return `fake-call-${prompt.length}-${index}`;
+}
+
+/**
+ * Dates from a parse_date_range result, or next weekend if it failed
+ */
+function tripDates(result: unknown): { startDate: string; endDate: string } {
+  const range = (result ?? {}) as { startDate?: unknown; endDate?: unknown };
+  if (typeof range.startDate === 'string' && typeof range.endDate === 'string') {
+    return { startDate: range.startDate, endDate: range.endDate };
+  }
+
+  const saturday = nextSaturday(new Date());
+  return {
+    startDate: format(saturday, 'yyyy-MM-dd'),
+    endDate: format(addDays(saturday, 1), 'yyyy-MM-dd'),
+  };
+}
+
+function estimateUsage(
+  { prompt }: LanguageModelV2CallOptions,
+  turn: FakeTurn
+): LanguageModelV2Usage {
+  const inputTokens = Math.ceil(JSON.stringify(prompt).length / 4);
+  const outputTokens = Math.ceil(JSON.stringify(turn).length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { APICallError, type LanguageModelV2 } from '@ai-sdk/provider';
+import { generateText, streamText } from 'ai';
+import { createFakeModel } from './fake-model';
+import {
+  DEFAULT_RETRY_POLICY,
+  FallbackLanguageModel,
+  getRetryPolicy,
+  isRetryableError,
+} from './fallback';
+import { getModel } from './models';
+
+const NO_DELAY = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 0, timeoutMs: 0 };
+
+const groq = getModel('groq/llama-3.3-70b-versatile');
+const openai = getModel('openai/gpt-4o-mini');
+const gpt5 = getModel('openai/gpt-5-nano');
+
+function apiError(statusCode: number) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+/**
+ * A model whose calls fail with `errors` in turn, then reply `text`
+ */
+function flakyModel(errors: unknown[], text = 'ok'): LanguageModelV2 {
+  const model = createFakeModel('flaky', [{ text }]);
+  const queue = [...errors];
+  const fail = <T>(call: () => PromiseLike<T>) => {
+    const error = queue.shift();
+    return error ? Promise.reject(error) : call();
+  };
+  return {
+    ...model,
+    doGenerate: vi.fn((options) => fail(() => model.doGenerate(options))),
+    doStream: vi.fn((options) => fail(() => model.doStream(options))),
+  };
+}
+
+describe('FallbackLanguageModel', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries rate limits and server errors on the same model', async () => {
+    const primary = flakyModel([apiError(429), apiError(503)]);
+    const model = new FallbackLanguageModel([{ info: groq, model: primary }], { policy: NO_DELAY });
+
+    const { text } = await generateText({ model, prompt: 'Hi', maxRetries: 0 });
+
+    expect(text).toBe('ok');
+    expect(primary.doGenerate).toHaveBeenCalledTimes(3);
+    expect(model.active).toBe(groq);
+  });
+
+  it('falls back to the next model once retries run out', async () => {
+    const onFallback = vi.fn();
+    const primary = flakyModel([apiError(429), apiError(429), apiError(429)]);
+    const backup = flakyModel([], 'from backup');
+    const model = new FallbackLanguageModel(
+      [
+        { info: groq, model: primary },
+        { info: openai, model: backup },
+      ],
+      { policy: NO_DELAY, onFallback }
+    );
+
+    const { text } = await generateText({ model, prompt: 'Hi', maxRetries: 0 });
+
+    expect(text).toBe('from backup');
+    expect(model.active).toBe(openai);
+    expect(onFallback).toHaveBeenCalledWith(groq, openai, expect.any(APICallError));
+  });
+
+  it('keeps using the fallback model for later calls', async () => {
+    const primary = flakyModel([apiError(500), apiError(500)]);
+    const backup = flakyModel([]);
+    const model = new FallbackLanguageModel(
+      [
+        { info: groq, model: primary },
+        { info: openai, model: backup },
+      ],
+      { policy: { ...NO_DELAY, maxRetries: 1 } }
+    );
+
+    await generateText({ model, prompt: 'Hi', maxRetries: 0 });
+    await generateText({ model, prompt: 'Hi again', maxRetries: 0 });
+
+    expect(primary.doGenerate).toHaveBeenCalledTimes(2);
+    expect(backup.doGenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws other errors without retrying or falling back', async () => {
+    const primary = flakyModel([apiError(400)]);
+    const backup = flakyModel([]);
+    const model = new FallbackLanguageModel(
+      [
+        { info: groq, model: primary },
+        { info: openai, model: backup },
+      ],
+      { policy: NO_DELAY }
+    );
+
+    await expect(generateText({ model, prompt: 'Hi', maxRetries: 0 })).rejects.toThrow('HTTP 400');
+    expect(primary.doGenerate).toHaveBeenCalledTimes(1);
+    expect(backup.doGenerate).not.toHaveBeenCalled();
+  });
+
+  it('throws the last error when every model fails', async () => {
+    const model = new FallbackLanguageModel(
+      [
+        { info: groq, model: flakyModel([apiError(429)]) },
+        { info: openai, model: flakyModel([apiError(502)]) },
+      ],
+      { policy: { ...NO_DELAY, maxRetries: 0 } }
+    );
+
+    await expect(generateText({ model, prompt: 'Hi', maxRetries: 0 })).rejects.toThrow('HTTP 502');
+  });
+
+  it('falls back when a model does not start responding in time', async () => {
+    const hanging: LanguageModelV2 = {
+      ...createFakeModel('slow', [{ text: 'too late' }]),
+      doStream: () => new Promise(() => {}),
+    };
+    const model = new FallbackLanguageModel(
+      [
+        { info: groq, model: hanging },
+        { info: openai, model: flakyModel([], 'in time') },
+      ],
+      { policy: { ...NO_DELAY, maxRetries: 0, timeoutMs: 10 } }
+    );
+
+    const result = streamText({ model, prompt: 'Hi', maxRetries: 0 });
+
+    expect(await result.text).toBe('in time');
+    expect(model.active).toBe(openai);
+  });
+
+  it('passes on an abort after the stream has started', async () => {
+    const streaming = flakyModel([]);
+    const model = new FallbackLanguageModel([{ info: groq, model: streaming }], {
+      policy: { ...NO_DELAY, timeoutMs: 1000 },
+    });
+    const controller = new AbortController();
+
+    await model.doStream({ prompt: [], abortSignal: controller.signal });
+    const { abortSignal } = vi.mocked(streaming.doStream).mock.calls[0][0];
+    expect(abortSignal?.aborted).toBe(false);
+
+    controller.abort();
+
+    expect(abortSignal?.aborted).toBe(true);
+  });
+
+  it('backs off exponentially between retries', async () => {
+    vi.useFakeTimers();
+    const primary = flakyModel([apiError(429), apiError(429)]);
+    const model = new FallbackLanguageModel([{ info: groq, model: primary }], {
+      policy: { ...NO_DELAY, baseDelayMs: 100 },
+    });
+
+    const result = generateText({ model, prompt: 'Hi', maxRetries: 0 });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(primary.doGenerate).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(primary.doGenerate).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(primary.doGenerate).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await result).text).toBe('ok');
+  });
+
+  it('leaves out settings a fallback model does not support', async () => {
+    const backup = flakyModel([]);
+    const model = new FallbackLanguageModel(
+      [
+        { info: groq, model: flakyModel([apiError(429)]) },
+        { info: gpt5, model: backup },
+      ],
+      { policy: { ...NO_DELAY, maxRetries: 0 } }
+    );
+
+    await generateText({ model, prompt: 'Hi', temperature: 0.7, maxRetries: 0 });
+
+    expect(backup.doGenerate).toHaveBeenCalledWith(
+      expect.objectContaining({ temperature: undefined })
+    );
+  });
+
+  it('needs at least one model', () => {
+    expect(() => new FallbackLanguageModel([])).toThrow(
+      'A fallback chain needs at least one model'
+    );
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and timeouts only', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(500))).toBe(true);
+    expect(isRetryableError(apiError(408))).toBe(true);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(new Error('Bad tool input'))).toBe(false);
+  });
+});
+
+describe('getRetryPolicy', () => {
+  it('reads the policy from the environment', () => {
+    expect(
+      getRetryPolicy({ LLM_MAX_RETRIES: '0', LLM_RETRY_DELAY_MS: '250', LLM_TIMEOUT_MS: '5000' })
+    ).toEqual({ ...DEFAULT_RETRY_POLICY, maxRetries: 0, baseDelayMs: 250, timeoutMs: 5000 });
+  });
+
+  it('ignores invalid values', () => {
+    expect(getRetryPolicy({ LLM_MAX_RETRIES: 'lots', LLM_TIMEOUT_MS: '-1' })).toEqual(
+      DEFAULT_RETRY_POLICY
+    );
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  APICallError,
+  type LanguageModelV2,
+  type LanguageModelV2CallOptions,
+} from '@ai-sdk/provider';
+import type { ModelInfo } from './types';
+
+/**
+ * How hard to try each model before falling back to the next
+ */
+export interface RetryPolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** Wait before the first retry, doubled for each retry after it */
+  baseDelayMs: number;
+  /** Longest wait between retries */
+  maxDelayMs: number;
+  /** How long a model has to start responding, 0 for no limit */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  timeoutMs: 20_000,
+};
+
+/**
+ * Read the retry policy from environment variables
+ *
+ * - LLM_MAX_RETRIES: retries per model (default 2)
+ * - LLM_RETRY_DELAY_MS: first backoff delay, doubled per retry (default 500)
+ * - LLM_TIMEOUT_MS: time a model has to start responding (default 20000, 0 disables)
+ */
+export function getRetryPolicy(env: Record<string, string | undefined> = process.env): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: readCount(env.LLM_MAX_RETRIES) ?? DEFAULT_RETRY_POLICY.maxRetries,
+    baseDelayMs: readCount(env.LLM_RETRY_DELAY_MS) ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    timeoutMs: readCount(env.LLM_TIMEOUT_MS) ?? DEFAULT_RETRY_POLICY.timeoutMs,
+  };
+}
+
+/**
+ * A model in a fallback chain
+ */
+export interface FallbackEntry {
+  info: ModelInfo;
+  model: LanguageModelV2;
+}
+
+export interface FallbackOptions {
+  policy?: RetryPolicy;
+  /** Called when the chain moves on to the next model */
+  onFallback?: (from: ModelInfo, to: ModelInfo, error: unknown) => void;
+}
+
+/**
+ * Error thrown when a model takes longer than the policy's timeout
+ */
+class ModelTimeoutError extends Error {
+  constructor(model: ModelInfo, timeoutMs: number) {
+    super(`${model.id} did not respond within ${timeoutMs}ms`);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+/**
+ * A language model that tries an ordered chain of models
+ *
+ * Rate limits (429), server errors (5xx), network failures and timeouts
+ * are retried with exponential backoff, then the next model takes over.
+ * Once a model has failed over, later calls (the following steps of a
+ * tool-calling response) start from the model that worked. Other errors,
+ * like a bad request, are thrown straight away.
+ *
+ * Only the start of a stream is retried; errors after it has started
+ * reach the caller as stream errors.
+ */
+export class FallbackLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2';
+  readonly supportedUrls = {};
+
+  private activeIndex = 0;
+  private readonly policy: RetryPolicy;
+
+  constructor(
+    private readonly models: FallbackEntry[],
+    private readonly options: FallbackOptions = {}
+  ) {
+    if (models.length === 0) {
+      throw new Error('A fallback chain needs at least one model');
+    }
+    this.policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * The model currently answering
+   */
+  get active(): ModelInfo {
+    return this.models[this.activeIndex].info;
+  }
+
+  get provider(): string {
+    return this.models[this.activeIndex].model.provider;
+  }
+
+  get modelId(): string {
+    return this.models[this.activeIndex].model.modelId;
+  }
+
+  doGenerate(options: LanguageModelV2CallOptions) {
+    return this.call(options, (model, callOptions) => model.doGenerate(callOptions));
+  }
+
+  doStream(options: LanguageModelV2CallOptions) {
+    return this.call(options, (model, callOptions) => model.doStream(callOptions));
+  }
+
+  private async call<T>(
+    options: LanguageModelV2CallOptions,
+    run: (model: LanguageModelV2, options: LanguageModelV2CallOptions) => PromiseLike<T>
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let index = this.activeIndex; index < this.models.length; index++) {
+      const { info, model } = this.models[index];
+
+      for (let attempt = 0; attempt <= this.policy.maxRetries; attempt++) {
+        if (attempt > 0) {
+          await sleep(this.backoff(attempt));
+        }
+
+        try {
+          const result = await this.withTimeout(info, options.abortSignal, (abortSignal) =>
+            run(model, { ...supportedOptions(info, options), abortSignal })
+          );
+          if (index !== this.activeIndex) {
+            this.options.onFallback?.(this.active, info, lastError);
+            this.activeIndex = index;
+          }
+          return result;
+        } catch (error) {
+          if (options.abortSignal?.aborted || !isRetryableError(error)) {
+            throw error;
+          }
+          console.warn(`[LLM] ${info.id} failed (attempt ${attempt + 1}):`, describeError(error));
+          lastError = error;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a call that's aborted if the caller aborts or the model times out
+   *
+   * The timeout only covers the start of the response, but the caller's
+   * abort stays wired up so it can still cancel a stream that has started.
+   */
+  private async withTimeout<T>(
+    model: ModelInfo,
+    callerSignal: AbortSignal | undefined,
+    run: (abortSignal: AbortSignal) => PromiseLike<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener('abort', abort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      if (this.policy.timeoutMs <= 0) return;
+      timer = setTimeout(() => {
+        const error = new ModelTimeoutError(model, this.policy.timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, this.policy.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([run(controller.signal), timeout]);
+    } catch (error) {
+      // Only a failed attempt is finished with the caller's signal
+      callerSignal?.removeEventListener('abort', abort);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(this.policy.baseDelayMs * 2 ** (attempt - 1), this.policy.maxDelayMs);
+  }
+}
+
+/**
+ * Whether another attempt could succeed: rate limits, server errors,
+ * network failures and timeouts
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ModelTimeoutError) {
+    return true;
+  }
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+  return false;
+}
+
+/**
+ * Leave out settings a fallback model doesn't support
+ */
+function supportedOptions(
+  model: ModelInfo,
+  options: LanguageModelV2CallOptions
+): LanguageModelV2CallOptions {
+  return {
+    ...options,
+    ...(!model.capabilities.temperature && { temperature: undefined }),
+    ...(!model.capabilities.toolCalling && { tools: undefined, toolChoice: undefined }),
+  };
+}
+
+function describeError(error: unknown): string {
+  if (APICallError.isInstance(error) && error.statusCode) {
+    return `${error.statusCode} ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function readCount(value: string | undefined): number | undefined {
+  const count = Number(value?.trim() || NaN);
+  return Number.isInteger(count) && count >= 0 ? count : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
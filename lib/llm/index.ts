@@ -5,13 +5,63 @@
 
 import { toolRegistry } from './registry';
 import { weatherTool } from './tools/weather';
-import { dateParserTool } from './tools/date-parser';
+import { dateParserTool, dateRangeParserTool } from './tools/date-parser';
+import {
+  createChecklistTool,
+  addChecklistItemsTool,
+  removeChecklistItemTool,
+} from './tools/checklist';
 
 // Register all tools
 toolRegistry.register(weatherTool);
 toolRegistry.register(dateParserTool);
+toolRegistry.register(dateRangeParserTool);
+toolRegistry.register(createChecklistTool);
+toolRegistry.register(addChecklistItemsTool);
+toolRegistry.register(removeChecklistItemTool);
 
 // Re-export for convenience
 export { toolRegistry } from './registry';
 export { executeTool, executeTools } from './executor';
+export { toAISDKTool, toAISDKTools } from './ai-sdk';
+export { generateConversationTitle, getTripTitle } from './title';
+export {
+  DEFAULT_MODEL,
+  createLanguageModel,
+  getChainCapabilities,
+  getModel,
+  listModels,
+  selectModel,
+  selectModels,
+} from './models';
+export { FAKE_SCRIPTS, createFakeModel } from './fake-model';
+export {
+  DEFAULT_RETRY_POLICY,
+  FallbackLanguageModel,
+  getRetryPolicy,
+  isRetryableError,
+  type RetryPolicy,
+} from './fallback';
+export {
+  DEFAULT_RECENT_TURNS,
+  estimateTokens,
+  fitToContext,
+  getContextBudget,
+  summarizeConversation,
+  type ContextOptions,
+  type ConversationSummary,
+  type FittedContext,
+} from './context';
+export {
+  DEFAULT_PRICES,
+  calculateCost,
+  findPrice,
+  formatCost,
+  getPriceTable,
+  priceUsage,
+  sumUsage,
+  toTokenUsage,
+  type ModelPrice,
+  type PriceTable,
+} from './pricing';
 export * from './types';
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODEL,
+  createLanguageModel,
+  getChainCapabilities,
+  getModel,
+  listModels,
+  selectModel,
+  selectModels,
+} from './models';
+
+describe('getModel', () => {
+  it('splits the key into provider and model', () => {
+    expect(getModel('openai/gpt-4o-mini')).toEqual({
+      id: 'openai/gpt-4o-mini',
+      provider: 'openai',
+      modelId: 'gpt-4o-mini',
+      capabilities: { toolCalling: true, temperature: true, contextWindow: 128_000 },
+    });
+  });
+
+  it('keeps slashes in the model ID', () => {
+    expect(getModel('groq/openai/gpt-oss-120b')).toMatchObject({
+      provider: 'groq',
+      modelId: 'openai/gpt-oss-120b',
+    });
+  });
+
+  it('flags reasoning models as not taking a temperature', () => {
+    expect(getModel('openai/gpt-5-nano').capabilities.temperature).toBe(false);
+  });
+
+  it('accepts any model on the local server', () => {
+    expect(getModel('local/llama3.2:3b')).toMatchObject({
+      provider: 'local',
+      modelId: 'llama3.2:3b',
+      capabilities: { toolCalling: true },
+    });
+  });
+
+  it('rejects unknown models', () => {
+    expect(() => getModel('local/')).toThrow('Unknown model "local/"');
+    expect(() => getModel('openai/gpt-2')).toThrow('Unknown model "openai/gpt-2"');
+    expect(() => getModel('constructor')).toThrow('Unknown model "constructor"');
+  });
+});
+
+describe('listModels', () => {
+  it('includes models from every provider', () => {
+    const providers = new Set(listModels().map((id) => id.split('/')[0]));
+
+    expect([...providers].sort()).toEqual(['anthropic', 'fake', 'groq', 'openai']);
+  });
+});
+
+describe('selectModel', () => {
+  it('prefers the requested model', () => {
+    const model = selectModel('anthropic/claude-haiku-4-5', { LLM_MODEL: 'openai/gpt-4o-mini' });
+
+    expect(model.id).toBe('anthropic/claude-haiku-4-5');
+  });
+
+  it('falls back to LLM_MODEL, then the default', () => {
+    expect(selectModel(undefined, { LLM_MODEL: 'openai/gpt-4o-mini' }).id).toBe(
+      'openai/gpt-4o-mini'
+    );
+    expect(selectModel('', { GROQ_API_KEY: 'secret' }).id).toBe(DEFAULT_MODEL);
+    expect(selectModel(42, { GROQ_API_KEY: 'secret' }).id).toBe(DEFAULT_MODEL);
+  });
+
+  it('only uses a fake model when asked for', () => {
+    expect(selectModel(undefined, { LLM_MODEL: 'fake/trip' }).id).toBe('fake/trip');
+    expect(selectModel('fake/chat', {}).id).toBe('fake/chat');
+  });
+
+  it('requires a Groq API key for the default model', () => {
+    expect(() => selectModel(undefined, {})).toThrow(
+      'No model configured: set GROQ_API_KEY to use groq/llama-3.3-70b-versatile'
+    );
+    expect(() => selectModel('  ', { GROQ_API_KEY: ' ' })).toThrow('No model configured');
+  });
+
+  it('rejects an unknown LLM_MODEL', () => {
+    expect(() => selectModel(undefined, { LLM_MODEL: 'groq/nope' })).toThrow(
+      'Unknown model "groq/nope"'
+    );
+  });
+});
+
+describe('selectModels', () => {
+  it('follows the chosen model with LLM_FALLBACK_MODELS, without repeats', () => {
+    const models = selectModels('openai/gpt-4o-mini', {
+      LLM_FALLBACK_MODELS: 'groq/llama-3.3-70b-versatile, openai/gpt-4o-mini,,fake/chat',
+    });
+
+    expect(models.map((model) => model.id)).toEqual([
+      'openai/gpt-4o-mini',
+      'groq/llama-3.3-70b-versatile',
+      'fake/chat',
+    ]);
+  });
+
+  it('is just the chosen model without fallbacks', () => {
+    expect(selectModels(undefined, { LLM_MODEL: 'fake/chat' })).toHaveLength(1);
+  });
+
+  it('rejects unknown fallback models', () => {
+    expect(() =>
+      selectModels(undefined, { LLM_MODEL: 'fake/chat', LLM_FALLBACK_MODELS: 'groq/nope' })
+    ).toThrow('Unknown model "groq/nope"');
+  });
+});
+
+describe('getChainCapabilities', () => {
+  it('is what every model in the chain supports', () => {
+    const chain = [getModel('groq/llama-3.3-70b-versatile'), getModel('openai/gpt-5-mini')];
+
+    expect(getChainCapabilities(chain)).toEqual({
+      toolCalling: true,
+      temperature: false,
+      contextWindow: 131_072,
+    });
+  });
+
+  it('leaves out tools when a fallback cannot call them', () => {
+    const withoutTools = {
+      ...getModel('local/tiny'),
+      capabilities: { toolCalling: false, temperature: true, contextWindow: 8_192 },
+    };
+
+    expect(getChainCapabilities([getModel('openai/gpt-4o-mini'), withoutTools])).toMatchObject({
+      toolCalling: false,
+      temperature: true,
+    });
+  });
+});
+
+describe('createLanguageModel', () => {
+  it.each(listModels())('creates %s with its provider', (id) => {
+    const info = getModel(id);
+    const model = createLanguageModel(info);
+
+    expect(model).toMatchObject({ modelId: info.modelId });
+    expect(typeof model === 'object' && model.provider).toContain(info.provider);
+  });
+
+  it('points local models at LLM_BASE_URL', () => {
+    const model = createLanguageModel(getModel('local/qwen2.5'), {
+      LLM_BASE_URL: 'http://localhost:11434/v1',
+    });
+
+    expect(model).toMatchObject({ modelId: 'qwen2.5', provider: 'local.chat' });
+  });
+
+  it('requires LLM_BASE_URL for local models', () => {
+    expect(() => createLanguageModel(getModel('local/qwen2.5'), {})).toThrow(
+      'LLM_BASE_URL is required for local models'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { anthropic } from '@ai-sdk/anthropic';
+import { groq } from '@ai-sdk/groq';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
+import { FAKE_SCRIPTS, createFakeModel } from './fake-model';
+import type { ModelCapabilities, ModelInfo, ModelProvider } from './types';
+
+/**
+ * Model used when neither the request nor LLM_MODEL picks one
+ */
+export const DEFAULT_MODEL = 'groq/llama-3.3-70b-versatile';
+
+/**
+ * Every model the chat can use, keyed by "provider/model"
+ */
+const MODELS: Record<string, ModelCapabilities> = {
+  'groq/llama-3.3-70b-versatile': { toolCalling: true, temperature: true, contextWindow: 131_072 },
+  'groq/llama-3.1-8b-instant': { toolCalling: true, temperature: true, contextWindow: 131_072 },
+  'groq/openai/gpt-oss-120b': { toolCalling: true, temperature: true, contextWindow: 131_072 },
+  'openai/gpt-4o-mini': { toolCalling: true, temperature: true, contextWindow: 128_000 },
+  'openai/gpt-4.1-mini': { toolCalling: true, temperature: true, contextWindow: 1_047_576 },
+  'openai/gpt-5-mini': { toolCalling: true, temperature: false, contextWindow: 400_000 },
+  'openai/gpt-5-nano': { toolCalling: true, temperature: false, contextWindow: 400_000 },
+  'anthropic/claude-sonnet-4-5': { toolCalling: true, temperature: true, contextWindow: 200_000 },
+  'anthropic/claude-haiku-4-5': { toolCalling: true, temperature: true, contextWindow: 200_000 },
+  'fake/trip': { toolCalling: true, temperature: true, contextWindow: 131_072 },
+  'fake/chat': { toolCalling: true, temperature: true, contextWindow: 131_072 },
+};
+
+/**
+ * Assumed for "local/<model>", any model served at LLM_BASE_URL
+ */
+const LOCAL_CAPABILITIES: ModelCapabilities = {
+  toolCalling: true,
+  temperature: true,
+  contextWindow: 8_192,
+};
+
+/**
+ * Look up a model by its "provider/model" key
+ *
+ * "local/<model>" is any model on the OpenAI-compatible server at
+ * LLM_BASE_URL (llama.cpp, Ollama, ...), and "fake/<script>" replays a
+ * built-in script without any network.
+ *
+ * @throws Error if the model isn't in the registry
+ */
+export function getModel(id: string): ModelInfo {
+  const key = id.trim();
+  if (key.startsWith('local/') && key.length > 'local/'.length) {
+    return {
+      id: key,
+      provider: 'local',
+      modelId: key.slice('local/'.length),
+      capabilities: LOCAL_CAPABILITIES,
+    };
+  }
+  if (!Object.hasOwn(MODELS, key)) {
+    throw new Error(`Unknown model "${key}". Available models: ${listModels().join(', ')}`);
+  }
+
+  // Model IDs can contain slashes themselves ("groq/openai/gpt-oss-120b")
+  const [provider, ...rest] = key.split('/');
+  return {
+    id: key,
+    provider: provider as ModelProvider,
+    modelId: rest.join('/'),
+    capabilities: MODELS[key],
+  };
+}
+
+/**
+ * Keys of every registered model
+ */
+export function listModels(): string[] {
+  return Object.keys(MODELS);
+}
+
+/**
+ * Pick the model for a request
+ *
+ * - `requested`: the model the caller asked for, if any
+ * - LLM_MODEL: the default "provider/model" (default: DEFAULT_MODEL, which
+ *   needs GROQ_API_KEY)
+ *
+ * Fake models only answer when asked for by name, so a missing API key
+ * can't quietly turn the chat into a scripted demo.
+ *
+ * @throws Error if the chosen model isn't in the registry, or if nothing
+ * picks one and GROQ_API_KEY isn't set
+ */
+export function selectModel(
+  requested?: unknown,
+  env: Record<string, string | undefined> = process.env
+): ModelInfo {
+  if (typeof requested === 'string' && requested.trim()) {
+    return getModel(requested);
+  }
+  if (env.LLM_MODEL?.trim()) {
+    return getModel(env.LLM_MODEL);
+  }
+  if (!env.GROQ_API_KEY?.trim()) {
+    throw new Error(
+      `No model configured: set GROQ_API_KEY to use ${DEFAULT_MODEL}, or pick a model with ` +
+        'LLM_MODEL (e.g. fake/trip to run without a network)'
+    );
+  }
+  return getModel(DEFAULT_MODEL);
+}
+
+/**
+ * Pick the model for a request followed by its fallbacks
+ *
+ * - LLM_FALLBACK_MODELS: comma-separated "provider/model" keys to try, in
+ *   order, when the chosen model is rate-limited or down
+ *
+ * @throws Error if any of the models isn't in the registry
+ */
+export function selectModels(
+  requested?: unknown,
+  env: Record<string, string | undefined> = process.env
+): ModelInfo[] {
+  const models = [selectModel(requested, env)];
+  for (const id of env.LLM_FALLBACK_MODELS?.split(',') ?? []) {
+    if (!id.trim()) continue;
+    const model = getModel(id);
+    if (!models.some((existing) => existing.id === model.id)) {
+      models.push(model);
+    }
+  }
+  return models;
+}
+
+/**
+ * What every model in a fallback chain supports
+ *
+ * Any model in the chain may end up answering, so a request only uses
+ * features they all have, within the smallest context window.
+ */
+export function getChainCapabilities(models: ModelInfo[]): ModelCapabilities {
+  return {
+    toolCalling: models.every((model) => model.capabilities.toolCalling),
+    temperature: models.every((model) => model.capabilities.temperature),
+    contextWindow: Math.min(...models.map((model) => model.capabilities.contextWindow)),
+  };
+}
+
+/**
+ * Create the AI SDK model, using the provider's API key from the environment
+ *
+ * - LLM_BASE_URL: root of the OpenAI-compatible API for local models
+ *   (e.g. http://localhost:11434/v1)
+ * - LLM_API_KEY: API key for that server, if it needs one
+ * - LLM_FAKE_DELAY_MS: delay between chunks streamed by fake models
+ *
+ * @throws Error if a local model is used without LLM_BASE_URL
+ */
+export function createLanguageModel(
+  model: ModelInfo,
+  env: Record<string, string | undefined> = process.env
+): LanguageModelV2 {
+  switch (model.provider) {
+    case 'groq':
+      return groq(model.modelId);
+    case 'openai':
+      return openai(model.modelId);
+    case 'anthropic':
+      return anthropic(model.modelId);
+    case 'local': {
+      const baseURL = env.LLM_BASE_URL?.trim();
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL is required for local models');
+      }
+      // Local servers implement chat completions, not the Responses API
+      return createOpenAI({
+        baseURL,
+        apiKey: env.LLM_API_KEY?.trim() || 'local',
+        name: 'local',
+      }).chat(model.modelId);
+    }
+    case 'fake':
+      return createFakeModel(model.modelId, FAKE_SCRIPTS[model.modelId], {
+        chunkDelayInMs: Number(env.LLM_FAKE_DELAY_MS) || 0,
+      });
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listModels } from './models';
+import {
+  DEFAULT_PRICES,
+  calculateCost,
+  findPrice,
+  formatCost,
+  getPriceTable,
+  priceUsage,
+  sumUsage,
+} from './pricing';
+
+describe('DEFAULT_PRICES', () => {
+  it('prices every registered model', () => {
+    for (const model of listModels()) {
+      expect(DEFAULT_PRICES, model).toHaveProperty([model]);
+    }
+  });
+});
+
+describe('getPriceTable', () => {
+  it('uses the default prices without LLM_PRICES', () => {
+    expect(getPriceTable({})).toBe(DEFAULT_PRICES);
+  });
+
+  it('merges LLM_PRICES over the defaults', () => {
+    const prices = getPriceTable({
+      LLM_PRICES:
+        '{"openai/gpt-4o-mini": {"input": 1, "output": 2}, "local/qwen": {"input": 0.1, "output": 0.2}}',
+    });
+
+    expect(prices['openai/gpt-4o-mini']).toEqual({ input: 1, output: 2 });
+    expect(prices['local/qwen']).toEqual({ input: 0.1, output: 0.2 });
+    expect(prices['anthropic/claude-haiku-4-5']).toEqual(
+      DEFAULT_PRICES['anthropic/claude-haiku-4-5']
+    );
+  });
+
+  it('logs and ignores LLM_PRICES that is not JSON', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getPriceTable({ LLM_PRICES: 'cheap' })).toBe(DEFAULT_PRICES);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('LLM_PRICES: it must be valid JSON')
+    );
+    errorSpy.mockRestore();
+  });
+
+  it('logs and ignores prices without input and output numbers', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getPriceTable({ LLM_PRICES: '{"openai/gpt-4o-mini": {"input": "1"}}' })).toBe(
+      DEFAULT_PRICES
+    );
+    expect(getPriceTable({ LLM_PRICES: '[]' })).toBe(DEFAULT_PRICES);
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('must map "provider/model"'));
+    errorSpy.mockRestore();
+  });
+});
+
+describe('calculateCost', () => {
+  it('prices input and output tokens per million', () => {
+    const cost = calculateCost(
+      { inputTokens: 1_000_000, outputTokens: 500_000, cachedInputTokens: 0 },
+      { input: 0.5, output: 2 }
+    );
+
+    expect(cost).toBeCloseTo(1.5);
+  });
+
+  it('prices cached input tokens at the cached price', () => {
+    const cost = calculateCost(
+      { inputTokens: 1_000_000, outputTokens: 0, cachedInputTokens: 800_000 },
+      { input: 1, output: 2, cachedInput: 0.1 }
+    );
+
+    expect(cost).toBeCloseTo(0.2 + 0.08);
+  });
+
+  it('prices cached input tokens at the input price by default', () => {
+    const cost = calculateCost(
+      { inputTokens: 1_000_000, outputTokens: 0, cachedInputTokens: 800_000 },
+      { input: 1, output: 2 }
+    );
+
+    expect(cost).toBeCloseTo(1);
+  });
+
+  it('returns null without a price', () => {
+    expect(
+      calculateCost({ inputTokens: 10, outputTokens: 10, cachedInputTokens: 0 }, undefined)
+    ).toBeNull();
+  });
+});
+
+describe('findPrice', () => {
+  it('treats local models as free unless priced', () => {
+    expect(findPrice('local/llama3.2', {})).toEqual({ input: 0, output: 0 });
+    expect(findPrice('local/llama3.2', { 'local/llama3.2': { input: 1, output: 1 } })).toEqual({
+      input: 1,
+      output: 1,
+    });
+  });
+
+  it('ignores inherited keys', () => {
+    expect(findPrice('constructor', {})).toBeUndefined();
+  });
+});
+
+describe('priceUsage', () => {
+  const prices = {
+    'openai/gpt-4o-mini': { input: 1, output: 2 },
+    'anthropic/claude-haiku-4-5': { input: 10, output: 20 },
+  };
+
+  it('adds up tokens and prices each step by its model', () => {
+    const usage = priceUsage(
+      [
+        { model: 'openai/gpt-4o-mini', inputTokens: 1000, outputTokens: 100, cachedInputTokens: 0 },
+        {
+          model: 'anthropic/claude-haiku-4-5',
+          inputTokens: 2000,
+          outputTokens: 50,
+          cachedInputTokens: 500,
+        },
+      ],
+      prices
+    );
+
+    expect(usage).toMatchObject({ inputTokens: 3000, outputTokens: 150, cachedInputTokens: 500 });
+    expect(usage.costUsd).toBeCloseTo((1000 + 200 + 20_000 + 1000) / 1_000_000);
+  });
+
+  it('leaves steps of unpriced models out of the cost', () => {
+    const usage = priceUsage(
+      [
+        { model: 'openai/gpt-4o-mini', inputTokens: 1000, outputTokens: 0, cachedInputTokens: 0 },
+        { model: 'openai/unknown', inputTokens: 1000, outputTokens: 0, cachedInputTokens: 0 },
+      ],
+      prices
+    );
+
+    expect(usage.inputTokens).toBe(2000);
+    expect(usage.costUsd).toBeCloseTo(0.001);
+  });
+
+  it('has no cost when no model is priced', () => {
+    const usage = priceUsage(
+      [{ model: 'openai/unknown', inputTokens: 10, outputTokens: 10, cachedInputTokens: 0 }],
+      prices
+    );
+
+    expect(usage.costUsd).toBeNull();
+  });
+});
+
+describe('sumUsage', () => {
+  it('adds up priced usage, skipping unknown costs', () => {
+    expect(
+      sumUsage([
+        { inputTokens: 10, outputTokens: 5, cachedInputTokens: 2, costUsd: 0.5 },
+        { inputTokens: 20, outputTokens: 5, cachedInputTokens: 0, costUsd: null },
+        { inputTokens: 30, outputTokens: 5, cachedInputTokens: 0, costUsd: 0.25 },
+      ])
+    ).toEqual({ inputTokens: 60, outputTokens: 15, cachedInputTokens: 2, costUsd: 0.75 });
+  });
+
+  it('has no cost when nothing is priced', () => {
+    expect(sumUsage([]).costUsd).toBeNull();
+  });
+});
+
+describe('formatCost', () => {
+  it('shows cents, or two significant digits below a cent', () => {
+    expect(formatCost(1.234)).toBe('$1.23');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.00421)).toBe('$0.0042');
+    expect(formatCost(null)).toBe('n/a');
+  });
+});
@@ -0,0 +1,163 @@
+import type { LanguageModelUsage } from 'ai';
+import type { PricedUsage, StepUsage, TokenUsage } from './types';
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Price of cached input tokens (default: the input price) */
+  cachedInput?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * List prices of the registered models
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'groq/llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'groq/llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'groq/openai/gpt-oss-120b': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'openai/gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+  'openai/gpt-5-nano': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  'anthropic/claude-sonnet-4-5': { input: 3, output: 15, cachedInput: 0.3 },
+  'anthropic/claude-haiku-4-5': { input: 1, output: 5, cachedInput: 0.1 },
+  'fake/trip': { input: 0, output: 0 },
+  'fake/chat': { input: 0, output: 0 },
+};
+
+/**
+ * The default prices, with overrides from LLM_PRICES
+ *
+ * - LLM_PRICES: JSON object of "provider/model" to prices per million
+ *   tokens, e.g. {"local/llama3.2": {"input": 0, "output": 0}}
+ *
+ * Invalid LLM_PRICES is logged and ignored, so a typo costs the overrides
+ * rather than every chat request.
+ */
+export function getPriceTable(env: Record<string, string | undefined> = process.env): PriceTable {
+  const overrides = env.LLM_PRICES?.trim();
+  if (!overrides) {
+    return DEFAULT_PRICES;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(overrides);
+  } catch {
+    console.error('[Pricing] Ignoring LLM_PRICES: it must be valid JSON');
+    return DEFAULT_PRICES;
+  }
+
+  if (!isPriceTable(parsed)) {
+    console.error(
+      '[Pricing] Ignoring LLM_PRICES: it must map "provider/model" keys to { input, output } prices'
+    );
+    return DEFAULT_PRICES;
+  }
+  return { ...DEFAULT_PRICES, ...parsed };
+}
+
+/**
+ * Cost of some tokens in US dollars, or null if the model has no price
+ */
+export function calculateCost(usage: TokenUsage, price: ModelPrice | undefined): number | null {
+  if (!price) return null;
+  const uncachedInput = Math.max(usage.inputTokens - usage.cachedInputTokens, 0);
+  return (
+    (uncachedInput * price.input +
+      usage.cachedInputTokens * (price.cachedInput ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Token counts from the AI SDK's usage, with missing counts as 0
+ */
+export function toTokenUsage(usage: LanguageModelUsage): TokenUsage {
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    cachedInputTokens: usage.cachedInputTokens ?? 0,
+  };
+}
+
+/**
+ * Add up the usage of several steps, pricing each by the model that ran it
+ *
+ * Steps of models without a price count towards the tokens but not the
+ * cost.
+ */
+export function priceUsage(steps: StepUsage[], prices: PriceTable): PricedUsage {
+  const total: PricedUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    costUsd: null,
+  };
+
+  for (const step of steps) {
+    total.inputTokens += step.inputTokens;
+    total.outputTokens += step.outputTokens;
+    total.cachedInputTokens += step.cachedInputTokens;
+
+    const cost = calculateCost(step, findPrice(step.model, prices));
+    if (cost !== null) {
+      total.costUsd = (total.costUsd ?? 0) + cost;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Add up already priced usage, e.g. the replies of a conversation
+ */
+export function sumUsage(usages: PricedUsage[]): PricedUsage {
+  return usages.reduce<PricedUsage>(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      cachedInputTokens: total.cachedInputTokens + usage.cachedInputTokens,
+      costUsd: usage.costUsd === null ? total.costUsd : (total.costUsd ?? 0) + usage.costUsd,
+    }),
+    { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, costUsd: null }
+  );
+}
+
+/**
+ * Format a cost in US dollars, with enough decimals to show small costs
+ * ("$0.0042"), or "n/a" if it's unknown
+ */
+export function formatCost(costUsd: number | null): string {
+  if (costUsd === null) return 'n/a';
+  if (costUsd === 0 || costUsd >= 0.01) return `$${costUsd.toFixed(2)}`;
+  return `$${costUsd.toPrecision(2)}`;
+}
+
+/**
+ * Price of a "provider/model" key; local models are free unless priced
+ */
+export function findPrice(model: string, prices: PriceTable): ModelPrice | undefined {
+  if (Object.hasOwn(prices, model)) return prices[model];
+  return model.startsWith('local/') ? FREE : undefined;
+}
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+function isPriceTable(value: unknown): value is PriceTable {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.values(value).every(
+    (price) =>
+      typeof price === 'object' &&
+      price !== null &&
+      typeof price.input === 'number' &&
+      typeof price.output === 'number' &&
+      (price.cachedInput === undefined || typeof price.cachedInput === 'number')
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LanguageModel, UIMessage } from 'ai';
+import { generateConversationTitle, getTripTitle } from './title';
+
+describe('Conversation titles', () => {
+  const userMessage: UIMessage = {
+    id: 'msg-1',
+    role: 'user',
+    parts: [{ type: 'text', text: 'I need help packing for a beach holiday' }],
+  };
+
+  const weatherMessage = (startDate: string, endDate: string): UIMessage => ({
+    id: 'msg-2',
+    role: 'assistant',
+    parts: [
+      {
+        type: 'dynamic-tool',
+        toolName: 'get_weather',
+        toolCallId: 'call-1',
+        state: 'output-available',
+        input: { location: 'Paris', startDate, endDate },
+        output: {
+          location: 'Paris, Île-de-France, France',
+          place: { name: 'Paris', country: 'France', latitude: 48.8566, longitude: 2.3522 },
+          startDate,
+          endDate,
+          forecast: [],
+        },
+      },
+      { type: 'text', text: 'Looks mild.' },
+    ],
+  });
+
+  // Minimal LanguageModelV2 that only supports generateText
+  const createModel = (doGenerate: () => Promise<unknown>) => {
+    const generate = vi.fn(doGenerate);
+    const model = {
+      specificationVersion: 'v2',
+      provider: 'test',
+      modelId: 'test-model',
+      supportedUrls: {},
+      doGenerate: generate,
+      doStream: async () => {
+        throw new Error('Streaming not supported');
+      },
+    } as unknown as LanguageModel;
+
+    return { model, generate };
+  };
+
+  const mockModel = (text: string) =>
+    createModel(async () => ({
+      content: [{ type: 'text', text }],
+      finishReason: 'stop',
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      warnings: [],
+    }));
+
+  describe('getTripTitle', () => {
+    it('builds a title from the destination and dates of get_weather', () => {
+      const title = getTripTitle([userMessage, weatherMessage('2024-06-01', '2024-06-07')]);
+
+      expect(title).toBe('Paris · Jun 1 – Jun 7, 2024');
+    });
+
+    it('uses a single date for one-day trips', () => {
+      const title = getTripTitle([userMessage, weatherMessage('2024-06-01', '2024-06-01')]);
+
+      expect(title).toBe('Paris · Jun 1, 2024');
+    });
+
+    it('returns null when get_weather was not called', () => {
+      expect(getTripTitle([userMessage])).toBeNull();
+    });
+  });
+
+  describe('generateConversationTitle', () => {
+    it('prefers the trip title over an LLM summary', async () => {
+      const { model, generate } = mockModel('Should not be used');
+
+      const result = await generateConversationTitle(
+        [userMessage, weatherMessage('2024-06-01', '2024-06-07')],
+        model
+      );
+
+      expect(result).toEqual({ title: 'Paris · Jun 1 – Jun 7, 2024' });
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('asks the model for a summary without trip details', async () => {
+      const { model } = mockModel('"Beach Holiday Packing."');
+
+      const { title, usage } = await generateConversationTitle([userMessage], model);
+
+      expect(title).toBe('Beach Holiday Packing');
+      expect(usage).toMatchObject({ inputTokens: 10, outputTokens: 5 });
+    });
+
+    it('falls back to the first user message when the model fails', async () => {
+      const { model } = createModel(async () => {
+        throw new Error('Rate limited');
+      });
+
+      const result = await generateConversationTitle([userMessage], model);
+
+      expect(result).toEqual({ title: 'I need help packing for a beach holiday' });
+    });
+  });
+});
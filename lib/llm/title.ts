@@ -0,0 +1,110 @@
+import { generateText, type LanguageModel, type LanguageModelUsage, type UIMessage } from 'ai';
+import { format, isValid, parseISO } from 'date-fns';
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Generate a conversation title after the first exchange
+ *
+ * Uses the trip details when get_weather was called, otherwise asks the
+ * model for a short summary. Falls back to the first user message if the
+ * model call fails. `usage` is set when the model was asked.
+ */
+export async function generateConversationTitle(
+  messages: UIMessage[],
+  model: LanguageModel
+): Promise<{ title: string; usage?: LanguageModelUsage }> {
+  const tripTitle = getTripTitle(messages);
+  if (tripTitle) {
+    return { title: tripTitle };
+  }
+
+  const fallback = cleanTitle(getFirstUserText(messages)) || 'New conversation';
+
+  try {
+    const { text, usage } = await generateText({
+      model,
+      system:
+        'Write a short title (at most 6 words) for this travel planning conversation. ' +
+        'Reply with the title only, without quotes or punctuation at the end.',
+      prompt: getTranscript(messages),
+      maxOutputTokens: 20,
+    });
+
+    return { title: cleanTitle(text) || fallback, usage };
+  } catch (error) {
+    console.error('[Title] Failed to summarize conversation:', error);
+  }
+
+  return { title: fallback };
+}
+
+/**
+ * Build a title like "Paris · Jun 1 – Jun 7, 2024" from the first
+ * get_weather call, or null if there wasn't one
+ */
+export function getTripTitle(messages: UIMessage[]): string | null {
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (part.type !== 'dynamic-tool' || part.toolName !== 'get_weather') continue;
+
+      const input = (part.input ?? {}) as Record<string, unknown>;
+      const output =
+        part.state === 'output-available' ? ((part.output ?? {}) as Record<string, unknown>) : {};
+      const place = output.place as { name?: unknown } | undefined;
+      const location = place?.name ?? output.location ?? input.location;
+      const startDate = parseISO(String(input.startDate));
+      const endDate = parseISO(String(input.endDate));
+
+      if (typeof location !== 'string' || !isValid(startDate) || !isValid(endDate)) continue;
+
+      const dates =
+        startDate.getTime() === endDate.getTime()
+          ? format(startDate, 'MMM d, yyyy')
+          : `${format(startDate, 'MMM d')} – ${format(endDate, 'MMM d, yyyy')}`;
+
+      return cleanTitle(`${location} · ${dates}`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Flatten the text of a conversation for the summary prompt
+ */
+function getTranscript(messages: UIMessage[]): string {
+  return messages
+    .map((message) => `${message.role}: ${getText(message)}`)
+    .filter((line) => !line.endsWith(': '))
+    .join('\n');
+}
+
+function getFirstUserText(messages: UIMessage[]): string {
+  const firstUserMessage = messages.find((message) => message.role === 'user');
+  return firstUserMessage ? getText(firstUserMessage) : '';
+}
+
+function getText(message: UIMessage): string {
+  return message.parts
+    .filter((part) => part.type === 'text')
+    .map((part) => ('text' in part ? part.text : ''))
+    .join('')
+    .trim();
+}
+
+/**
+ * Strip quotes and trailing punctuation, and cap the length
+ */
+function cleanTitle(title: string): string {
+  const cleaned = title
+    .trim()
+    .split('\n')[0]
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .replace(/[.!?:;,]+$/, '')
+    .trim();
+
+  return cleaned.length > MAX_TITLE_LENGTH
+    ? `${cleaned.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : cleaned;
+}
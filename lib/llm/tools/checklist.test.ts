@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { createClient } from '@libsql/client';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import { createConversation } from '@/lib/actions/messages';
+import { createTestDb, cleanupTestDb } from '@/lib/test-helpers';
+import type { ChecklistWithItems } from '@/lib/actions/checklists';
+import { addChecklistItemsTool, createChecklistTool, removeChecklistItemTool } from './checklist';
+
+const testDb = vi.hoisted(() => ({
+  db: undefined as LibSQLDatabase<typeof import('@/lib/schema')> | undefined,
+}));
+
+// Run the tools' checklist actions against the in-memory database
+vi.mock('@/lib/actions/checklists', async (importOriginal) => {
+  const actions = await importOriginal<typeof import('@/lib/actions/checklists')>();
+  return {
+    ...actions,
+    createChecklist: (input: Parameters<typeof actions.createChecklist>[0]) =>
+      actions.createChecklist(input, testDb.db),
+    getChecklist: (checklistId: string) => actions.getChecklist(checklistId, testDb.db),
+    addChecklistItems: (input: Parameters<typeof actions.addChecklistItems>[0]) =>
+      actions.addChecklistItems(input, testDb.db),
+    removeChecklistItem: (input: Parameters<typeof actions.removeChecklistItem>[0]) =>
+      actions.removeChecklistItem(input, testDb.db),
+  };
+});
+
+const trip = {
+  destination: 'Lisbon',
+  startDate: '2025-06-01',
+  endDate: '2025-06-07',
+  items: [
+    { item: 'Sunscreen', category: 'Toiletries' },
+    { item: 'T-shirt', quantity: 4 },
+  ],
+};
+
+describe('checklist tools', () => {
+  let client: ReturnType<typeof createClient>;
+  let conversationId: string;
+  let otherConversationId: string;
+
+  beforeEach(async () => {
+    const created = await createTestDb();
+    testDb.db = created.db;
+    client = created.client;
+
+    const first = await createConversation(undefined, created.db);
+    const second = await createConversation(undefined, created.db);
+    if (!first.success || !second.success) throw new Error('Failed to create conversations');
+    conversationId = first.conversationId;
+    otherConversationId = second.conversationId;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDb(client);
+  });
+
+  describe('create_checklist', () => {
+    it('returns the saved checklist with its items', async () => {
+      const checklist = (await createChecklistTool.execute(trip, {
+        conversationId,
+      })) as ChecklistWithItems;
+
+      expect(checklist).toMatchObject({
+        id: expect.any(String),
+        conversationId,
+        destination: 'Lisbon',
+        startDate: '2025-06-01',
+        endDate: '2025-06-07',
+      });
+      expect(checklist.items).toEqual([
+        expect.objectContaining({
+          id: expect.any(String),
+          item: 'Sunscreen',
+          category: 'Toiletries',
+          quantity: 1,
+          packed: false,
+        }),
+        expect.objectContaining({ item: 'T-shirt', quantity: 4, packed: false }),
+      ]);
+    });
+
+    it('throws outside a conversation', async () => {
+      await expect(createChecklistTool.execute(trip, {})).rejects.toThrow(
+        'Checklists can only be saved within a conversation'
+      );
+    });
+  });
+
+  describe('add_checklist_items', () => {
+    it('returns the checklist with the new items', async () => {
+      const { id } = (await createChecklistTool.execute(trip, {
+        conversationId,
+      })) as ChecklistWithItems;
+
+      const checklist = (await addChecklistItemsTool.execute(
+        { checklistId: id, items: [{ item: 'Passport', category: 'Documents' }] },
+        { conversationId }
+      )) as ChecklistWithItems;
+
+      expect(checklist.id).toBe(id);
+      expect(checklist.items.map((item) => item.item)).toEqual([
+        'Sunscreen',
+        'T-shirt',
+        'Passport',
+      ]);
+    });
+
+    it('rejects a checklist from another conversation', async () => {
+      const { id } = (await createChecklistTool.execute(trip, {
+        conversationId: otherConversationId,
+      })) as ChecklistWithItems;
+
+      await expect(
+        addChecklistItemsTool.execute(
+          { checklistId: id, items: [{ item: 'Passport' }] },
+          { conversationId }
+        )
+      ).rejects.toThrow(`Checklist "${id}" not found in this conversation`);
+
+      const { getChecklist } = await import('@/lib/actions/checklists');
+      const result = await getChecklist(id);
+      expect(result.success && result.checklist.items).toHaveLength(2);
+    });
+
+    it('rejects a checklist that does not exist', async () => {
+      await expect(
+        addChecklistItemsTool.execute(
+          { checklistId: 'missing', items: [{ item: 'Passport' }] },
+          { conversationId }
+        )
+      ).rejects.toThrow('Checklist "missing" not found in this conversation');
+    });
+  });
+
+  describe('remove_checklist_item', () => {
+    it('returns the checklist without the removed item', async () => {
+      const { id, items } = (await createChecklistTool.execute(trip, {
+        conversationId,
+      })) as ChecklistWithItems;
+
+      const checklist = (await removeChecklistItemTool.execute(
+        { checklistId: id, itemId: items[0].id },
+        { conversationId }
+      )) as ChecklistWithItems;
+
+      expect(checklist.items.map((item) => item.item)).toEqual(['T-shirt']);
+    });
+
+    it('rejects a checklist from another conversation', async () => {
+      const { id, items } = (await createChecklistTool.execute(trip, {
+        conversationId: otherConversationId,
+      })) as ChecklistWithItems;
+
+      await expect(
+        removeChecklistItemTool.execute(
+          { checklistId: id, itemId: items[0].id },
+          { conversationId }
+        )
+      ).rejects.toThrow(`Checklist "${id}" not found in this conversation`);
+
+      const { getChecklist } = await import('@/lib/actions/checklists');
+      const result = await getChecklist(id);
+      expect(result.success && result.checklist.items).toHaveLength(2);
+    });
+  });
+});
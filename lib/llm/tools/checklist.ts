@@ -0,0 +1,162 @@
+import type { ToolContext, ToolDefinition } from '../types';
+
+/**
+ * JSON schema for checklist items, shared by the create and add tools
+ */
+const itemsSchema = {
+  type: 'array',
+  description: 'Items to pack',
+  items: {
+    type: 'object',
+    properties: {
+      item: { type: 'string', description: 'Item name (e.g., "Rain jacket")' },
+      category: {
+        type: 'string',
+        description: 'Category (e.g., "Clothing", "Toiletries", "Documents", "Electronics")',
+      },
+      quantity: { type: 'integer', minimum: 1, description: 'How many to pack (default 1)' },
+    },
+    required: ['item'],
+  },
+};
+
+/**
+ * Checklist creation tool - saves a structured packing list for the conversation
+ */
+export const createChecklistTool: ToolDefinition = {
+  name: 'create_checklist',
+  description:
+    'Saves a structured packing checklist for the current trip. ' +
+    'Use it once the destination, dates and packing list are known.',
+  parameters: {
+    type: 'object',
+    properties: {
+      destination: {
+        type: 'string',
+        description: 'Trip destination',
+      },
+      startDate: {
+        type: 'string',
+        description: 'Trip start date (YYYY-MM-DD)',
+      },
+      endDate: {
+        type: 'string',
+        description: 'Trip end date (YYYY-MM-DD)',
+      },
+      items: itemsSchema,
+    },
+    required: ['destination', 'startDate', 'endDate', 'items'],
+  },
+  execute: async (params, context) => {
+    const { destination, startDate, endDate, items } = params as {
+      destination: string;
+      startDate: string;
+      endDate: string;
+      items: Array<{ item: string; category?: string; quantity?: number }>;
+    };
+
+    if (!context.conversationId) {
+      throw new Error('Checklists can only be saved within a conversation');
+    }
+
+    // Import the actual checklist implementation
+    const { createChecklist } = await import('@/lib/actions/checklists');
+    const result = await createChecklist({
+      conversationId: context.conversationId,
+      destination,
+      startDate,
+      endDate,
+      items,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return result.checklist;
+  },
+};
+
+/**
+ * Checklist item tool - adds items to a saved checklist
+ */
+export const addChecklistItemsTool: ToolDefinition = {
+  name: 'add_checklist_items',
+  description: 'Adds items to a packing checklist saved earlier in this conversation',
+  parameters: {
+    type: 'object',
+    properties: {
+      checklistId: {
+        type: 'string',
+        description: 'ID of the checklist returned by create_checklist',
+      },
+      items: itemsSchema,
+    },
+    required: ['checklistId', 'items'],
+  },
+  execute: async (params, context) => {
+    const { checklistId, items } = params as {
+      checklistId: string;
+      items: Array<{ item: string; category?: string; quantity?: number }>;
+    };
+
+    await assertChecklistInConversation(checklistId, context);
+
+    const { addChecklistItems } = await import('@/lib/actions/checklists');
+    const result = await addChecklistItems({ checklistId, items });
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return result.checklist;
+  },
+};
+
+/**
+ * Checklist item tool - removes an item from a saved checklist
+ */
+export const removeChecklistItemTool: ToolDefinition = {
+  name: 'remove_checklist_item',
+  description: 'Removes an item from a packing checklist saved earlier in this conversation',
+  parameters: {
+    type: 'object',
+    properties: {
+      checklistId: {
+        type: 'string',
+        description: 'ID of the checklist returned by create_checklist',
+      },
+      itemId: {
+        type: 'string',
+        description: 'ID of the item to remove',
+      },
+    },
+    required: ['checklistId', 'itemId'],
+  },
+  execute: async (params, context) => {
+    const { checklistId, itemId } = params as { checklistId: string; itemId: string };
+
+    await assertChecklistInConversation(checklistId, context);
+
+    const { removeChecklistItem } = await import('@/lib/actions/checklists');
+    const result = await removeChecklistItem({ checklistId, itemId });
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return result.checklist;
+  },
+};
+
+/**
+ * Keep the model from editing checklists that belong to other conversations
+ */
+async function assertChecklistInConversation(
+  checklistId: string,
+  context: ToolContext
+): Promise<void> {
+  const { getChecklist } = await import('@/lib/actions/checklists');
+  const result = await getChecklist(checklistId);
+
+  if (!result.success || result.checklist.conversationId !== context.conversationId) {
+    throw new Error(`Checklist "${checklistId}" not found in this conversation`);
+  }
+}
@@ -1,4 +1,27 @@
 import type { ToolDefinition } from '../types';
+import type { DateOrder, Locale } from '@/lib/date-parser';
+
+const DATE_ORDER_PARAMETER = {
+  type: 'string',
+  enum: ['MDY', 'DMY'],
+  description:
+    'How to read ambiguous numeric dates like 03/04: "MDY" (US, March 4th) or "DMY" (April 3rd). ' +
+    "Defaults to the language's order (MDY for English, DMY for Spanish and Portuguese); " +
+    'use DMY when the user writes dates day first.',
+};
+
+const LOCALE_PARAMETER = {
+  type: 'string',
+  enum: ['en', 'es', 'pt'],
+  description:
+    'Language of the text: English, Spanish or Portuguese. Detected from the words when omitted.',
+};
+
+const REFERENCE_DATE_PARAMETER = {
+  type: 'string',
+  description:
+    "Optional YYYY-MM-DD date to count relative dates from, instead of today in the user's time zone",
+};
 
 /**
  * Date parsing tool - converts human-readable dates to YYYY-MM-DD format
@@ -7,8 +30,11 @@ export const dateParserTool: ToolDefinition = {
   name: 'parse_date',
   description:
     'Converts human-readable date strings into YYYY-MM-DD format. ' +
-    'Supports formats like "today", "tomorrow", "two days from now", ' +
-    '"today + 2 days", "next week", "next Friday", etc.',
+    'Supports formats like "today", "tomorrow", "this Friday", "in 2 weeks", ' +
+    '"in a fortnight", "end of the month", "March 3rd", "3 March 2026", "12/25", ' +
+    '"twenty-one days from now", "today + 2 days", etc., ' +
+    'and the same in Spanish ("el viernes que viene") and Portuguese ("daqui a 2 semanas"). ' +
+    'When parsing fails, the error says where and what was expected.',
   parameters: {
     type: 'object',
     properties: {
@@ -17,28 +43,108 @@ export const dateParserTool: ToolDefinition = {
         description:
           'Human-readable date string to parse (e.g., "today", "next week", "2 days from now")',
       },
+      locale: LOCALE_PARAMETER,
+      dateOrder: DATE_ORDER_PARAMETER,
+      referenceDate: REFERENCE_DATE_PARAMETER,
     },
     required: ['dateString'],
   },
-  execute: async (params) => {
-    const { dateString } = params as { dateString: string };
+  execute: async (params, context) => {
+    const { dateString, locale, dateOrder, referenceDate } = params as {
+      dateString: string;
+      locale?: Locale;
+      dateOrder?: DateOrder;
+      referenceDate?: string;
+    };
 
     // Import the actual date parser implementation
-    const { parseHumanDate } = await import('@/lib/date-parser');
+    const { parseDate } = await import('@/lib/date-parser');
 
-    try {
-      const parsedDate = parseHumanDate(dateString);
+    const result = parseDate(dateString, {
+      locale,
+      dateOrder,
+      referenceDate,
+      timeZone: context.timeZone,
+    });
+    if (!result.success) {
+      const { message, code, position, expected } = result.error;
       return {
-        success: true,
-        date: parsedDate,
+        success: false,
+        error: message,
+        code,
+        position,
+        expected,
         originalInput: dateString,
       };
-    } catch (error) {
+    }
+
+    return {
+      success: true,
+      date: result.date,
+      originalInput: dateString,
+    };
+  },
+};
+
+/**
+ * Date range parsing tool - converts human-readable trip periods to start/end dates
+ */
+export const dateRangeParserTool: ToolDefinition = {
+  name: 'parse_date_range',
+  description:
+    'Converts a human-readable trip period into startDate and endDate (YYYY-MM-DD) ' +
+    'and the number of nights, ready to pass to get_weather. ' +
+    'Supports formats like "next weekend", "from the 3rd to the 10th", ' +
+    '"a week starting Friday", "Dec 20 – Jan 2", "next month", "in March", etc., ' +
+    'and the same in Spanish ("del 20 al 27 de diciembre") and Portuguese ("fim de semana que vem"). ' +
+    'When parsing fails, the error says where and what was expected.',
+  parameters: {
+    type: 'object',
+    properties: {
+      rangeString: {
+        type: 'string',
+        description:
+          'Human-readable date range to parse (e.g., "next weekend", "Dec 20 – Jan 2", "3 nights from tomorrow")',
+      },
+      locale: LOCALE_PARAMETER,
+      dateOrder: DATE_ORDER_PARAMETER,
+      referenceDate: REFERENCE_DATE_PARAMETER,
+    },
+    required: ['rangeString'],
+  },
+  execute: async (params, context) => {
+    const { rangeString, locale, dateOrder, referenceDate } = params as {
+      rangeString: string;
+      locale?: Locale;
+      dateOrder?: DateOrder;
+      referenceDate?: string;
+    };
+
+    // Import the actual date parser implementation
+    const { parseDateRange } = await import('@/lib/date-parser');
+
+    const result = parseDateRange(rangeString, {
+      locale,
+      dateOrder,
+      referenceDate,
+      timeZone: context.timeZone,
+    });
+    if (!result.success) {
+      const { message, code, position, expected } = result.error;
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        originalInput: dateString,
+        error: message,
+        code,
+        position,
+        expected,
+        originalInput: rangeString,
       };
     }
+
+    return {
+      success: true,
+      ...result.range,
+      originalInput: rangeString,
+    };
   },
 };
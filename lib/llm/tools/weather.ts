@@ -1,3 +1,4 @@
+import type { WeatherData, WeatherForecast } from '@/lib/weather/types';
 import type { ToolDefinition } from '../types';
 
 /**
@@ -5,13 +6,22 @@ import type { ToolDefinition } from '../types';
  */
 export const weatherTool: ToolDefinition = {
   name: 'get_weather',
-  description: 'Fetches weather forecast for a location and date range',
+  description:
+    'Fetches weather forecast for a location and date range. ' +
+    'Days beyond the ~2 week forecast horizon are historical monthly averages, ' +
+    'marked with source "climatology" instead of "forecast". ' +
+    "Each day includes wind speed, UV index and precipitation amount, in the user's preferred units. " +
+    'Alerts lists heat, freeze, storm and heavy rain hazards, including official warnings. ' +
+    'If the location is ambiguous, returns candidates instead of a forecast - ' +
+    'ask the user which one they meant, then call again with the region or country.',
   parameters: {
     type: 'object',
     properties: {
       location: {
         type: 'string',
-        description: 'City name or coordinates',
+        description:
+          'City name, optionally with region or country (e.g., "Paris", "Portland, Oregon", "Paris, TX"), ' +
+          'or coordinates (e.g., "48.85, 2.35")',
       },
       startDate: {
         type: 'string',
@@ -24,7 +34,7 @@ export const weatherTool: ToolDefinition = {
     },
     required: ['location', 'startDate', 'endDate'],
   },
-  execute: async (params) => {
+  execute: async (params, context) => {
     const { location, startDate, endDate } = params as {
       location: string;
       startDate: string;
@@ -32,7 +42,65 @@ export const weatherTool: ToolDefinition = {
     };
 
     // Import the actual weather implementation
-    const { getWeather } = await import('@/lib/weather');
-    return getWeather(location, startDate, endDate);
+    const { getWeather, geocode, formatLocation, createWeatherCache } = await import(
+      '@/lib/weather'
+    );
+
+    const place = geocode(location);
+    if (place.status === 'not_found') {
+      throw new Error(
+        `Location "${location}" not found. Try a nearby major city or coordinates (e.g., "48.85, 2.35")`
+      );
+    }
+
+    // Let the model ask the user instead of guessing
+    if (place.status === 'ambiguous') {
+      return {
+        status: 'ambiguous',
+        query: location,
+        candidates: place.candidates.map((candidate) => ({
+          ...candidate,
+          label: formatLocation(candidate),
+        })),
+      };
+    }
+
+    // Repeated and overlapping ranges are served from the weather cache;
+    // the result's `cache` field reports hits and misses
+    return getWeather(place.location, startDate, endDate, {
+      cache: await createWeatherCache(),
+      units: context.units,
+    });
+  },
+  // Older forecasts are sent as one line per day; candidate lists as they are
+  digest: (result) => {
+    const forecast = result as Partial<WeatherForecast>;
+    if (!Array.isArray(forecast.forecast)) {
+      return result;
+    }
+
+    return {
+      location: forecast.location,
+      startDate: forecast.startDate,
+      endDate: forecast.endDate,
+      days: forecast.forecast.map(formatDay),
+      alerts: (forecast.alerts ?? []).map(
+        (alert) => `${alert.title} (${alert.startDate} to ${alert.endDate})`
+      ),
+    };
   },
 };
+
+/**
+ * One day as "2025-06-01 Sunny, 15-24°C, 10% rain (0 mm), wind 12 km/h, UV 6"
+ */
+function formatDay(day: WeatherData): string {
+  const { temperature, precipitationAmount, wind } = day;
+  return [
+    `${day.date} ${day.conditions}`,
+    `${temperature.low}-${temperature.high}°${temperature.unit}`,
+    `${day.precipitation}% rain (${precipitationAmount.amount} ${precipitationAmount.unit})`,
+    ...(wind ? [`wind ${wind.speed} ${wind.unit}`] : []),
+    `UV ${day.uvIndex}${day.source === 'climatology' ? ' (typical for the season)' : ''}`,
+  ].join(', ');
+}
@@ -1,3 +1,5 @@
+import type { UnitSystem } from '@/lib/weather/units';
+
 /**
  * Tool definition interface for LLM tool calling
  */
@@ -9,7 +11,23 @@ export interface ToolDefinition {
     properties: Record<string, unknown>;
     required?: string[];
   };
-  execute: (params: Record<string, unknown>) => Promise<unknown>;
+  execute: (params: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+  /**
+   * Compact version of a result, sent in place of it once the call is
+   * a few turns old (e.g. a forecast as one line per day)
+   */
+  digest?: (result: unknown) => unknown;
+}
+
+/**
+ * Request-scoped context passed to every tool execution
+ */
+export interface ToolContext {
+  conversationId?: string;
+  /** The user's preferred measurement units */
+  units?: UnitSystem;
+  /** The user's IANA time zone, e.g. "Australia/Sydney" */
+  timeZone?: string;
 }
 
 /**
@@ -31,3 +49,67 @@ export interface ToolResult {
   error?: string;
   durationMs?: number;
 }
+
+/**
+ * Providers a model can be served by
+ */
+export type ModelProvider = 'groq' | 'openai' | 'anthropic' | 'local' | 'fake';
+
+/**
+ * What a model supports, so request settings can follow it
+ */
+export interface ModelCapabilities {
+  /** Whether the model can call tools */
+  toolCalling: boolean;
+  /** Whether the model accepts a sampling temperature (reasoning models don't) */
+  temperature: boolean;
+  /** Maximum prompt plus output tokens */
+  contextWindow: number;
+}
+
+/**
+ * A model in the registry, keyed by "provider/model"
+ */
+export interface ModelInfo {
+  /** Registry key, e.g. "openai/gpt-4o-mini" */
+  id: string;
+  provider: ModelProvider;
+  /** The provider's own model ID, e.g. "gpt-4o-mini" */
+  modelId: string;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Tokens used by one or more model calls
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the provider's prompt cache, included in inputTokens */
+  cachedInputTokens: number;
+}
+
+/**
+ * Usage of one step of a response, by the model that ran it
+ */
+export interface StepUsage extends TokenUsage {
+  /** "provider/model" key */
+  model: string;
+}
+
+/**
+ * Token usage priced through the price table
+ */
+export interface PricedUsage extends TokenUsage {
+  /** Cost in US dollars, or null if no model used had a price */
+  costUsd: number | null;
+}
+
+/**
+ * Metadata the chat route attaches to assistant messages
+ */
+export interface ChatMessageMetadata {
+  /** "provider/model" that wrote the message */
+  model?: string;
+  usage?: PricedUsage;
+}
@@ -0,0 +1,60 @@
+/**
+ * Text layout helpers for the checklist PDF
+ */
+
+import type { PDFFont } from 'pdf-lib';
+
+/**
+ * Word-wrap text to fit within maxWidth
+ *
+ * Words wider than a line on their own, like long URLs, are broken
+ * between characters.
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  const words = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((word) => breakWord(word, font, size, maxWidth));
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Split a word wider than maxWidth into pieces that fit
+ */
+function breakWord(word: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  if (font.widthOfTextAtSize(word, size) <= maxWidth) {
+    return [word];
+  }
+
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && font.widthOfTextAtSize(piece + char, size) > maxWidth) {
+      pieces.push(piece);
+      piece = char;
+    } else {
+      piece += char;
+    }
+  }
+  pieces.push(piece);
+
+  return pieces;
+}
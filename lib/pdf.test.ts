@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { generatePDF, type ChecklistData } from './pdf';
+import { wrapText } from './pdf-layout';
+
+const checklist: ChecklistData = {
+  destination: 'Paris',
+  startDate: '2024-06-01',
+  endDate: '2024-06-07',
+  items: [
+    { item: 'Passport', category: 'Documents', quantity: 1 },
+    { item: 'T-shirt', category: 'Clothing', quantity: 5, packed: true },
+    { item: 'Umbrella' },
+  ],
+};
+
+async function render(data: ChecklistData) {
+  const result = await generatePDF(data);
+  expect(result.success).toBe(true);
+  return result.pdf!;
+}
+
+describe('PDF generation', () => {
+  describe('generatePDF', () => {
+    it('returns a base64-encoded PDF document', async () => {
+      const bytes = Buffer.from(await render(checklist), 'base64');
+
+      expect(bytes.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+      expect(bytes.subarray(-6).toString('latin1')).toContain('%%EOF');
+    });
+
+    it('titles the document after the destination', async () => {
+      const doc = await PDFDocument.load(await render(checklist));
+
+      expect(doc.getTitle()).toBe('Packing Checklist - Paris');
+      expect(doc.getPageCount()).toBe(1);
+    });
+
+    it('flows long checklists onto additional pages', async () => {
+      const items = Array.from({ length: 120 }, (_, i) => ({
+        item: `Item ${i}`,
+        category: `Category ${i % 4}`,
+        quantity: 2,
+      }));
+
+      const doc = await PDFDocument.load(await render({ ...checklist, items }));
+
+      expect(doc.getPageCount()).toBeGreaterThan(1);
+    });
+
+    it('handles characters outside the built-in font', async () => {
+      const pdf = await render({
+        ...checklist,
+        destination: 'Zürich 東京',
+        items: [{ item: 'Sunscreen ☀️ with a very long description that needs to wrap across lines' }],
+      });
+
+      const doc = await PDFDocument.load(pdf);
+      expect(doc.getTitle()).toBe('Packing Checklist - Zürich 東京');
+    });
+
+    it('renders an empty checklist', async () => {
+      const doc = await PDFDocument.load(await render({ ...checklist, items: [] }));
+
+      expect(doc.getPageCount()).toBe(1);
+    });
+  });
+
+  describe('wrapText', () => {
+    async function helvetica() {
+      const doc = await PDFDocument.create();
+      return doc.embedFont(StandardFonts.Helvetica);
+    }
+
+    it('wraps between words', async () => {
+      const font = await helvetica();
+      const text = 'Sunscreen with a very long description that needs to wrap across lines';
+
+      const lines = wrapText(text, font, 11, 150);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.join(' ')).toBe(text);
+      for (const line of lines) {
+        expect(font.widthOfTextAtSize(line, 11)).toBeLessThanOrEqual(150);
+      }
+    });
+
+    it('breaks words wider than a line', async () => {
+      const font = await helvetica();
+      const url = 'https://example.com/' + 'packing-list-'.repeat(10);
+
+      const lines = wrapText(`See ${url} first`, font, 11, 150);
+
+      expect(lines.length).toBeGreaterThan(2);
+      expect(lines.join('').replace(/ /g, '')).toBe(`See${url}first`);
+      for (const line of lines) {
+        expect(font.widthOfTextAtSize(line, 11)).toBeLessThanOrEqual(150);
+      }
+    });
+  });
+});
@@ -1,10 +1,13 @@
 /**
- * PDF generation from HTML checklist
+ * PDF generation for checklists
  * Server action for generating downloadable packing lists
  */
 
 'use server';
 
+import { PDFDocument, StandardFonts, rgb, type PDFPage } from 'pdf-lib';
+import { wrapText } from './pdf-layout';
+
 export interface ChecklistItem {
   item: string;
   category?: string;
@@ -19,6 +22,20 @@ export interface ChecklistData {
   items: ChecklistItem[];
 }
 
+// A4 portrait, in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  text: rgb(0.2, 0.2, 0.2),
+  heading: rgb(0.33, 0.33, 0.33),
+  accent: rgb(0, 0.48, 1),
+  panel: rgb(0.96, 0.96, 0.96),
+  rule: rgb(0.93, 0.93, 0.93),
+};
+
 /**
  * Generate PDF from checklist data
  * Returns a base64-encoded PDF
@@ -27,15 +44,11 @@ export async function generatePDF(
   checklist: ChecklistData
 ): Promise<{ success: boolean; pdf?: string; error?: string }> {
   try {
-    // TODO: Implement actual PDF generation
-    // For now, return a mock success response
-    // In production, use a library like @react-pdf/renderer or puppeteer
-
-    const html = generateChecklistHTML(checklist);
+    const pdf = await renderChecklistPDF(checklist);
 
     return {
       success: true,
-      pdf: Buffer.from(html).toString('base64'),
+      pdf: Buffer.from(pdf).toString('base64'),
     };
   } catch (error) {
     console.error('Error generating PDF:', error);
@@ -47,11 +60,78 @@ export async function generatePDF(
 }
 
 /**
- * Generate HTML representation of checklist
+ * Lay out the checklist with pdf-lib's built-in Helvetica, so no fonts,
+ * browser or network are needed. Items are grouped by category and
+ * flow onto new pages as needed.
  */
-function generateChecklistHTML(checklist: ChecklistData): string {
+async function renderChecklistPDF(checklist: ChecklistData): Promise<Uint8Array> {
   const { destination, startDate, endDate, items } = checklist;
 
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Packing Checklist - ${destination}`);
+  doc.setCreator('AI Packing Assistant');
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  // Standard fonts only cover WinAnsi, so replace anything else (e.g. emoji)
+  const supported = new Set(regular.getCharacterSet());
+  const clean = (text: string) =>
+    Array.from(text, (char) => (supported.has(char.codePointAt(0) ?? 0) ? char : '?')).join('');
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  // Title
+  page.drawText('Packing Checklist', {
+    x: MARGIN,
+    y: y - 22,
+    size: 22,
+    font: bold,
+    color: COLORS.text,
+  });
+  y -= 32;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 2,
+    color: COLORS.accent,
+  });
+  y -= 20;
+
+  // Trip info panel
+  const infoLines: Array<[string, string]> = [
+    ['Destination:', clean(destination)],
+    ['Dates:', `${clean(startDate)} to ${clean(endDate)}`],
+  ];
+  const panelHeight = infoLines.length * 18 + 16;
+  page.drawRectangle({
+    x: MARGIN,
+    y: y - panelHeight,
+    width: CONTENT_WIDTH,
+    height: panelHeight,
+    color: COLORS.panel,
+  });
+  infoLines.forEach(([label, value], index) => {
+    const lineY = y - 24 - index * 18;
+    page.drawText(label, { x: MARGIN + 12, y: lineY, size: 11, font: bold, color: COLORS.text });
+    page.drawText(value, {
+      x: MARGIN + 12 + bold.widthOfTextAtSize(label, 11) + 4,
+      y: lineY,
+      size: 11,
+      font: regular,
+      color: COLORS.text,
+    });
+  });
+  y -= panelHeight + 10;
+
   const groupedItems = items.reduce(
     (acc, item) => {
       const category = item.category || 'Other';
@@ -64,76 +144,91 @@ function generateChecklistHTML(checklist: ChecklistData): string {
     {} as Record<string, ChecklistItem[]>
   );
 
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>Packing Checklist - ${destination}</title>
-  <style>
-    body {
-      font-family: Arial, sans-serif;
-      max-width: 800px;
-      margin: 40px auto;
-      padding: 20px;
-    }
-    h1 {
-      color: #333;
-      border-bottom: 2px solid #007bff;
-      padding-bottom: 10px;
-    }
-    .trip-info {
-      margin: 20px 0;
-      padding: 15px;
-      background: #f5f5f5;
-      border-radius: 5px;
-    }
-    .category {
-      margin: 30px 0;
-    }
-    .category h2 {
-      color: #555;
-      font-size: 1.2em;
-      margin-bottom: 10px;
-    }
-    .item {
-      padding: 8px;
-      border-bottom: 1px solid #eee;
-      display: flex;
-      justify-content: space-between;
-    }
-    .item:before {
-      content: "☐ ";
-      margin-right: 10px;
+  const itemSize = 11;
+  const lineHeight = 14;
+  const textX = MARGIN + 20;
+  const quantityWidth = 40;
+
+  for (const [category, categoryItems] of Object.entries(groupedItems)) {
+    // Keep each heading on the same page as its first item
+    ensureSpace(30 + lineHeight + 8);
+    y -= 30;
+    page.drawText(clean(category), { x: MARGIN, y, size: 14, font: bold, color: COLORS.heading });
+    y -= 8;
+
+    for (const item of categoryItems) {
+      const lines = wrapText(
+        clean(item.item),
+        regular,
+        itemSize,
+        CONTENT_WIDTH - (textX - MARGIN) - quantityWidth
+      );
+      const rowHeight = lines.length * lineHeight + 8;
+      ensureSpace(rowHeight);
+
+      const baseline = y - lineHeight;
+      drawCheckbox(page, MARGIN + 2, baseline - 1, item.packed ?? false);
+
+      lines.forEach((line, index) => {
+        page.drawText(line, {
+          x: textX,
+          y: baseline - index * lineHeight,
+          size: itemSize,
+          font: regular,
+          color: COLORS.text,
+        });
+      });
+
+      if (item.quantity) {
+        const quantity = `x${item.quantity}`;
+        page.drawText(quantity, {
+          x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(quantity, itemSize),
+          y: baseline,
+          size: itemSize,
+          font: regular,
+          color: COLORS.text,
+        });
+      }
+
+      y -= rowHeight;
+      page.drawLine({
+        start: { x: MARGIN, y: y + 2 },
+        end: { x: PAGE_WIDTH - MARGIN, y: y + 2 },
+        thickness: 1,
+        color: COLORS.rule,
+      });
     }
-  </style>
-</head>
-<body>
-  <h1>Packing Checklist</h1>
-  <div class="trip-info">
-    <strong>Destination:</strong> ${destination}<br>
-    <strong>Dates:</strong> ${startDate} to ${endDate}
-  </div>
-  ${Object.entries(groupedItems)
-    .map(
-      ([category, categoryItems]) => `
-    <div class="category">
-      <h2>${category}</h2>
-      ${categoryItems
-        .map(
-          (item) => `
-        <div class="item">
-          <span>${item.item}</span>
-          <span>${item.quantity ? `x${item.quantity}` : ''}</span>
-        </div>
-      `
-        )
-        .join('')}
-    </div>
-  `
-    )
-    .join('')}
-</body>
-</html>
-  `;
+  }
+
+  return doc.save();
+}
+
+/**
+ * Draw an empty box, ticked when the item is already packed
+ */
+function drawCheckbox(page: PDFPage, x: number, y: number, checked: boolean) {
+  const size = 10;
+  page.drawRectangle({
+    x,
+    y,
+    width: size,
+    height: size,
+    borderColor: COLORS.text,
+    borderWidth: 1,
+  });
+
+  if (checked) {
+    page.drawLine({
+      start: { x: x + 2, y: y + 5 },
+      end: { x: x + 4, y: y + 2 },
+      thickness: 1.5,
+      color: COLORS.text,
+    });
+    page.drawLine({
+      start: { x: x + 4, y: y + 2 },
+      end: { x: x + 8, y: y + 8 },
+      thickness: 1.5,
+      color: COLORS.text,
+    });
+  }
 }
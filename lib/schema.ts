@@ -1,12 +1,19 @@
 import { sql } from 'drizzle-orm';
-import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { integer, primaryKey, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import type { UIMessage } from 'ai';
+import type { WeatherData } from './weather/types';
 
 /**
  * Conversations table - stores chat sessions with the AI
+ * `summary` condenses the first `summary_message_count` messages once the
+ * conversation outgrows the model's context window, and is reused on
+ * later turns instead of sending those messages.
  */
 export const conversations = sqliteTable('conversations', {
   id: text('id').primaryKey(),
   title: text('title'),
+  summary: text('summary'),
+  summaryMessageCount: integer('summary_message_count'),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -15,9 +22,16 @@ export const conversations = sqliteTable('conversations', {
     .default(sql`(unixepoch())`),
 });
 
+/**
+ * Messages table - stores chat messages
+ * `content` holds the flattened text, `parts` the full UIMessage parts
+ * (including tool calls). Rows saved before `parts` existed only have text.
+ * `model` is the "provider/model" that wrote an assistant message.
+ */
 export const messages = sqliteTable('messages', {
   id: text('id').primaryKey(),
   content: text('content'),
+  parts: text('parts', { mode: 'json' }).$type<UIMessage['parts']>(),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -25,6 +39,7 @@ export const messages = sqliteTable('messages', {
     .notNull()
     .references(() => conversations.id, { onDelete: 'cascade' }),
   role: text('role').notNull(), // e.g., 'user' or 'assistant'
+  model: text('model'),
 });
 
 /**
@@ -78,10 +93,55 @@ export const toolInvocations = sqliteTable('tool_invocations', {
     .default(sql`(unixepoch())`),
 });
 
+/**
+ * LLM usage table - tokens used by each step of an assistant reply
+ * `cached_input_tokens` are the part of `input_tokens` served from the
+ * provider's prompt cache. Cost is worked out from the price table when
+ * read, so price changes apply to past usage too.
+ */
+export const llmUsage = sqliteTable('llm_usage', {
+  id: text('id').primaryKey(),
+  conversationId: text('conversation_id')
+    .notNull()
+    .references(() => conversations.id, { onDelete: 'cascade' }),
+  messageId: text('message_id').references(() => messages.id, { onDelete: 'cascade' }),
+  step: integer('step').notNull(),
+  model: text('model').notNull(),
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  cachedInputTokens: integer('cached_input_tokens').notNull().default(0),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+/**
+ * Weather cache table - one forecast day per location, day and provider
+ * `location_key` is the geocoded coordinates rounded to 3 decimals (~100m)
+ */
+export const weatherCache = sqliteTable(
+  'weather_cache',
+  {
+    locationKey: text('location_key').notNull(),
+    date: text('date').notNull(),
+    provider: text('provider').notNull(),
+    data: text('data', { mode: 'json' }).$type<WeatherData>().notNull(),
+    fetchedAt: integer('fetched_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.locationKey, table.date, table.provider] }),
+  })
+);
+
 // Export types for use in the application
 export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
 
+export type Message = typeof messages.$inferSelect;
+export type NewMessage = typeof messages.$inferInsert;
+
 export type Checklist = typeof checklists.$inferSelect;
 export type NewChecklist = typeof checklists.$inferInsert;
 
@@ -90,3 +150,9 @@ export type NewChecklistItem = typeof checklistItems.$inferInsert;
 
 export type ToolInvocation = typeof toolInvocations.$inferSelect;
 export type NewToolInvocation = typeof toolInvocations.$inferInsert;
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type NewLlmUsage = typeof llmUsage.$inferInsert;
+
+export type WeatherCacheEntry = typeof weatherCache.$inferSelect;
+export type NewWeatherCacheEntry = typeof weatherCache.$inferInsert;
@@ -19,6 +19,8 @@ export function createMockConversation(
   return {
     id: 'conv-123',
     title: 'Test Conversation',
+    summary: null,
+    summaryMessageCount: null,
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
     ...overrides,
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { classifyAlert, detectAlerts } from './alerts';
+import type { WeatherData } from './types';
+
+function day(date: string, overrides: Partial<WeatherData> = {}): WeatherData {
+  return {
+    date,
+    temperature: { high: 22, low: 12, unit: 'C' },
+    conditions: 'Partly cloudy',
+    precipitation: 10,
+    precipitationAmount: { amount: 0, unit: 'mm' },
+    humidity: 60,
+    wind: { speed: 15, unit: 'km/h' },
+    uvIndex: 5,
+    source: 'forecast',
+    ...overrides,
+  };
+}
+
+const hot = (date: string, high: number) => day(date, { temperature: { high, low: 22, unit: 'C' } });
+
+describe('detectAlerts', () => {
+  it('returns nothing for mild weather', () => {
+    expect(detectAlerts([day('2024-06-01'), day('2024-06-02')], 'metric')).toEqual([]);
+  });
+
+  it('groups consecutive hot days into one alert with the worst severity', () => {
+    const alerts = detectAlerts(
+      [day('2024-07-01'), hot('2024-07-02', 33), hot('2024-07-03', 39), day('2024-07-04')],
+      'metric'
+    );
+
+    expect(alerts).toEqual([
+      {
+        type: 'heat',
+        severity: 'warning',
+        title: 'Heat warning',
+        description: 'Highs up to 39°C',
+        startDate: '2024-07-02',
+        endDate: '2024-07-03',
+        source: 'threshold',
+      },
+    ]);
+  });
+
+  it('splits separate spells of the same hazard', () => {
+    const alerts = detectAlerts(
+      [hot('2024-07-01', 33), day('2024-07-02'), hot('2024-07-03', 34)],
+      'metric'
+    );
+
+    expect(alerts.map((alert) => [alert.startDate, alert.endDate])).toEqual([
+      ['2024-07-01', '2024-07-01'],
+      ['2024-07-03', '2024-07-03'],
+    ]);
+  });
+
+  it('flags freezing nights', () => {
+    const [alert] = detectAlerts(
+      [day('2024-01-10', { temperature: { high: 2, low: -12, unit: 'C' } })],
+      'metric'
+    );
+
+    expect(alert).toMatchObject({ type: 'freeze', severity: 'warning', description: 'Lows down to -12°C' });
+  });
+
+  it('flags strong wind and thunderstorms', () => {
+    const alerts = detectAlerts(
+      [
+        day('2024-06-01', { wind: { speed: 80, unit: 'km/h' } }),
+        day('2024-06-02', { conditions: 'Patchy light rain with thunder' }),
+      ],
+      'metric'
+    );
+
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        type: 'storm',
+        severity: 'warning',
+        description: 'Thunderstorms, wind up to 80 km/h',
+        startDate: '2024-06-01',
+        endDate: '2024-06-02',
+      }),
+    ]);
+  });
+
+  it('flags heavy rain', () => {
+    const [alert] = detectAlerts(
+      [day('2024-06-01', { precipitationAmount: { amount: 25.4, unit: 'mm' } })],
+      'metric'
+    );
+
+    expect(alert).toMatchObject({ type: 'heavy_rain', severity: 'advisory', title: 'Heavy rain advisory' });
+  });
+
+  it('describes alerts in the requested units', () => {
+    const alerts = detectAlerts(
+      [
+        hot('2024-07-01', 39),
+        day('2024-07-02', { precipitationAmount: { amount: 50.8, unit: 'mm' } }),
+      ],
+      'imperial'
+    );
+
+    expect(alerts.map((alert) => alert.description)).toEqual([
+      'Highs up to 102°F',
+      'Up to 2 in of rain a day',
+    ]);
+  });
+
+  it('notes when an alert is based on climate averages', () => {
+    const [alert] = detectAlerts(
+      [day('2024-08-01', { temperature: { high: 41, low: 30, unit: 'C' }, source: 'climatology' })],
+      'metric'
+    );
+
+    expect(alert.description).toBe('Highs up to 41°C (typical for the time of year)');
+  });
+});
+
+describe('classifyAlert', () => {
+  it.each([
+    ['Excessive Heat Warning', 'heat'],
+    ['Frost Advisory', 'freeze'],
+    ['Winter Storm Warning', 'freeze'],
+    ['Flash Flood Watch', 'heavy_rain'],
+    ['Severe Thunderstorm Warning', 'storm'],
+    ['Air Quality Alert', 'other'],
+  ])('classifies "%s" as %s', (event, type) => {
+    expect(classifyAlert(event)).toBe(type);
+  });
+});
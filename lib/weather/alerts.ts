@@ -0,0 +1,131 @@
+import type { WeatherAlert, WeatherData } from './types';
+import { convertWeatherData, type UnitSystem } from './units';
+
+type Severity = WeatherAlert['severity'];
+
+interface AlertRule {
+  type: Exclude<WeatherAlert['type'], 'other'>;
+  label: string;
+  /** How bad a day is, from its metric data, or null when it's fine */
+  severity: (day: WeatherData) => Severity | null;
+  /** Summarize the affected days, already in the user's units */
+  describe: (days: WeatherData[]) => string;
+}
+
+const THUNDER_PATTERN = /thunder|storm/i;
+
+/**
+ * Thresholds that turn daily data into alerts (metric units)
+ */
+const RULES: AlertRule[] = [
+  {
+    type: 'heat',
+    label: 'Heat',
+    severity: (day) => grade(day.temperature.high, 32, 38),
+    describe: (days) =>
+      `Highs up to ${Math.max(...days.map((day) => day.temperature.high))}°${days[0].temperature.unit}`,
+  },
+  {
+    type: 'freeze',
+    label: 'Freeze',
+    severity: (day) => grade(-day.temperature.low, 0, 10),
+    describe: (days) =>
+      `Lows down to ${Math.min(...days.map((day) => day.temperature.low))}°${days[0].temperature.unit}`,
+  },
+  {
+    type: 'storm',
+    label: 'Storm',
+    severity: (day) =>
+      grade(day.wind?.speed ?? 0, 50, 75) ?? (THUNDER_PATTERN.test(day.conditions) ? 'advisory' : null),
+    describe: (days) => {
+      const parts: string[] = [];
+      if (days.some((day) => THUNDER_PATTERN.test(day.conditions))) {
+        parts.push('Thunderstorms');
+      }
+      const windy = days.filter((day) => day.wind);
+      if (windy.length > 0) {
+        const speed = Math.max(...windy.map((day) => day.wind!.speed));
+        parts.push(`wind up to ${speed} ${windy[0].wind!.unit}`);
+      }
+      const description = parts.join(', ');
+      return description[0].toUpperCase() + description.slice(1);
+    },
+  },
+  {
+    type: 'heavy_rain',
+    label: 'Heavy rain',
+    severity: (day) => grade(day.precipitationAmount.amount, 20, 50),
+    describe: (days) => {
+      const amount = Math.max(...days.map((day) => day.precipitationAmount.amount));
+      return `Up to ${amount} ${days[0].precipitationAmount.unit} of rain a day`;
+    },
+  },
+];
+
+/**
+ * Flag heat, freezing, storms and heavy rain in a forecast
+ *
+ * Consecutive affected days are grouped into one alert per hazard.
+ *
+ * @param forecast - Consecutive days in metric units
+ * @param units - Unit system for the descriptions
+ */
+export function detectAlerts(forecast: WeatherData[], units: UnitSystem): WeatherAlert[] {
+  const alerts: WeatherAlert[] = [];
+
+  for (const rule of RULES) {
+    let run: { days: WeatherData[]; severity: Severity } | null = null;
+
+    const flush = () => {
+      if (!run) return;
+      const days = run.days.map((day) => convertWeatherData(day, units));
+      const typical = days.every((day) => day.source === 'climatology');
+
+      alerts.push({
+        type: rule.type,
+        severity: run.severity,
+        title: `${rule.label} ${run.severity}`,
+        description: rule.describe(days) + (typical ? ' (typical for the time of year)' : ''),
+        startDate: days[0].date,
+        endDate: days[days.length - 1].date,
+        source: 'threshold',
+      });
+      run = null;
+    };
+
+    for (const day of forecast) {
+      const severity = rule.severity(day);
+      if (!severity) {
+        flush();
+      } else if (run) {
+        run.days.push(day);
+        if (severity === 'warning') run.severity = 'warning';
+      } else {
+        run = { days: [day], severity };
+      }
+    }
+    flush();
+  }
+
+  return alerts.sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * Work out the hazard type of an official alert from its event name
+ */
+export function classifyAlert(event: string): WeatherAlert['type'] {
+  if (/heat/i.test(event)) return 'heat';
+  if (/freez|frost|cold|winter|snow|ice/i.test(event)) return 'freeze';
+  if (/flood|rain/i.test(event)) return 'heavy_rain';
+  if (/storm|thunder|wind|gale|hurricane|typhoon|cyclone|tornado/i.test(event)) return 'storm';
+  return 'other';
+}
+
+/**
+ * Severity of a measurement against advisory and warning limits
+ */
+function grade(value: number, advisory: number, warning: number): Severity | null {
+  if (value >= warning) return 'warning';
+  if (value >= advisory) return 'advisory';
+  return null;
+}
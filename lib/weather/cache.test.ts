@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import { WeatherCache, createWeatherCache } from './cache';
+import { MockWeatherProvider } from './providers/mock';
+import type { GeoLocation, WeatherProvider } from './types';
+import { weatherCache } from '../schema';
+import { createTestDb, cleanupTestDb } from '@/lib/test-helpers';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { createClient } from '@libsql/client';
+
+const paris: GeoLocation = {
+  name: 'Paris',
+  country: 'France',
+  countryCode: 'FR',
+  latitude: 48.8566,
+  longitude: 2.3522,
+  timezone: 'Europe/Paris',
+};
+
+describe('WeatherCache', () => {
+  let db: LibSQLDatabase<typeof import('../schema')>;
+  let client: ReturnType<typeof createClient>;
+  let now: Date;
+  let provider: MockWeatherProvider;
+  let getForecast: MockInstance<MockWeatherProvider['getForecast']>;
+
+  beforeEach(async () => {
+    const testDb = await createTestDb();
+    db = testDb.db;
+    client = testDb.client;
+
+    now = new Date('2024-06-01T12:00:00Z');
+    provider = new MockWeatherProvider();
+    getForecast = vi.spyOn(provider, 'getForecast');
+  });
+
+  afterEach(async () => {
+    await cleanupTestDb(client);
+  });
+
+  const createCache = (ttlSeconds = 3600) => new WeatherCache({ db, ttlSeconds, now: () => now });
+
+  it('fetches from the provider on a miss', async () => {
+    const result = await createCache().getForecast(provider, paris, '2024-06-01', '2024-06-03');
+
+    expect(result.cache).toEqual({ status: 'miss', hits: 0, misses: 3 });
+    expect(result.forecast).toEqual(await provider.getForecast(paris, '2024-06-01', '2024-06-03'));
+    expect(getForecast).toHaveBeenCalledWith(paris, '2024-06-01', '2024-06-03');
+  });
+
+  it('serves repeated ranges from the cache', async () => {
+    const cache = createCache();
+    const first = await cache.getForecast(provider, paris, '2024-06-01', '2024-06-03');
+    getForecast.mockClear();
+
+    const second = await cache.getForecast(provider, paris, '2024-06-01', '2024-06-03');
+
+    expect(second.cache).toEqual({ status: 'hit', hits: 3, misses: 0 });
+    expect(second.forecast).toEqual(first.forecast);
+    expect(getForecast).not.toHaveBeenCalled();
+  });
+
+  it('only fetches the days missing from overlapping ranges', async () => {
+    const cache = createCache();
+    await cache.getForecast(provider, paris, '2024-06-03', '2024-06-04');
+    getForecast.mockClear();
+
+    const result = await cache.getForecast(provider, paris, '2024-06-01', '2024-06-06');
+
+    expect(result.cache).toEqual({ status: 'partial', hits: 2, misses: 4 });
+    expect(getForecast.mock.calls.map(([, start, end]) => [start, end])).toEqual([
+      ['2024-06-01', '2024-06-02'],
+      ['2024-06-05', '2024-06-06'],
+    ]);
+    expect(result.forecast.map((day) => day.date)).toEqual([
+      '2024-06-01',
+      '2024-06-02',
+      '2024-06-03',
+      '2024-06-04',
+      '2024-06-05',
+      '2024-06-06',
+    ]);
+  });
+
+  it('shares entries between nearby spellings of the same place', async () => {
+    const cache = createCache();
+    await cache.getForecast(provider, paris, '2024-06-01', '2024-06-01');
+
+    const result = await cache.getForecast(
+      provider,
+      { ...paris, name: '48.8566, 2.3522', latitude: 48.85661 },
+      '2024-06-01',
+      '2024-06-01'
+    );
+
+    expect(result.cache.status).toBe('hit');
+  });
+
+  it('keeps providers apart', async () => {
+    const cache = createCache();
+    await cache.getForecast(provider, paris, '2024-06-01', '2024-06-01');
+
+    const other: WeatherProvider = {
+      name: 'other',
+      forecastDays: provider.forecastDays,
+      getForecast: (...args) => provider.getForecast(...args),
+    };
+    const result = await cache.getForecast(other, paris, '2024-06-01', '2024-06-01');
+
+    expect(result.cache.status).toBe('miss');
+  });
+
+  it('refetches and replaces entries older than the TTL', async () => {
+    const cache = createCache(600);
+    await cache.getForecast(provider, paris, '2024-06-01', '2024-06-02');
+
+    now = new Date(now.getTime() + 601 * 1000);
+    const result = await cache.getForecast(provider, paris, '2024-06-01', '2024-06-02');
+
+    expect(result.cache.status).toBe('miss');
+    const rows = await db.select().from(weatherCache);
+    expect(rows).toHaveLength(2);
+    expect(rows.every((row) => row.fetchedAt.getTime() === now.getTime())).toBe(true);
+  });
+
+  it('falls back to the provider when the cache cannot be read', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = createCache();
+    await cleanupTestDb(client);
+
+    const result = await cache.getForecast(provider, paris, '2024-06-01', '2024-06-01');
+
+    expect(result.cache.status).toBe('miss');
+    expect(result.forecast).toHaveLength(1);
+    expect(consoleError).toHaveBeenCalledWith('Failed to read weather cache:', expect.anything());
+    consoleError.mockRestore();
+  });
+
+  describe('createWeatherCache', () => {
+    it('is disabled by a zero TTL', async () => {
+      expect(await createWeatherCache({ WEATHER_CACHE_TTL_MINUTES: '0' })).toBeNull();
+    });
+
+    it('rejects invalid TTLs', async () => {
+      await expect(createWeatherCache({ WEATHER_CACHE_TTL_MINUTES: 'soon' })).rejects.toThrow(
+        'WEATHER_CACHE_TTL_MINUTES must be a non-negative number'
+      );
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { addDays } from 'date-fns';
+import { and, eq, gte, lte, sql } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import { weatherCache } from '@/lib/schema';
+import { eachDay, formatDay, parseDay } from './dates';
+import type { GeoLocation, WeatherCacheStats, WeatherData, WeatherProvider } from './types';
+
+/**
+ * Default time-to-live for cached forecast days
+ */
+const DEFAULT_TTL_MINUTES = 60;
+
+export interface WeatherCacheOptions {
+  db: LibSQLDatabase<typeof import('../schema')>;
+  /** How long a fetched day stays fresh (default: 60 minutes) */
+  ttlSeconds?: number;
+  now?: () => Date;
+}
+
+/**
+ * Weather cache - stores forecast days in SQLite, keyed by location and day
+ *
+ * Only the days that are missing or expired are fetched, as contiguous
+ * sub-ranges, so overlapping queries reuse what earlier ones fetched.
+ */
+export class WeatherCache {
+  private readonly db: WeatherCacheOptions['db'];
+  private readonly ttlSeconds: number;
+  private readonly now: () => Date;
+
+  constructor(options: WeatherCacheOptions) {
+    this.db = options.db;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_MINUTES * 60;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Get a forecast through the cache, fetching uncached days from the provider
+   */
+  async getForecast(
+    provider: WeatherProvider,
+    location: GeoLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<{ forecast: WeatherData[]; cache: WeatherCacheStats }> {
+    const key = toLocationKey(location);
+    const days = eachDay(startDate, endDate);
+    const cached = await this.read(key, provider.name, startDate, endDate);
+
+    const missing = days.filter((day) => !cached.has(day));
+    for (const [rangeStart, rangeEnd] of toRanges(missing)) {
+      const fetched = await provider.getForecast(location, rangeStart, rangeEnd);
+      for (const day of fetched) {
+        cached.set(day.date, day);
+      }
+      await this.write(key, provider.name, fetched);
+    }
+
+    const hits = days.length - missing.length;
+    return {
+      forecast: days.map((day) => cached.get(day)!),
+      cache: {
+        status: missing.length === 0 ? 'hit' : hits === 0 ? 'miss' : 'partial',
+        hits,
+        misses: missing.length,
+      },
+    };
+  }
+
+  /**
+   * Load fresh cached days, keyed by date. Read failures count as misses
+   */
+  private async read(
+    key: string,
+    provider: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, WeatherData>> {
+    const freshSince = new Date(this.now().getTime() - this.ttlSeconds * 1000);
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(weatherCache)
+        .where(
+          and(
+            eq(weatherCache.locationKey, key),
+            eq(weatherCache.provider, provider),
+            gte(weatherCache.date, startDate),
+            lte(weatherCache.date, endDate),
+            gte(weatherCache.fetchedAt, freshSince)
+          )
+        );
+
+      return new Map(rows.map((row) => [row.date, row.data]));
+    } catch (error) {
+      console.error('Failed to read weather cache:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Store fetched days, replacing expired entries. Write failures are logged only
+   */
+  private async write(key: string, provider: string, days: WeatherData[]): Promise<void> {
+    if (days.length === 0) return;
+
+    try {
+      await this.db
+        .insert(weatherCache)
+        .values(
+          days.map((day) => ({
+            locationKey: key,
+            date: day.date,
+            provider,
+            data: day,
+            fetchedAt: this.now(),
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [weatherCache.locationKey, weatherCache.date, weatherCache.provider],
+          set: { data: sql`excluded.data`, fetchedAt: sql`excluded.fetched_at` },
+        });
+    } catch (error) {
+      console.error('Failed to write weather cache:', error);
+    }
+  }
+}
+
+/**
+ * Create the app's weather cache from environment variables, or null when disabled
+ *
+ * - WEATHER_CACHE_TTL_MINUTES: Freshness window (default: 60, 0 disables caching)
+ */
+export async function createWeatherCache(
+  env: Record<string, string | undefined> = process.env
+): Promise<WeatherCache | null> {
+  const ttlMinutes = env.WEATHER_CACHE_TTL_MINUTES?.trim()
+    ? Number(env.WEATHER_CACHE_TTL_MINUTES)
+    : DEFAULT_TTL_MINUTES;
+
+  if (!Number.isFinite(ttlMinutes) || ttlMinutes < 0) {
+    throw new Error('WEATHER_CACHE_TTL_MINUTES must be a non-negative number');
+  }
+
+  if (ttlMinutes === 0) {
+    return null;
+  }
+
+  // Imported lazily so using lib/weather doesn't open the database file
+  const { db } = await import('@/lib/db');
+  return new WeatherCache({ db, ttlSeconds: ttlMinutes * 60 });
+}
+
+/**
+ * Normalize a location to its coordinates, rounded to ~100m, so different
+ * spellings of the same place share cache entries
+ */
+function toLocationKey(location: GeoLocation): string {
+  return `${location.latitude.toFixed(3)},${location.longitude.toFixed(3)}`;
+}
+
+/**
+ * Group sorted days into contiguous [start, end] ranges
+ */
+function toRanges(days: string[]): Array<[string, string]> {
+  const ranges: Array<[string, string]> = [];
+
+  for (const day of days) {
+    const last = ranges[ranges.length - 1];
+    if (last && formatDay(addDays(parseDay(last[1])!, 1)) === day) {
+      last[1] = day;
+    } else {
+      ranges.push([day, day]);
+    }
+  }
+
+  return ranges;
+}
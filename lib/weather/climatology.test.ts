@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { findClimateStation, getClimatology } from './climatology';
+import type { GeoLocation } from './types';
+
+const place = (name: string, latitude: number, longitude: number): GeoLocation => ({
+  name,
+  latitude,
+  longitude,
+  timezone: 'UTC',
+});
+
+describe('findClimateStation', () => {
+  it('finds the station for a city', () => {
+    expect(findClimateStation(place('Lisbon', 38.7223, -9.1393))?.name).toBe('Lisbon');
+  });
+
+  it('uses the nearest station for places nearby', () => {
+    expect(findClimateStation(place('Versailles', 48.8049, 2.1204))?.name).toBe('Paris');
+  });
+
+  it('finds nothing far from every station', () => {
+    expect(findClimateStation(place('Mid-Atlantic', 30, -40))).toBeUndefined();
+  });
+});
+
+describe('getClimatology', () => {
+  it('returns monthly normals for each day, marked as climatology', () => {
+    const days = getClimatology(place('Lisbon', 38.7223, -9.1393), '2025-07-31', '2025-08-01');
+
+    expect(days).toEqual([
+      {
+        date: '2025-07-31',
+        temperature: { high: 28, low: 18, unit: 'C' },
+        conditions: 'Usually dry',
+        precipitation: 3,
+        precipitationAmount: { amount: 0.2, unit: 'mm' },
+        humidity: 62,
+        wind: null,
+        uvIndex: 10,
+        source: 'climatology',
+      },
+      {
+        date: '2025-08-01',
+        temperature: { high: 28, low: 19, unit: 'C' },
+        conditions: 'Usually dry',
+        precipitation: 3,
+        precipitationAmount: { amount: 0.2, unit: 'mm' },
+        humidity: 62,
+        wind: null,
+        uvIndex: 10,
+        source: 'climatology',
+      },
+    ]);
+  });
+
+  it('turns rainy days into a chance of precipitation', () => {
+    const [day] = getClimatology(place('Singapore', 1.3521, 103.8198), '2025-11-15', '2025-11-15')!;
+
+    // 19 rainy days out of 30
+    expect(day.precipitation).toBe(63);
+    expect(day.conditions).toBe('Rain most days');
+  });
+
+  it('spreads the monthly precipitation total over the days', () => {
+    const [day] = getClimatology(place('Mumbai', 19.076, 72.8777), '2025-07-15', '2025-07-15')!;
+
+    // 840mm over 31 days
+    expect(day.precipitationAmount).toEqual({ amount: 27.1, unit: 'mm' });
+  });
+
+  it('estimates a higher UV index when the sun is higher', () => {
+    const oslo = place('Oslo', 59.9139, 10.7522);
+    const [winter] = getClimatology(oslo, '2025-12-15', '2025-12-15')!;
+    const [summer] = getClimatology(oslo, '2025-06-15', '2025-06-15')!;
+
+    expect(winter.uvIndex).toBe(0);
+    expect(summer.uvIndex).toBeGreaterThan(4);
+  });
+
+  it('mentions snow when nights are freezing', () => {
+    const [day] = getClimatology(place('Montreal', 45.5019, -73.5674), '2025-01-15', '2025-01-15')!;
+
+    expect(day.conditions).toBe('Frequent rain or snow');
+  });
+
+  it('returns null without a nearby station', () => {
+    expect(getClimatology(place('Mid-Atlantic', 30, -40), '2025-01-01', '2025-01-02')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { getDayOfYear, getDaysInMonth } from 'date-fns';
+import { CLIMATE_STATIONS, type ClimateStation } from './data/climate-normals';
+import { eachDay, parseDay } from './dates';
+import { distanceKm } from './geocoding';
+import type { GeoLocation, WeatherData } from './types';
+
+/**
+ * How far a location may be from a climate station and still use its normals
+ */
+const MAX_STATION_KM = 150;
+
+/**
+ * Find the closest climate station to a location, if one is close enough
+ */
+export function findClimateStation(location: GeoLocation): ClimateStation | undefined {
+  let nearest: ClimateStation | undefined;
+  let nearestKm = MAX_STATION_KM;
+
+  for (const station of CLIMATE_STATIONS) {
+    const km = distanceKm(
+      location.latitude,
+      location.longitude,
+      station.latitude,
+      station.longitude
+    );
+    if (km <= nearestKm) {
+      nearest = station;
+      nearestKm = km;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Typical weather for each day of a range, from the nearest station's monthly normals
+ *
+ * Returns null when no station is close enough to the location.
+ */
+export function getClimatology(
+  location: GeoLocation,
+  startDate: string,
+  endDate: string
+): WeatherData[] | null {
+  const station = findClimateStation(location);
+  if (!station) {
+    return null;
+  }
+
+  return eachDay(startDate, endDate).map((date) => {
+    const day = parseDay(date)!;
+    const month = day.getMonth();
+    const low = station.low[month];
+    const daysInMonth = getDaysInMonth(day);
+    const precipitation = Math.round((station.rainyDays[month] / daysInMonth) * 100);
+
+    return {
+      date,
+      temperature: { high: station.high[month], low, unit: 'C' },
+      conditions: describeClimate(precipitation, low),
+      precipitation,
+      precipitationAmount: {
+        amount: Math.round((station.precipitation[month] / daysInMonth) * 10) / 10,
+        unit: 'mm',
+      },
+      humidity: station.humidity[month],
+      wind: null,
+      uvIndex: estimateUvIndex(location.latitude, day, precipitation),
+      source: 'climatology',
+    };
+  });
+}
+
+/**
+ * Estimate the midday UV index from the sun's height, reduced for cloudy climates
+ *
+ * Uses the clear-sky approximation UVI = 12.5 * cos(zenith)^2.42.
+ */
+function estimateUvIndex(latitude: number, day: Date, precipitation: number): number {
+  const declination = 23.44 * Math.sin((2 * Math.PI * (284 + getDayOfYear(day))) / 365);
+  const zenith = (Math.min(Math.abs(latitude - declination), 90) * Math.PI) / 180;
+  const clearSky = 12.5 * Math.cos(zenith) ** 2.42;
+
+  // Rainy days are mostly overcast, which roughly halves UV
+  return Math.round(clearSky * (1 - precipitation / 200));
+}
+
+/**
+ * Summarize how often it rains (or snows, on freezing nights) in words
+ */
+function describeClimate(precipitation: number, low: number): string {
+  const wet = low <= 0 ? 'rain or snow' : 'rain';
+
+  if (precipitation < 15) return 'Usually dry';
+  if (precipitation < 35) return `Occasional ${wet}`;
+  if (precipitation < 60) return `Frequent ${wet}`;
+  return `${wet[0].toUpperCase()}${wet.slice(1)} most days`;
+}
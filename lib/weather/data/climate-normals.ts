@@ -0,0 +1,755 @@
+/**
+ * Monthly climate normals used beyond the forecast horizon
+ *
+ * Approximate 1991-2020 averages for the main gazetteer destinations.
+ * Each array runs January to December:
+ * - high / low: average daily maximum / minimum temperature (°C)
+ * - rainyDays: days with at least 1mm of precipitation
+ * - precipitation: monthly precipitation total (mm)
+ * - humidity: average relative humidity (%)
+ */
+
+export interface ClimateStation {
+  name: string;
+  latitude: number;
+  longitude: number;
+  high: number[];
+  low: number[];
+  rainyDays: number[];
+  precipitation: number[];
+  humidity: number[];
+}
+
+export const CLIMATE_STATIONS: ClimateStation[] = [
+  // Europe
+  {
+    name: 'Paris',
+    latitude: 48.8566,
+    longitude: 2.3522,
+    high: [7, 8, 12, 16, 20, 23, 25, 25, 21, 16, 11, 8],
+    low: [3, 3, 5, 7, 11, 14, 16, 16, 13, 10, 6, 3],
+    rainyDays: [10, 9, 10, 9, 9, 8, 7, 7, 8, 10, 10, 11],
+    precipitation: [51, 41, 48, 52, 63, 50, 62, 53, 48, 62, 52, 58],
+    humidity: [83, 78, 73, 69, 70, 69, 68, 71, 76, 82, 84, 85],
+  },
+  {
+    name: 'Nice',
+    latitude: 43.7102,
+    longitude: 7.262,
+    high: [13, 14, 16, 18, 21, 25, 28, 28, 25, 21, 17, 14],
+    low: [5, 6, 8, 10, 14, 17, 20, 20, 17, 13, 9, 6],
+    rainyDays: [6, 5, 5, 7, 5, 4, 2, 3, 5, 6, 7, 6],
+    precipitation: [69, 45, 42, 60, 43, 31, 12, 18, 72, 135, 111, 80],
+    humidity: [68, 67, 69, 71, 73, 72, 71, 71, 71, 71, 70, 68],
+  },
+  {
+    name: 'London',
+    latitude: 51.5072,
+    longitude: -0.1276,
+    high: [8, 9, 11, 15, 18, 21, 23, 23, 20, 16, 11, 9],
+    low: [2, 2, 4, 6, 9, 12, 14, 14, 11, 9, 5, 3],
+    rainyDays: [11, 9, 9, 9, 8, 8, 7, 8, 8, 10, 10, 10],
+    precipitation: [55, 41, 42, 44, 49, 45, 45, 50, 49, 69, 59, 55],
+    humidity: [80, 77, 73, 68, 68, 67, 66, 69, 73, 78, 81, 82],
+  },
+  {
+    name: 'Edinburgh',
+    latitude: 55.9533,
+    longitude: -3.1883,
+    high: [7, 8, 10, 12, 15, 17, 19, 19, 17, 13, 10, 7],
+    low: [1, 1, 2, 4, 6, 9, 11, 11, 9, 6, 3, 1],
+    rainyDays: [11, 9, 9, 8, 9, 9, 9, 9, 9, 11, 11, 11],
+    precipitation: [67, 47, 52, 42, 50, 58, 65, 69, 59, 80, 68, 65],
+    humidity: [84, 82, 80, 78, 77, 77, 79, 80, 81, 83, 85, 85],
+  },
+  {
+    name: 'Dublin',
+    latitude: 53.3498,
+    longitude: -6.2603,
+    high: [8, 9, 11, 13, 15, 18, 20, 19, 17, 14, 10, 8],
+    low: [2, 2, 3, 4, 7, 10, 12, 11, 10, 7, 4, 3],
+    rainyDays: [12, 10, 10, 9, 10, 9, 9, 10, 9, 11, 11, 12],
+    precipitation: [63, 49, 51, 51, 57, 60, 57, 71, 58, 80, 76, 73],
+    humidity: [85, 82, 79, 76, 75, 76, 78, 80, 81, 84, 86, 87],
+  },
+  {
+    name: 'Berlin',
+    latitude: 52.52,
+    longitude: 13.405,
+    high: [3, 5, 9, 15, 19, 22, 24, 24, 19, 14, 8, 4],
+    low: [-2, -2, 1, 4, 8, 12, 14, 13, 10, 6, 2, -1],
+    rainyDays: [10, 8, 9, 8, 9, 9, 9, 8, 8, 8, 9, 10],
+    precipitation: [42, 33, 34, 28, 57, 55, 73, 60, 46, 37, 44, 46],
+    humidity: [85, 82, 77, 70, 69, 69, 70, 72, 78, 82, 86, 87],
+  },
+  {
+    name: 'Madrid',
+    latitude: 40.4168,
+    longitude: -3.7038,
+    high: [10, 12, 16, 18, 22, 28, 32, 31, 26, 19, 13, 10],
+    low: [3, 4, 6, 8, 12, 17, 20, 20, 16, 11, 6, 4],
+    rainyDays: [6, 5, 4, 6, 5, 2, 1, 1, 3, 6, 6, 7],
+    precipitation: [33, 35, 24, 45, 45, 20, 11, 10, 26, 56, 56, 47],
+    humidity: [71, 64, 56, 56, 52, 43, 37, 39, 50, 64, 70, 74],
+  },
+  {
+    name: 'Barcelona',
+    latitude: 41.3874,
+    longitude: 2.1686,
+    high: [14, 15, 17, 19, 22, 26, 29, 29, 26, 22, 17, 14],
+    low: [5, 6, 8, 10, 14, 17, 20, 21, 18, 14, 9, 6],
+    rainyDays: [4, 4, 4, 6, 5, 4, 2, 4, 5, 6, 5, 5],
+    precipitation: [41, 29, 42, 49, 59, 42, 20, 61, 85, 91, 58, 40],
+    humidity: [69, 67, 68, 69, 70, 69, 68, 70, 72, 71, 70, 69],
+  },
+  {
+    name: 'Lisbon',
+    latitude: 38.7223,
+    longitude: -9.1393,
+    high: [15, 16, 19, 20, 22, 26, 28, 28, 27, 23, 18, 16],
+    low: [8, 9, 11, 12, 14, 17, 18, 19, 18, 15, 12, 10],
+    rainyDays: [10, 9, 7, 9, 6, 2, 1, 1, 3, 8, 10, 11],
+    precipitation: [100, 90, 60, 70, 55, 15, 5, 5, 30, 100, 130, 130],
+    humidity: [80, 77, 71, 69, 67, 64, 62, 62, 66, 72, 78, 81],
+  },
+  {
+    name: 'Rome',
+    latitude: 41.9028,
+    longitude: 12.4964,
+    high: [12, 13, 16, 19, 23, 28, 31, 31, 27, 22, 17, 13],
+    low: [3, 4, 6, 8, 12, 16, 19, 19, 16, 12, 8, 4],
+    rainyDays: [7, 7, 7, 7, 5, 3, 1, 2, 5, 7, 9, 8],
+    precipitation: [67, 73, 58, 81, 53, 34, 19, 37, 73, 113, 115, 81],
+    humidity: [75, 72, 70, 70, 69, 66, 63, 66, 70, 74, 77, 77],
+  },
+  {
+    name: 'Venice',
+    latitude: 45.4408,
+    longitude: 12.3155,
+    high: [6, 8, 13, 17, 22, 26, 29, 28, 24, 18, 12, 7],
+    low: [-1, 0, 4, 8, 12, 16, 18, 18, 14, 10, 5, 1],
+    rainyDays: [6, 5, 7, 9, 8, 8, 5, 6, 6, 7, 7, 6],
+    precipitation: [50, 50, 55, 70, 70, 80, 60, 70, 65, 70, 75, 55],
+    humidity: [81, 77, 75, 73, 72, 71, 69, 70, 74, 78, 80, 82],
+  },
+  {
+    name: 'Florence',
+    latitude: 43.7696,
+    longitude: 11.2558,
+    high: [10, 12, 16, 19, 24, 28, 32, 32, 27, 21, 15, 11],
+    low: [2, 2, 5, 8, 11, 15, 18, 18, 15, 11, 6, 3],
+    rainyDays: [8, 7, 8, 9, 8, 5, 3, 4, 6, 8, 10, 9],
+    precipitation: [70, 65, 70, 80, 70, 55, 35, 45, 75, 95, 110, 85],
+    humidity: [78, 74, 71, 71, 69, 66, 62, 63, 68, 75, 80, 80],
+  },
+  {
+    name: 'Amsterdam',
+    latitude: 52.3676,
+    longitude: 4.9041,
+    high: [6, 7, 10, 14, 17, 20, 22, 22, 19, 15, 10, 7],
+    low: [1, 1, 3, 5, 8, 11, 13, 13, 11, 8, 4, 2],
+    rainyDays: [12, 10, 11, 9, 9, 9, 10, 10, 11, 12, 13, 12],
+    precipitation: [70, 55, 60, 40, 55, 65, 75, 80, 85, 85, 85, 80],
+    humidity: [87, 84, 80, 74, 73, 75, 76, 77, 81, 84, 87, 88],
+  },
+  {
+    name: 'Zürich',
+    latitude: 47.3769,
+    longitude: 8.5417,
+    high: [3, 5, 10, 14, 19, 22, 24, 24, 19, 14, 8, 4],
+    low: [-2, -2, 1, 4, 8, 12, 14, 13, 10, 6, 2, -1],
+    rainyDays: [9, 8, 10, 10, 12, 11, 11, 10, 8, 8, 9, 10],
+    precipitation: [65, 60, 70, 80, 110, 120, 120, 115, 85, 80, 75, 75],
+    humidity: [83, 78, 72, 69, 71, 71, 72, 74, 80, 84, 84, 84],
+  },
+  {
+    name: 'Vienna',
+    latitude: 48.2082,
+    longitude: 16.3738,
+    high: [3, 5, 10, 16, 21, 24, 26, 26, 20, 14, 8, 4],
+    low: [-2, -1, 2, 6, 11, 14, 16, 16, 12, 7, 3, 0],
+    rainyDays: [7, 7, 8, 7, 8, 9, 9, 8, 7, 6, 7, 8],
+    precipitation: [40, 40, 55, 50, 75, 75, 80, 70, 65, 40, 50, 50],
+    humidity: [79, 74, 67, 61, 62, 63, 62, 64, 71, 77, 81, 81],
+  },
+  {
+    name: 'Prague',
+    latitude: 50.0755,
+    longitude: 14.4378,
+    high: [1, 3, 8, 14, 19, 22, 24, 24, 19, 13, 6, 2],
+    low: [-4, -3, 0, 3, 8, 11, 13, 13, 9, 5, 1, -2],
+    rainyDays: [7, 6, 7, 6, 8, 9, 9, 8, 6, 6, 7, 7],
+    precipitation: [25, 25, 30, 35, 65, 70, 75, 70, 45, 30, 35, 30],
+    humidity: [84, 80, 74, 68, 69, 69, 69, 70, 76, 81, 85, 86],
+  },
+  {
+    name: 'Budapest',
+    latitude: 47.4979,
+    longitude: 19.0402,
+    high: [2, 5, 11, 17, 22, 25, 27, 27, 22, 16, 8, 3],
+    low: [-3, -2, 2, 6, 11, 14, 16, 16, 12, 7, 3, -1],
+    rainyDays: [7, 6, 6, 6, 8, 8, 7, 6, 6, 5, 7, 7],
+    precipitation: [35, 35, 30, 45, 65, 65, 55, 60, 45, 40, 55, 45],
+    humidity: [83, 78, 69, 63, 63, 63, 61, 63, 70, 76, 83, 85],
+  },
+  {
+    name: 'Copenhagen',
+    latitude: 55.6761,
+    longitude: 12.5683,
+    high: [3, 3, 6, 11, 16, 19, 22, 22, 17, 12, 8, 4],
+    low: [-1, -1, 0, 3, 7, 11, 14, 13, 10, 7, 3, 1],
+    rainyDays: [10, 8, 8, 7, 7, 8, 8, 9, 9, 10, 11, 11],
+    precipitation: [45, 35, 40, 35, 45, 55, 65, 70, 65, 65, 60, 55],
+    humidity: [87, 84, 80, 74, 71, 71, 72, 74, 79, 83, 86, 88],
+  },
+  {
+    name: 'Stockholm',
+    latitude: 59.3293,
+    longitude: 18.0686,
+    high: [-1, -1, 3, 9, 16, 20, 23, 21, 16, 10, 5, 1],
+    low: [-5, -5, -3, 1, 6, 11, 14, 13, 9, 5, 1, -3],
+    rainyDays: [9, 7, 7, 6, 6, 7, 8, 9, 8, 9, 10, 10],
+    precipitation: [40, 30, 30, 30, 35, 60, 70, 70, 55, 55, 55, 50],
+    humidity: [86, 83, 76, 67, 62, 65, 68, 73, 79, 84, 87, 88],
+  },
+  {
+    name: 'Oslo',
+    latitude: 59.9139,
+    longitude: 10.7522,
+    high: [-1, 0, 4, 10, 16, 20, 22, 21, 16, 9, 4, 0],
+    low: [-7, -7, -4, 1, 6, 10, 13, 12, 8, 3, -1, -5],
+    rainyDays: [9, 7, 8, 7, 8, 9, 10, 10, 9, 10, 10, 9],
+    precipitation: [55, 45, 40, 45, 60, 75, 80, 95, 85, 95, 85, 60],
+    humidity: [82, 78, 73, 65, 63, 66, 70, 74, 79, 82, 85, 85],
+  },
+  {
+    name: 'Reykjavík',
+    latitude: 64.1466,
+    longitude: -21.9426,
+    high: [2, 3, 3, 6, 9, 12, 14, 13, 10, 7, 4, 2],
+    low: [-3, -3, -2, 0, 4, 7, 9, 8, 5, 2, -1, -3],
+    rainyDays: [13, 12, 13, 11, 10, 10, 10, 11, 12, 13, 12, 14],
+    precipitation: [90, 85, 85, 60, 45, 50, 55, 65, 75, 90, 85, 90],
+    humidity: [78, 78, 77, 76, 75, 79, 80, 81, 79, 79, 79, 78],
+  },
+  {
+    name: 'Athens',
+    latitude: 37.9838,
+    longitude: 23.7275,
+    high: [14, 15, 17, 21, 26, 31, 34, 34, 29, 24, 19, 15],
+    low: [7, 7, 9, 12, 16, 21, 24, 24, 20, 16, 12, 9],
+    rainyDays: [9, 7, 7, 5, 3, 1, 1, 1, 2, 5, 7, 9],
+    precipitation: [55, 45, 45, 25, 15, 5, 5, 5, 10, 50, 60, 70],
+    humidity: [69, 68, 65, 60, 56, 49, 44, 45, 52, 61, 68, 71],
+  },
+  {
+    name: 'Istanbul',
+    latitude: 41.0082,
+    longitude: 28.9784,
+    high: [9, 9, 12, 16, 21, 26, 28, 29, 25, 20, 15, 11],
+    low: [3, 3, 5, 8, 13, 17, 20, 21, 17, 13, 9, 5],
+    rainyDays: [12, 10, 9, 6, 4, 3, 2, 2, 4, 7, 9, 12],
+    precipitation: [105, 80, 70, 45, 35, 35, 20, 35, 50, 90, 100, 125],
+    humidity: [76, 75, 72, 71, 73, 71, 70, 70, 71, 75, 76, 77],
+  },
+
+  // North America
+  {
+    name: 'New York',
+    latitude: 40.7128,
+    longitude: -74.006,
+    high: [4, 6, 10, 17, 22, 27, 29, 29, 25, 18, 12, 6],
+    low: [-3, -2, 2, 7, 12, 18, 21, 20, 17, 10, 5, 0],
+    rainyDays: [11, 10, 11, 11, 11, 10, 10, 9, 9, 9, 9, 11],
+    precipitation: [90, 80, 110, 100, 100, 110, 115, 105, 100, 110, 90, 100],
+    humidity: [61, 60, 58, 56, 61, 64, 64, 66, 67, 65, 64, 64],
+  },
+  {
+    name: 'Boston',
+    latitude: 42.3601,
+    longitude: -71.0589,
+    high: [2, 4, 8, 14, 19, 25, 28, 27, 23, 16, 11, 5],
+    low: [-6, -5, -1, 5, 10, 15, 18, 18, 14, 7, 3, -3],
+    rainyDays: [11, 10, 11, 11, 11, 10, 9, 9, 9, 9, 10, 11],
+    precipitation: [90, 85, 110, 95, 85, 95, 85, 85, 90, 100, 95, 105],
+    humidity: [63, 62, 63, 63, 67, 70, 69, 71, 72, 70, 68, 67],
+  },
+  {
+    name: 'Washington',
+    latitude: 38.9072,
+    longitude: -77.0369,
+    high: [6, 8, 13, 19, 24, 30, 32, 31, 27, 20, 14, 8],
+    low: [-2, -1, 3, 8, 13, 19, 22, 21, 17, 10, 5, 0],
+    rainyDays: [10, 9, 11, 10, 11, 10, 10, 9, 8, 8, 8, 10],
+    precipitation: [70, 70, 90, 80, 100, 95, 105, 95, 95, 85, 75, 85],
+    humidity: [62, 60, 57, 57, 63, 65, 66, 68, 69, 67, 64, 64],
+  },
+  {
+    name: 'Miami',
+    latitude: 25.7617,
+    longitude: -80.1918,
+    high: [24, 25, 26, 28, 30, 31, 32, 32, 31, 29, 27, 25],
+    low: [16, 17, 18, 21, 23, 25, 26, 26, 25, 23, 20, 17],
+    rainyDays: [7, 6, 6, 6, 10, 17, 17, 19, 18, 13, 8, 7],
+    precipitation: [50, 55, 70, 80, 130, 250, 165, 220, 230, 170, 80, 60],
+    humidity: [72, 70, 69, 67, 72, 76, 75, 77, 78, 75, 73, 72],
+  },
+  {
+    name: 'Chicago',
+    latitude: 41.8781,
+    longitude: -87.6298,
+    high: [0, 2, 9, 15, 21, 27, 29, 28, 24, 17, 9, 2],
+    low: [-8, -6, -1, 4, 10, 15, 19, 18, 14, 7, 1, -5],
+    rainyDays: [11, 9, 11, 12, 12, 11, 10, 9, 9, 10, 10, 11],
+    precipitation: [50, 45, 65, 90, 105, 100, 95, 100, 85, 80, 65, 55],
+    humidity: [72, 71, 68, 64, 65, 66, 69, 71, 71, 69, 73, 76],
+  },
+  {
+    name: 'New Orleans',
+    latitude: 29.9511,
+    longitude: -90.0715,
+    high: [17, 19, 23, 26, 30, 32, 33, 33, 31, 27, 22, 18],
+    low: [7, 9, 12, 16, 20, 23, 24, 24, 22, 17, 12, 9],
+    rainyDays: [9, 8, 8, 6, 7, 11, 13, 13, 9, 6, 7, 9],
+    precipitation: [130, 120, 110, 120, 120, 195, 160, 160, 135, 95, 115, 115],
+    humidity: [75, 73, 73, 73, 74, 75, 78, 78, 77, 74, 76, 76],
+  },
+  {
+    name: 'Denver',
+    latitude: 39.7392,
+    longitude: -104.9903,
+    high: [7, 8, 12, 16, 21, 28, 31, 30, 25, 18, 11, 6],
+    low: [-8, -7, -3, 1, 6, 11, 15, 14, 9, 2, -4, -8],
+    rainyDays: [4, 5, 7, 8, 10, 7, 8, 8, 6, 5, 4, 4],
+    precipitation: [10, 15, 25, 45, 55, 50, 55, 45, 25, 25, 15, 10],
+    humidity: [55, 56, 54, 50, 52, 48, 47, 49, 49, 48, 56, 56],
+  },
+  {
+    name: 'Las Vegas',
+    latitude: 36.1699,
+    longitude: -115.1398,
+    high: [14, 17, 21, 26, 31, 37, 40, 39, 34, 27, 19, 14],
+    low: [4, 6, 10, 14, 19, 24, 28, 27, 22, 15, 8, 3],
+    rainyDays: [3, 3, 2, 1, 1, 0, 2, 2, 1, 1, 1, 2],
+    precipitation: [15, 20, 15, 5, 5, 2, 10, 8, 8, 5, 8, 10],
+    humidity: [45, 40, 33, 25, 21, 16, 18, 22, 23, 28, 37, 45],
+  },
+  {
+    name: 'Los Angeles',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    high: [20, 20, 21, 22, 23, 25, 28, 29, 28, 26, 23, 20],
+    low: [9, 10, 11, 12, 14, 16, 18, 18, 17, 15, 11, 9],
+    rainyDays: [6, 6, 5, 3, 1, 0, 0, 0, 1, 2, 3, 5],
+    precipitation: [80, 90, 55, 20, 5, 2, 0, 0, 5, 15, 25, 55],
+    humidity: [62, 66, 69, 69, 72, 74, 73, 73, 71, 68, 63, 61],
+  },
+  {
+    name: 'San Francisco',
+    latitude: 37.7749,
+    longitude: -122.4194,
+    high: [14, 16, 17, 18, 19, 21, 21, 22, 23, 21, 17, 14],
+    low: [8, 9, 9, 10, 11, 12, 13, 14, 14, 12, 10, 8],
+    rainyDays: [11, 10, 9, 5, 3, 1, 0, 0, 1, 3, 7, 10],
+    precipitation: [110, 105, 75, 35, 15, 5, 0, 2, 5, 25, 70, 110],
+    humidity: [76, 76, 74, 71, 71, 71, 76, 76, 73, 71, 73, 75],
+  },
+  {
+    name: 'Seattle',
+    latitude: 47.6062,
+    longitude: -122.3321,
+    high: [8, 9, 12, 15, 18, 21, 25, 25, 22, 16, 10, 7],
+    low: [3, 3, 4, 6, 9, 11, 13, 14, 11, 8, 5, 2],
+    rainyDays: [18, 15, 17, 14, 11, 9, 5, 5, 8, 13, 18, 18],
+    precipitation: [140, 95, 95, 70, 50, 40, 15, 25, 40, 90, 160, 140],
+    humidity: [78, 75, 73, 71, 69, 67, 65, 68, 73, 78, 79, 80],
+  },
+  {
+    name: 'Portland',
+    latitude: 45.5152,
+    longitude: -122.6784,
+    high: [8, 10, 13, 16, 20, 23, 27, 28, 25, 18, 11, 8],
+    low: [2, 2, 4, 6, 9, 11, 14, 14, 11, 7, 4, 1],
+    rainyDays: [18, 16, 18, 16, 12, 9, 4, 4, 7, 12, 18, 18],
+    precipitation: [130, 95, 100, 75, 60, 40, 15, 15, 40, 80, 140, 140],
+    humidity: [81, 77, 73, 70, 68, 66, 63, 64, 68, 76, 81, 83],
+  },
+  {
+    name: 'Honolulu',
+    latitude: 21.3069,
+    longitude: -157.8583,
+    high: [27, 27, 28, 28, 29, 30, 31, 31, 31, 30, 29, 27],
+    low: [19, 19, 20, 21, 22, 23, 24, 24, 24, 23, 22, 20],
+    rainyDays: [8, 6, 8, 7, 5, 5, 6, 5, 6, 7, 8, 9],
+    precipitation: [55, 55, 55, 30, 25, 10, 15, 15, 20, 45, 60, 75],
+    humidity: [73, 71, 69, 67, 66, 64, 65, 64, 66, 68, 71, 72],
+  },
+  {
+    name: 'Toronto',
+    latitude: 43.6532,
+    longitude: -79.3832,
+    high: [-1, 0, 5, 12, 19, 24, 27, 26, 22, 14, 7, 2],
+    low: [-8, -7, -3, 3, 9, 14, 17, 16, 12, 6, 1, -4],
+    rainyDays: [12, 9, 10, 11, 12, 10, 10, 9, 10, 11, 11, 11],
+    precipitation: [60, 50, 55, 70, 80, 70, 75, 80, 75, 65, 85, 65],
+    humidity: [75, 72, 68, 63, 63, 65, 66, 69, 71, 72, 75, 77],
+  },
+  {
+    name: 'Montreal',
+    latitude: 45.5019,
+    longitude: -73.5674,
+    high: [-5, -3, 3, 12, 19, 24, 26, 25, 20, 13, 5, -2],
+    low: [-14, -12, -6, 1, 8, 13, 16, 15, 10, 4, -2, -10],
+    rainyDays: [14, 11, 11, 11, 12, 12, 12, 11, 11, 12, 13, 14],
+    precipitation: [85, 65, 70, 80, 80, 90, 95, 90, 90, 90, 95, 90],
+    humidity: [73, 70, 67, 61, 62, 67, 69, 72, 74, 73, 77, 78],
+  },
+  {
+    name: 'Vancouver',
+    latitude: 49.2827,
+    longitude: -123.1207,
+    high: [7, 8, 10, 13, 17, 19, 22, 22, 19, 14, 9, 6],
+    low: [1, 2, 3, 6, 9, 12, 14, 14, 11, 7, 3, 1],
+    rainyDays: [19, 15, 17, 14, 12, 10, 6, 6, 9, 15, 19, 19],
+    precipitation: [170, 120, 110, 85, 65, 55, 35, 35, 50, 120, 190, 180],
+    humidity: [86, 82, 78, 74, 72, 72, 71, 73, 78, 83, 86, 87],
+  },
+  {
+    name: 'Mexico City',
+    latitude: 19.4326,
+    longitude: -99.1332,
+    high: [22, 24, 26, 27, 27, 25, 23, 24, 23, 23, 23, 22],
+    low: [6, 7, 9, 11, 12, 13, 12, 12, 12, 10, 8, 7],
+    rainyDays: [2, 2, 4, 7, 11, 17, 21, 20, 18, 10, 4, 2],
+    precipitation: [10, 5, 10, 25, 55, 135, 165, 150, 130, 60, 10, 5],
+    humidity: [50, 45, 41, 42, 48, 60, 67, 68, 70, 64, 57, 54],
+  },
+  {
+    name: 'Cancún',
+    latitude: 21.1619,
+    longitude: -86.8515,
+    high: [28, 29, 30, 31, 32, 33, 33, 33, 33, 31, 30, 28],
+    low: [19, 19, 20, 22, 24, 25, 25, 25, 24, 23, 22, 20],
+    rainyDays: [8, 5, 4, 4, 6, 11, 9, 11, 15, 15, 10, 9],
+    precipitation: [90, 50, 40, 40, 100, 170, 110, 140, 220, 280, 110, 90],
+    humidity: [80, 79, 78, 79, 80, 82, 81, 81, 83, 83, 81, 80],
+  },
+
+  // South America
+  {
+    name: 'Rio de Janeiro',
+    latitude: -22.9068,
+    longitude: -43.1729,
+    high: [30, 31, 30, 28, 27, 26, 25, 26, 26, 27, 28, 29],
+    low: [23, 24, 23, 22, 20, 19, 18, 19, 19, 20, 21, 22],
+    rainyDays: [11, 8, 9, 9, 7, 6, 5, 5, 7, 9, 10, 11],
+    precipitation: [135, 130, 135, 95, 70, 50, 40, 45, 50, 85, 100, 170],
+    humidity: [79, 79, 80, 80, 80, 79, 77, 77, 79, 80, 79, 80],
+  },
+  {
+    name: 'São Paulo',
+    latitude: -23.5505,
+    longitude: -46.6333,
+    high: [28, 29, 28, 26, 24, 23, 23, 24, 25, 26, 27, 28],
+    low: [19, 19, 18, 17, 14, 13, 12, 13, 14, 16, 17, 18],
+    rainyDays: [16, 14, 12, 8, 7, 5, 5, 4, 7, 10, 11, 14],
+    precipitation: [290, 250, 200, 80, 70, 55, 50, 35, 85, 140, 150, 220],
+    humidity: [79, 78, 79, 78, 77, 77, 74, 71, 74, 76, 76, 78],
+  },
+  {
+    name: 'Buenos Aires',
+    latitude: -34.6037,
+    longitude: -58.3816,
+    high: [30, 29, 26, 23, 19, 16, 15, 17, 19, 22, 25, 28],
+    low: [21, 20, 18, 15, 11, 9, 8, 9, 11, 14, 16, 19],
+    rainyDays: [9, 8, 9, 9, 7, 7, 7, 7, 7, 10, 10, 9],
+    precipitation: [135, 125, 140, 115, 85, 65, 65, 65, 75, 125, 120, 120],
+    humidity: [64, 69, 72, 77, 78, 80, 79, 74, 71, 70, 67, 64],
+  },
+  {
+    name: 'Lima',
+    latitude: -12.0464,
+    longitude: -77.0428,
+    high: [26, 27, 26, 24, 22, 20, 19, 19, 19, 21, 22, 24],
+    low: [20, 21, 20, 18, 17, 16, 15, 15, 15, 16, 17, 19],
+    rainyDays: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    precipitation: [1, 1, 1, 0, 0, 1, 1, 1, 1, 0, 0, 0],
+    humidity: [80, 80, 81, 83, 84, 85, 85, 86, 85, 84, 82, 81],
+  },
+  {
+    name: 'Cusco',
+    latitude: -13.532,
+    longitude: -71.9675,
+    high: [19, 19, 19, 20, 20, 19, 19, 20, 20, 21, 21, 20],
+    low: [7, 7, 7, 5, 3, 1, 0, 2, 4, 6, 6, 7],
+    rainyDays: [19, 16, 14, 8, 3, 2, 2, 3, 6, 9, 12, 16],
+    precipitation: [160, 130, 110, 40, 10, 5, 5, 10, 25, 50, 80, 120],
+    humidity: [70, 72, 71, 66, 60, 56, 55, 56, 58, 60, 63, 68],
+  },
+
+  // Asia
+  {
+    name: 'Tokyo',
+    latitude: 35.6762,
+    longitude: 139.6503,
+    high: [10, 10, 14, 19, 23, 26, 30, 31, 27, 22, 17, 12],
+    low: [1, 2, 5, 10, 15, 19, 23, 24, 21, 15, 9, 4],
+    rainyDays: [5, 6, 10, 10, 11, 12, 11, 8, 11, 10, 7, 5],
+    precipitation: [60, 55, 115, 130, 140, 165, 155, 155, 225, 235, 95, 60],
+    humidity: [52, 53, 56, 62, 69, 75, 76, 74, 75, 71, 64, 56],
+  },
+  {
+    name: 'Kyoto',
+    latitude: 35.0116,
+    longitude: 135.7681,
+    high: [9, 10, 14, 20, 25, 28, 32, 34, 29, 23, 17, 12],
+    low: [1, 1, 4, 9, 14, 19, 23, 24, 20, 13, 7, 3],
+    rainyDays: [7, 8, 11, 10, 11, 13, 12, 8, 10, 8, 7, 7],
+    precipitation: [55, 70, 115, 120, 160, 215, 225, 135, 175, 120, 70, 55],
+    humidity: [67, 65, 62, 61, 65, 72, 75, 72, 72, 71, 70, 68],
+  },
+  {
+    name: 'Seoul',
+    latitude: 37.5665,
+    longitude: 126.978,
+    high: [2, 5, 11, 18, 24, 28, 29, 30, 26, 20, 12, 4],
+    low: [-6, -4, 1, 7, 13, 18, 22, 23, 18, 11, 4, -3],
+    rainyDays: [6, 5, 7, 8, 9, 10, 16, 13, 9, 6, 8, 7],
+    precipitation: [15, 25, 45, 75, 95, 130, 415, 350, 140, 50, 50, 20],
+    humidity: [59, 57, 57, 56, 62, 68, 78, 76, 70, 66, 63, 61],
+  },
+  {
+    name: 'Beijing',
+    latitude: 39.9042,
+    longitude: 116.4074,
+    high: [2, 6, 13, 21, 27, 31, 31, 30, 26, 19, 10, 3],
+    low: [-8, -5, 1, 8, 14, 19, 22, 21, 15, 8, 0, -6],
+    rainyDays: [2, 2, 3, 4, 6, 9, 13, 11, 7, 4, 2, 1],
+    precipitation: [2, 5, 10, 25, 35, 80, 170, 140, 50, 25, 10, 2],
+    humidity: [43, 42, 40, 42, 50, 60, 74, 77, 68, 60, 55, 46],
+  },
+  {
+    name: 'Shanghai',
+    latitude: 31.2304,
+    longitude: 121.4737,
+    high: [8, 10, 14, 20, 25, 28, 32, 32, 28, 23, 17, 11],
+    low: [2, 4, 7, 12, 17, 21, 26, 25, 22, 16, 10, 4],
+    rainyDays: [10, 10, 13, 12, 12, 14, 12, 11, 10, 7, 8, 8],
+    precipitation: [75, 60, 95, 80, 90, 225, 145, 215, 90, 60, 55, 45],
+    humidity: [74, 75, 75, 75, 75, 81, 80, 80, 78, 73, 73, 71],
+  },
+  {
+    name: 'Hong Kong',
+    latitude: 22.3193,
+    longitude: 114.1694,
+    high: [19, 19, 22, 26, 29, 31, 32, 32, 31, 28, 25, 21],
+    low: [15, 15, 18, 21, 25, 27, 27, 27, 26, 24, 20, 16],
+    rainyDays: [5, 8, 10, 11, 15, 19, 17, 16, 13, 6, 4, 4],
+    precipitation: [30, 40, 55, 135, 300, 450, 325, 400, 275, 120, 30, 30],
+    humidity: [74, 80, 82, 83, 83, 82, 80, 80, 77, 72, 70, 69],
+  },
+  {
+    name: 'Singapore',
+    latitude: 1.3521,
+    longitude: 103.8198,
+    high: [30, 31, 32, 32, 32, 31, 31, 31, 31, 31, 31, 30],
+    low: [23, 24, 24, 25, 25, 25, 25, 25, 24, 24, 24, 23],
+    rainyDays: [15, 11, 14, 15, 14, 13, 13, 14, 14, 16, 19, 19],
+    precipitation: [220, 110, 170, 160, 160, 135, 145, 145, 155, 170, 255, 285],
+    humidity: [84, 82, 83, 85, 84, 82, 82, 82, 83, 84, 87, 87],
+  },
+  {
+    name: 'Bangkok',
+    latitude: 13.7563,
+    longitude: 100.5018,
+    high: [32, 33, 34, 35, 34, 33, 33, 33, 32, 32, 32, 31],
+    low: [22, 24, 26, 27, 27, 26, 26, 26, 25, 25, 24, 22],
+    rainyDays: [2, 3, 4, 6, 16, 18, 19, 21, 22, 16, 5, 1],
+    precipitation: [15, 25, 40, 80, 205, 160, 165, 210, 330, 240, 50, 10],
+    humidity: [69, 71, 72, 73, 75, 75, 76, 77, 80, 79, 73, 67],
+  },
+  {
+    name: 'Hanoi',
+    latitude: 21.0278,
+    longitude: 105.8342,
+    high: [20, 20, 23, 28, 32, 33, 33, 32, 31, 29, 26, 22],
+    low: [14, 16, 18, 22, 25, 26, 27, 26, 25, 22, 19, 16],
+    rainyDays: [9, 11, 15, 13, 14, 15, 16, 17, 13, 9, 7, 6],
+    precipitation: [20, 25, 45, 90, 190, 240, 290, 320, 265, 130, 45, 15],
+    humidity: [80, 84, 88, 88, 84, 81, 82, 85, 84, 81, 80, 80],
+  },
+  {
+    name: 'Ho Chi Minh City',
+    latitude: 10.8231,
+    longitude: 106.6297,
+    high: [32, 33, 34, 35, 34, 33, 32, 32, 32, 31, 31, 31],
+    low: [21, 22, 23, 25, 25, 25, 24, 24, 24, 23, 23, 22],
+    rainyDays: [2, 1, 2, 5, 17, 22, 23, 22, 23, 20, 11, 4],
+    precipitation: [15, 5, 10, 50, 210, 290, 295, 260, 325, 265, 115, 50],
+    humidity: [72, 70, 70, 72, 79, 82, 83, 83, 85, 84, 80, 76],
+  },
+  {
+    name: 'Kuala Lumpur',
+    latitude: 3.139,
+    longitude: 101.6869,
+    high: [32, 33, 33, 33, 33, 33, 32, 32, 32, 32, 32, 32],
+    low: [23, 23, 24, 24, 24, 24, 23, 24, 24, 24, 24, 23],
+    rainyDays: [12, 11, 15, 17, 14, 10, 10, 11, 14, 18, 20, 16],
+    precipitation: [170, 170, 260, 290, 220, 130, 130, 160, 200, 270, 320, 250],
+    humidity: [80, 79, 80, 82, 81, 79, 78, 79, 80, 82, 84, 83],
+  },
+  {
+    name: 'Denpasar',
+    latitude: -8.6705,
+    longitude: 115.2126,
+    high: [31, 31, 31, 32, 31, 30, 30, 30, 31, 32, 32, 31],
+    low: [24, 24, 24, 24, 24, 23, 23, 23, 23, 24, 24, 24],
+    rainyDays: [16, 14, 12, 6, 5, 4, 4, 2, 3, 6, 10, 15],
+    precipitation: [345, 275, 235, 90, 90, 55, 55, 25, 45, 65, 180, 285],
+    humidity: [82, 82, 81, 79, 78, 77, 76, 76, 75, 76, 78, 81],
+  },
+  {
+    name: 'Mumbai',
+    latitude: 19.076,
+    longitude: 72.8777,
+    high: [31, 32, 33, 33, 34, 32, 30, 30, 31, 33, 34, 33],
+    low: [17, 18, 21, 24, 27, 26, 25, 25, 24, 23, 21, 19],
+    rainyDays: [0, 0, 0, 0, 1, 14, 22, 21, 13, 3, 1, 0],
+    precipitation: [1, 1, 0, 1, 15, 500, 840, 540, 330, 80, 20, 5],
+    humidity: [61, 62, 64, 70, 71, 80, 86, 86, 83, 75, 65, 60],
+  },
+  {
+    name: 'Delhi',
+    latitude: 28.7041,
+    longitude: 77.1025,
+    high: [21, 24, 30, 36, 40, 39, 35, 34, 34, 33, 28, 23],
+    low: [8, 10, 15, 21, 26, 28, 27, 27, 25, 19, 13, 8],
+    rainyDays: [2, 2, 2, 2, 3, 6, 12, 12, 6, 1, 1, 1],
+    precipitation: [20, 20, 15, 10, 30, 75, 210, 230, 125, 15, 5, 10],
+    humidity: [68, 58, 47, 32, 33, 48, 71, 76, 70, 55, 57, 66],
+  },
+  {
+    name: 'Dubai',
+    latitude: 25.2048,
+    longitude: 55.2708,
+    high: [24, 25, 29, 33, 38, 40, 41, 41, 39, 35, 30, 26],
+    low: [14, 15, 18, 21, 25, 28, 30, 30, 27, 23, 19, 16],
+    rainyDays: [2, 2, 2, 1, 0, 0, 0, 0, 0, 0, 1, 2],
+    precipitation: [20, 35, 20, 5, 1, 0, 0, 0, 0, 1, 5, 15],
+    humidity: [65, 65, 63, 55, 53, 58, 56, 57, 60, 60, 61, 64],
+  },
+  {
+    name: 'Tel Aviv',
+    latitude: 32.0853,
+    longitude: 34.7818,
+    high: [18, 18, 20, 23, 26, 28, 30, 31, 30, 28, 24, 20],
+    low: [9, 10, 11, 14, 17, 21, 23, 24, 22, 19, 14, 11],
+    rainyDays: [10, 9, 6, 3, 1, 0, 0, 0, 0, 2, 6, 9],
+    precipitation: [120, 95, 60, 20, 5, 0, 0, 0, 1, 25, 75, 125],
+    humidity: [66, 67, 66, 67, 70, 73, 73, 72, 68, 64, 62, 64],
+  },
+
+  // Africa
+  {
+    name: 'Cairo',
+    latitude: 30.0444,
+    longitude: 31.2357,
+    high: [19, 21, 24, 28, 32, 34, 35, 34, 33, 30, 25, 21],
+    low: [9, 10, 12, 15, 18, 21, 22, 22, 21, 18, 14, 11],
+    rainyDays: [1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 1, 1],
+    precipitation: [5, 4, 4, 1, 0, 0, 0, 0, 0, 1, 3, 6],
+    humidity: [59, 54, 53, 47, 46, 49, 58, 61, 60, 60, 61, 61],
+  },
+  {
+    name: 'Marrakech',
+    latitude: 31.6295,
+    longitude: -7.9811,
+    high: [18, 20, 23, 25, 28, 33, 37, 37, 32, 28, 22, 19],
+    low: [6, 8, 10, 12, 14, 17, 20, 20, 18, 15, 10, 7],
+    rainyDays: [4, 4, 5, 4, 2, 1, 0, 1, 2, 4, 4, 4],
+    precipitation: [30, 35, 40, 35, 15, 5, 2, 3, 10, 25, 40, 30],
+    humidity: [67, 65, 62, 59, 57, 53, 47, 48, 54, 60, 64, 67],
+  },
+  {
+    name: 'Nairobi',
+    latitude: -1.2921,
+    longitude: 36.8219,
+    high: [26, 27, 27, 25, 24, 23, 22, 23, 25, 26, 24, 25],
+    low: [12, 12, 14, 15, 14, 12, 11, 11, 11, 13, 14, 13],
+    rainyDays: [5, 4, 8, 14, 9, 3, 3, 3, 3, 6, 13, 7],
+    precipitation: [60, 40, 80, 180, 120, 35, 20, 25, 25, 50, 150, 90],
+    humidity: [59, 56, 60, 70, 72, 70, 69, 66, 59, 57, 68, 66],
+  },
+  {
+    name: 'Cape Town',
+    latitude: -33.9249,
+    longitude: 18.4241,
+    high: [27, 27, 26, 23, 21, 19, 18, 19, 20, 22, 24, 26],
+    low: [16, 16, 15, 12, 10, 8, 7, 8, 9, 11, 13, 15],
+    rainyDays: [2, 2, 3, 6, 9, 10, 10, 10, 7, 5, 3, 2],
+    precipitation: [15, 15, 20, 50, 80, 90, 85, 75, 45, 30, 15, 15],
+    humidity: [71, 72, 74, 77, 79, 80, 80, 79, 77, 74, 71, 70],
+  },
+
+  // Oceania
+  {
+    name: 'Sydney',
+    latitude: -33.8688,
+    longitude: 151.2093,
+    high: [26, 26, 25, 23, 20, 18, 17, 18, 20, 22, 24, 25],
+    low: [19, 19, 18, 15, 12, 10, 8, 9, 11, 14, 16, 18],
+    rainyDays: [8, 9, 10, 8, 8, 9, 7, 6, 6, 7, 8, 8],
+    precipitation: [100, 120, 130, 125, 100, 130, 75, 80, 60, 75, 85, 80],
+    humidity: [65, 68, 67, 66, 65, 63, 57, 53, 55, 58, 62, 62],
+  },
+  {
+    name: 'Melbourne',
+    latitude: -37.8136,
+    longitude: 144.9631,
+    high: [26, 26, 24, 20, 17, 14, 14, 15, 17, 20, 22, 24],
+    low: [14, 15, 13, 11, 9, 7, 6, 7, 8, 9, 11, 13],
+    rainyDays: [6, 5, 6, 8, 9, 9, 10, 11, 10, 9, 8, 7],
+    precipitation: [45, 50, 40, 55, 55, 50, 45, 50, 55, 60, 60, 50],
+    humidity: [60, 61, 63, 68, 74, 77, 77, 72, 67, 63, 62, 60],
+  },
+  {
+    name: 'Brisbane',
+    latitude: -27.4698,
+    longitude: 153.0251,
+    high: [30, 29, 28, 27, 24, 22, 22, 23, 26, 27, 28, 29],
+    low: [21, 21, 20, 17, 14, 12, 10, 11, 14, 16, 18, 20],
+    rainyDays: [10, 11, 11, 7, 6, 5, 4, 3, 4, 6, 8, 9],
+    precipitation: [160, 160, 140, 90, 95, 70, 60, 45, 45, 75, 100, 130],
+    humidity: [66, 68, 67, 64, 63, 62, 57, 54, 55, 58, 62, 64],
+  },
+  {
+    name: 'Perth',
+    latitude: -31.9505,
+    longitude: 115.8605,
+    high: [31, 32, 30, 26, 22, 19, 18, 19, 20, 23, 27, 29],
+    low: [18, 18, 17, 14, 11, 9, 8, 8, 9, 11, 14, 16],
+    rainyDays: [1, 1, 2, 4, 8, 11, 13, 12, 9, 5, 3, 1],
+    precipitation: [15, 10, 20, 40, 90, 125, 145, 120, 75, 40, 20, 10],
+    humidity: [50, 50, 53, 60, 68, 74, 75, 72, 69, 62, 55, 51],
+  },
+  {
+    name: 'Auckland',
+    latitude: -36.8485,
+    longitude: 174.7633,
+    high: [24, 24, 23, 21, 18, 16, 15, 15, 17, 18, 20, 22],
+    low: [16, 16, 15, 13, 11, 9, 8, 8, 10, 11, 13, 15],
+    rainyDays: [8, 7, 8, 10, 12, 14, 15, 14, 12, 11, 9, 9],
+    precipitation: [75, 65, 90, 95, 110, 130, 140, 115, 100, 85, 80, 90],
+    humidity: [74, 76, 77, 79, 82, 84, 84, 81, 77, 75, 73, 74],
+  },
+  {
+    name: 'Queenstown',
+    latitude: -45.0312,
+    longitude: 168.6626,
+    high: [22, 22, 19, 15, 11, 8, 8, 10, 13, 16, 18, 20],
+    low: [10, 10, 8, 5, 2, 0, -1, 0, 3, 5, 7, 9],
+    rainyDays: [9, 8, 9, 9, 10, 10, 9, 9, 9, 10, 10, 10],
+    precipitation: [80, 70, 70, 70, 85, 70, 65, 70, 75, 85, 75, 85],
+    humidity: [64, 68, 71, 76, 81, 84, 84, 79, 72, 68, 65, 64],
+  },
+];
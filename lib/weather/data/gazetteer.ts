@@ -0,0 +1,229 @@
+/**
+ * Offline gazetteer used to geocode get_weather locations
+ *
+ * A hand-picked set of travel destinations, including towns that share a
+ * name with a bigger city so disambiguation can be exercised. Coordinates
+ * are city centres; populations are approximate and only used to rank
+ * candidates.
+ */
+
+export interface Country {
+  name: string;
+  /** Other names users write for the country, lowercase */
+  aliases?: string[];
+}
+
+export interface GazetteerEntry {
+  name: string;
+  /** Other names for the place, e.g. local spellings, lowercase */
+  aliases?: string[];
+  region?: string;
+  regionCode?: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  population: number;
+}
+
+export const COUNTRIES: Record<string, Country> = {
+  AE: { name: 'United Arab Emirates', aliases: ['uae', 'emirates'] },
+  AR: { name: 'Argentina' },
+  AT: { name: 'Austria' },
+  AU: { name: 'Australia' },
+  BE: { name: 'Belgium' },
+  BR: { name: 'Brazil', aliases: ['brasil'] },
+  CA: { name: 'Canada' },
+  CH: { name: 'Switzerland' },
+  CL: { name: 'Chile' },
+  CN: { name: 'China' },
+  CO: { name: 'Colombia' },
+  CR: { name: 'Costa Rica' },
+  CU: { name: 'Cuba' },
+  CZ: { name: 'Czechia', aliases: ['czech republic'] },
+  DE: { name: 'Germany', aliases: ['deutschland'] },
+  DK: { name: 'Denmark' },
+  EG: { name: 'Egypt' },
+  ES: { name: 'Spain', aliases: ['espana'] },
+  FI: { name: 'Finland' },
+  FR: { name: 'France' },
+  GB: {
+    name: 'United Kingdom',
+    aliases: ['uk', 'great britain', 'britain', 'england', 'scotland', 'wales'],
+  },
+  GR: { name: 'Greece' },
+  HK: { name: 'Hong Kong' },
+  HR: { name: 'Croatia' },
+  HU: { name: 'Hungary' },
+  ID: { name: 'Indonesia' },
+  IE: { name: 'Ireland' },
+  IL: { name: 'Israel' },
+  IN: { name: 'India' },
+  IS: { name: 'Iceland' },
+  IT: { name: 'Italy', aliases: ['italia'] },
+  JP: { name: 'Japan' },
+  KE: { name: 'Kenya' },
+  KR: { name: 'South Korea', aliases: ['korea'] },
+  MA: { name: 'Morocco' },
+  MX: { name: 'Mexico' },
+  MY: { name: 'Malaysia' },
+  NG: { name: 'Nigeria' },
+  NL: { name: 'Netherlands', aliases: ['the netherlands', 'holland'] },
+  NO: { name: 'Norway' },
+  NP: { name: 'Nepal' },
+  NZ: { name: 'New Zealand' },
+  PE: { name: 'Peru' },
+  PH: { name: 'Philippines' },
+  PL: { name: 'Poland' },
+  PT: { name: 'Portugal' },
+  QA: { name: 'Qatar' },
+  RU: { name: 'Russia' },
+  SE: { name: 'Sweden' },
+  SG: { name: 'Singapore' },
+  TH: { name: 'Thailand' },
+  TR: { name: 'Turkey', aliases: ['turkiye'] },
+  TW: { name: 'Taiwan' },
+  US: { name: 'United States', aliases: ['usa', 'us', 'united states of america', 'america'] },
+  VE: { name: 'Venezuela' },
+  VN: { name: 'Vietnam', aliases: ['viet nam'] },
+  ZA: { name: 'South Africa' },
+};
+
+export const PLACES: GazetteerEntry[] = [
+  // Europe
+  { name: 'Paris', countryCode: 'FR', region: 'Île-de-France', latitude: 48.8566, longitude: 2.3522, timezone: 'Europe/Paris', population: 2_103_000 },
+  { name: 'Nice', countryCode: 'FR', region: "Provence-Alpes-Côte d'Azur", latitude: 43.7102, longitude: 7.262, timezone: 'Europe/Paris', population: 342_000 },
+  { name: 'London', countryCode: 'GB', region: 'England', latitude: 51.5072, longitude: -0.1276, timezone: 'Europe/London', population: 8_982_000 },
+  { name: 'Manchester', countryCode: 'GB', region: 'England', latitude: 53.4808, longitude: -2.2426, timezone: 'Europe/London', population: 553_000 },
+  { name: 'Birmingham', countryCode: 'GB', region: 'England', latitude: 52.4862, longitude: -1.8904, timezone: 'Europe/London', population: 1_144_000 },
+  { name: 'Cambridge', countryCode: 'GB', region: 'England', latitude: 52.2053, longitude: 0.1218, timezone: 'Europe/London', population: 145_000 },
+  { name: 'Edinburgh', countryCode: 'GB', region: 'Scotland', latitude: 55.9533, longitude: -3.1883, timezone: 'Europe/London', population: 527_000 },
+  { name: 'Perth', countryCode: 'GB', region: 'Scotland', latitude: 56.395, longitude: -3.4308, timezone: 'Europe/London', population: 47_000 },
+  { name: 'Dublin', countryCode: 'IE', latitude: 53.3498, longitude: -6.2603, timezone: 'Europe/Dublin', population: 554_000 },
+  { name: 'Berlin', countryCode: 'DE', latitude: 52.52, longitude: 13.405, timezone: 'Europe/Berlin', population: 3_645_000 },
+  { name: 'Munich', aliases: ['munchen'], countryCode: 'DE', region: 'Bavaria', latitude: 48.1351, longitude: 11.582, timezone: 'Europe/Berlin', population: 1_488_000 },
+  { name: 'Madrid', countryCode: 'ES', latitude: 40.4168, longitude: -3.7038, timezone: 'Europe/Madrid', population: 3_223_000 },
+  { name: 'Barcelona', countryCode: 'ES', region: 'Catalonia', latitude: 41.3874, longitude: 2.1686, timezone: 'Europe/Madrid', population: 1_620_000 },
+  { name: 'Seville', aliases: ['sevilla'], countryCode: 'ES', region: 'Andalusia', latitude: 37.3891, longitude: -5.9845, timezone: 'Europe/Madrid', population: 688_000 },
+  { name: 'Valencia', countryCode: 'ES', region: 'Valencian Community', latitude: 39.4699, longitude: -0.3763, timezone: 'Europe/Madrid', population: 792_000 },
+  { name: 'Lisbon', aliases: ['lisboa'], countryCode: 'PT', latitude: 38.7223, longitude: -9.1393, timezone: 'Europe/Lisbon', population: 545_000 },
+  { name: 'Porto', countryCode: 'PT', latitude: 41.1579, longitude: -8.6291, timezone: 'Europe/Lisbon', population: 232_000 },
+  { name: 'Rome', aliases: ['roma'], countryCode: 'IT', region: 'Lazio', latitude: 41.9028, longitude: 12.4964, timezone: 'Europe/Rome', population: 2_873_000 },
+  { name: 'Milan', aliases: ['milano'], countryCode: 'IT', region: 'Lombardy', latitude: 45.4642, longitude: 9.19, timezone: 'Europe/Rome', population: 1_352_000 },
+  { name: 'Venice', aliases: ['venezia'], countryCode: 'IT', region: 'Veneto', latitude: 45.4408, longitude: 12.3155, timezone: 'Europe/Rome', population: 258_000 },
+  { name: 'Florence', aliases: ['firenze'], countryCode: 'IT', region: 'Tuscany', latitude: 43.7696, longitude: 11.2558, timezone: 'Europe/Rome', population: 367_000 },
+  { name: 'Amsterdam', countryCode: 'NL', latitude: 52.3676, longitude: 4.9041, timezone: 'Europe/Amsterdam', population: 872_000 },
+  { name: 'Brussels', aliases: ['bruxelles', 'brussel'], countryCode: 'BE', latitude: 50.8503, longitude: 4.3517, timezone: 'Europe/Brussels', population: 1_209_000 },
+  { name: 'Zürich', countryCode: 'CH', latitude: 47.3769, longitude: 8.5417, timezone: 'Europe/Zurich', population: 421_000 },
+  { name: 'Geneva', aliases: ['geneve', 'genf'], countryCode: 'CH', latitude: 46.2044, longitude: 6.1432, timezone: 'Europe/Zurich', population: 203_000 },
+  { name: 'Vienna', aliases: ['wien'], countryCode: 'AT', latitude: 48.2082, longitude: 16.3738, timezone: 'Europe/Vienna', population: 1_897_000 },
+  { name: 'Prague', aliases: ['praha'], countryCode: 'CZ', latitude: 50.0755, longitude: 14.4378, timezone: 'Europe/Prague', population: 1_309_000 },
+  { name: 'Budapest', countryCode: 'HU', latitude: 47.4979, longitude: 19.0402, timezone: 'Europe/Budapest', population: 1_752_000 },
+  { name: 'Warsaw', aliases: ['warszawa'], countryCode: 'PL', latitude: 52.2297, longitude: 21.0122, timezone: 'Europe/Warsaw', population: 1_794_000 },
+  { name: 'Kraków', countryCode: 'PL', latitude: 50.0647, longitude: 19.945, timezone: 'Europe/Warsaw', population: 780_000 },
+  { name: 'Copenhagen', aliases: ['kobenhavn'], countryCode: 'DK', latitude: 55.6761, longitude: 12.5683, timezone: 'Europe/Copenhagen', population: 644_000 },
+  { name: 'Stockholm', countryCode: 'SE', latitude: 59.3293, longitude: 18.0686, timezone: 'Europe/Stockholm', population: 975_000 },
+  { name: 'Oslo', countryCode: 'NO', latitude: 59.9139, longitude: 10.7522, timezone: 'Europe/Oslo', population: 697_000 },
+  { name: 'Helsinki', countryCode: 'FI', latitude: 60.1699, longitude: 24.9384, timezone: 'Europe/Helsinki', population: 656_000 },
+  { name: 'Reykjavík', countryCode: 'IS', latitude: 64.1466, longitude: -21.9426, timezone: 'Atlantic/Reykjavik', population: 131_000 },
+  { name: 'Athens', countryCode: 'GR', latitude: 37.9838, longitude: 23.7275, timezone: 'Europe/Athens', population: 664_000 },
+  { name: 'Dubrovnik', countryCode: 'HR', latitude: 42.6507, longitude: 18.0944, timezone: 'Europe/Zagreb', population: 42_000 },
+  { name: 'Istanbul', countryCode: 'TR', latitude: 41.0082, longitude: 28.9784, timezone: 'Europe/Istanbul', population: 15_460_000 },
+  { name: 'Moscow', countryCode: 'RU', latitude: 55.7558, longitude: 37.6173, timezone: 'Europe/Moscow', population: 12_600_000 },
+
+  // North America
+  { name: 'New York', aliases: ['new york city', 'nyc'], countryCode: 'US', region: 'New York', regionCode: 'NY', latitude: 40.7128, longitude: -74.006, timezone: 'America/New_York', population: 8_336_000 },
+  { name: 'Boston', countryCode: 'US', region: 'Massachusetts', regionCode: 'MA', latitude: 42.3601, longitude: -71.0589, timezone: 'America/New_York', population: 675_000 },
+  { name: 'Cambridge', countryCode: 'US', region: 'Massachusetts', regionCode: 'MA', latitude: 42.3736, longitude: -71.1097, timezone: 'America/New_York', population: 118_000 },
+  { name: 'Springfield', countryCode: 'US', region: 'Massachusetts', regionCode: 'MA', latitude: 42.1015, longitude: -72.5898, timezone: 'America/New_York', population: 155_000 },
+  { name: 'Springfield', countryCode: 'US', region: 'Illinois', regionCode: 'IL', latitude: 39.7817, longitude: -89.6501, timezone: 'America/Chicago', population: 114_000 },
+  { name: 'Springfield', countryCode: 'US', region: 'Missouri', regionCode: 'MO', latitude: 37.209, longitude: -93.2923, timezone: 'America/Chicago', population: 169_000 },
+  { name: 'Washington', aliases: ['washington dc', 'washington d c', 'dc'], countryCode: 'US', region: 'District of Columbia', regionCode: 'DC', latitude: 38.9072, longitude: -77.0369, timezone: 'America/New_York', population: 690_000 },
+  { name: 'Portland', countryCode: 'US', region: 'Oregon', regionCode: 'OR', latitude: 45.5152, longitude: -122.6784, timezone: 'America/Los_Angeles', population: 652_000 },
+  { name: 'Portland', countryCode: 'US', region: 'Maine', regionCode: 'ME', latitude: 43.6591, longitude: -70.2568, timezone: 'America/New_York', population: 68_000 },
+  { name: 'Paris', countryCode: 'US', region: 'Texas', regionCode: 'TX', latitude: 33.6609, longitude: -95.5555, timezone: 'America/Chicago', population: 25_000 },
+  { name: 'Paris', countryCode: 'US', region: 'Tennessee', regionCode: 'TN', latitude: 36.302, longitude: -88.3267, timezone: 'America/Chicago', population: 10_000 },
+  { name: 'Miami', countryCode: 'US', region: 'Florida', regionCode: 'FL', latitude: 25.7617, longitude: -80.1918, timezone: 'America/New_York', population: 442_000 },
+  { name: 'Orlando', countryCode: 'US', region: 'Florida', regionCode: 'FL', latitude: 28.5384, longitude: -81.3789, timezone: 'America/New_York', population: 307_000 },
+  { name: 'Melbourne', countryCode: 'US', region: 'Florida', regionCode: 'FL', latitude: 28.0836, longitude: -80.6081, timezone: 'America/New_York', population: 84_000 },
+  { name: 'Atlanta', countryCode: 'US', region: 'Georgia', regionCode: 'GA', latitude: 33.749, longitude: -84.388, timezone: 'America/New_York', population: 498_000 },
+  { name: 'Birmingham', countryCode: 'US', region: 'Alabama', regionCode: 'AL', latitude: 33.5186, longitude: -86.8104, timezone: 'America/Chicago', population: 200_000 },
+  { name: 'Nashville', countryCode: 'US', region: 'Tennessee', regionCode: 'TN', latitude: 36.1627, longitude: -86.7816, timezone: 'America/Chicago', population: 689_000 },
+  { name: 'New Orleans', aliases: ['nola'], countryCode: 'US', region: 'Louisiana', regionCode: 'LA', latitude: 29.9511, longitude: -90.0715, timezone: 'America/Chicago', population: 383_000 },
+  { name: 'Chicago', countryCode: 'US', region: 'Illinois', regionCode: 'IL', latitude: 41.8781, longitude: -87.6298, timezone: 'America/Chicago', population: 2_746_000 },
+  { name: 'Houston', countryCode: 'US', region: 'Texas', regionCode: 'TX', latitude: 29.7604, longitude: -95.3698, timezone: 'America/Chicago', population: 2_304_000 },
+  { name: 'Dallas', countryCode: 'US', region: 'Texas', regionCode: 'TX', latitude: 32.7767, longitude: -96.797, timezone: 'America/Chicago', population: 1_304_000 },
+  { name: 'Austin', countryCode: 'US', region: 'Texas', regionCode: 'TX', latitude: 30.2672, longitude: -97.7431, timezone: 'America/Chicago', population: 961_000 },
+  { name: 'Denver', countryCode: 'US', region: 'Colorado', regionCode: 'CO', latitude: 39.7392, longitude: -104.9903, timezone: 'America/Denver', population: 715_000 },
+  { name: 'Salt Lake City', countryCode: 'US', region: 'Utah', regionCode: 'UT', latitude: 40.7608, longitude: -111.891, timezone: 'America/Denver', population: 200_000 },
+  { name: 'Phoenix', countryCode: 'US', region: 'Arizona', regionCode: 'AZ', latitude: 33.4484, longitude: -112.074, timezone: 'America/Phoenix', population: 1_608_000 },
+  { name: 'Las Vegas', aliases: ['vegas'], countryCode: 'US', region: 'Nevada', regionCode: 'NV', latitude: 36.1699, longitude: -115.1398, timezone: 'America/Los_Angeles', population: 641_000 },
+  { name: 'Los Angeles', aliases: ['la'], countryCode: 'US', region: 'California', regionCode: 'CA', latitude: 34.0522, longitude: -118.2437, timezone: 'America/Los_Angeles', population: 3_898_000 },
+  { name: 'San Diego', countryCode: 'US', region: 'California', regionCode: 'CA', latitude: 32.7157, longitude: -117.1611, timezone: 'America/Los_Angeles', population: 1_386_000 },
+  { name: 'San Francisco', aliases: ['sf'], countryCode: 'US', region: 'California', regionCode: 'CA', latitude: 37.7749, longitude: -122.4194, timezone: 'America/Los_Angeles', population: 815_000 },
+  { name: 'San Jose', countryCode: 'US', region: 'California', regionCode: 'CA', latitude: 37.3382, longitude: -121.8863, timezone: 'America/Los_Angeles', population: 1_013_000 },
+  { name: 'Seattle', countryCode: 'US', region: 'Washington', regionCode: 'WA', latitude: 47.6062, longitude: -122.3321, timezone: 'America/Los_Angeles', population: 737_000 },
+  { name: 'Anchorage', countryCode: 'US', region: 'Alaska', regionCode: 'AK', latitude: 61.2181, longitude: -149.9003, timezone: 'America/Anchorage', population: 291_000 },
+  { name: 'Honolulu', countryCode: 'US', region: 'Hawaii', regionCode: 'HI', latitude: 21.3069, longitude: -157.8583, timezone: 'Pacific/Honolulu', population: 350_000 },
+  { name: 'Toronto', countryCode: 'CA', region: 'Ontario', regionCode: 'ON', latitude: 43.6532, longitude: -79.3832, timezone: 'America/Toronto', population: 2_794_000 },
+  { name: 'London', countryCode: 'CA', region: 'Ontario', regionCode: 'ON', latitude: 42.9849, longitude: -81.2453, timezone: 'America/Toronto', population: 422_000 },
+  { name: 'Montreal', countryCode: 'CA', region: 'Quebec', regionCode: 'QC', latitude: 45.5019, longitude: -73.5674, timezone: 'America/Toronto', population: 1_762_000 },
+  { name: 'Vancouver', countryCode: 'CA', region: 'British Columbia', regionCode: 'BC', latitude: 49.2827, longitude: -123.1207, timezone: 'America/Vancouver', population: 662_000 },
+  { name: 'Mexico City', aliases: ['cdmx', 'ciudad de mexico'], countryCode: 'MX', latitude: 19.4326, longitude: -99.1332, timezone: 'America/Mexico_City', population: 9_209_000 },
+  { name: 'Cancún', countryCode: 'MX', region: 'Quintana Roo', latitude: 21.1619, longitude: -86.8515, timezone: 'America/Cancun', population: 888_000 },
+  { name: 'Havana', aliases: ['la habana'], countryCode: 'CU', latitude: 23.1136, longitude: -82.3666, timezone: 'America/Havana', population: 2_130_000 },
+  { name: 'San Jose', countryCode: 'CR', latitude: 9.9281, longitude: -84.0907, timezone: 'America/Costa_Rica', population: 342_000 },
+
+  // South America
+  { name: 'Rio de Janeiro', aliases: ['rio'], countryCode: 'BR', latitude: -22.9068, longitude: -43.1729, timezone: 'America/Sao_Paulo', population: 6_748_000 },
+  { name: 'São Paulo', countryCode: 'BR', latitude: -23.5505, longitude: -46.6333, timezone: 'America/Sao_Paulo', population: 12_330_000 },
+  { name: 'Buenos Aires', countryCode: 'AR', latitude: -34.6037, longitude: -58.3816, timezone: 'America/Argentina/Buenos_Aires', population: 3_075_000 },
+  { name: 'Santiago', countryCode: 'CL', latitude: -33.4489, longitude: -70.6693, timezone: 'America/Santiago', population: 6_160_000 },
+  { name: 'Lima', countryCode: 'PE', latitude: -12.0464, longitude: -77.0428, timezone: 'America/Lima', population: 9_750_000 },
+  { name: 'Cusco', aliases: ['cuzco'], countryCode: 'PE', latitude: -13.532, longitude: -71.9675, timezone: 'America/Lima', population: 428_000 },
+  { name: 'Bogotá', countryCode: 'CO', latitude: 4.711, longitude: -74.0721, timezone: 'America/Bogota', population: 7_412_000 },
+  { name: 'Valencia', countryCode: 'VE', region: 'Carabobo', latitude: 10.1579, longitude: -68.0077, timezone: 'America/Caracas', population: 1_485_000 },
+
+  // Asia
+  { name: 'Tokyo', countryCode: 'JP', latitude: 35.6762, longitude: 139.6503, timezone: 'Asia/Tokyo', population: 13_960_000 },
+  { name: 'Kyoto', countryCode: 'JP', latitude: 35.0116, longitude: 135.7681, timezone: 'Asia/Tokyo', population: 1_464_000 },
+  { name: 'Osaka', countryCode: 'JP', latitude: 34.6937, longitude: 135.5023, timezone: 'Asia/Tokyo', population: 2_753_000 },
+  { name: 'Seoul', countryCode: 'KR', latitude: 37.5665, longitude: 126.978, timezone: 'Asia/Seoul', population: 9_776_000 },
+  { name: 'Beijing', countryCode: 'CN', latitude: 39.9042, longitude: 116.4074, timezone: 'Asia/Shanghai', population: 21_540_000 },
+  { name: 'Shanghai', countryCode: 'CN', latitude: 31.2304, longitude: 121.4737, timezone: 'Asia/Shanghai', population: 24_870_000 },
+  { name: 'Hong Kong', countryCode: 'HK', latitude: 22.3193, longitude: 114.1694, timezone: 'Asia/Hong_Kong', population: 7_482_000 },
+  { name: 'Taipei', countryCode: 'TW', latitude: 25.033, longitude: 121.5654, timezone: 'Asia/Taipei', population: 2_646_000 },
+  { name: 'Singapore', countryCode: 'SG', latitude: 1.3521, longitude: 103.8198, timezone: 'Asia/Singapore', population: 5_686_000 },
+  { name: 'Bangkok', countryCode: 'TH', latitude: 13.7563, longitude: 100.5018, timezone: 'Asia/Bangkok', population: 10_540_000 },
+  { name: 'Hanoi', countryCode: 'VN', latitude: 21.0278, longitude: 105.8342, timezone: 'Asia/Ho_Chi_Minh', population: 8_054_000 },
+  { name: 'Ho Chi Minh City', aliases: ['saigon'], countryCode: 'VN', latitude: 10.8231, longitude: 106.6297, timezone: 'Asia/Ho_Chi_Minh', population: 8_993_000 },
+  { name: 'Kuala Lumpur', countryCode: 'MY', latitude: 3.139, longitude: 101.6869, timezone: 'Asia/Kuala_Lumpur', population: 1_808_000 },
+  { name: 'Jakarta', countryCode: 'ID', latitude: -6.2088, longitude: 106.8456, timezone: 'Asia/Jakarta', population: 10_560_000 },
+  { name: 'Denpasar', aliases: ['bali'], countryCode: 'ID', region: 'Bali', latitude: -8.6705, longitude: 115.2126, timezone: 'Asia/Makassar', population: 726_000 },
+  { name: 'Manila', countryCode: 'PH', latitude: 14.5995, longitude: 120.9842, timezone: 'Asia/Manila', population: 1_846_000 },
+  { name: 'Mumbai', aliases: ['bombay'], countryCode: 'IN', region: 'Maharashtra', latitude: 19.076, longitude: 72.8777, timezone: 'Asia/Kolkata', population: 12_440_000 },
+  { name: 'Delhi', aliases: ['new delhi'], countryCode: 'IN', latitude: 28.7041, longitude: 77.1025, timezone: 'Asia/Kolkata', population: 16_790_000 },
+  { name: 'Bangalore', aliases: ['bengaluru'], countryCode: 'IN', region: 'Karnataka', latitude: 12.9716, longitude: 77.5946, timezone: 'Asia/Kolkata', population: 8_443_000 },
+  { name: 'Kathmandu', countryCode: 'NP', latitude: 27.7172, longitude: 85.324, timezone: 'Asia/Kathmandu', population: 1_442_000 },
+  { name: 'Dubai', countryCode: 'AE', latitude: 25.2048, longitude: 55.2708, timezone: 'Asia/Dubai', population: 3_331_000 },
+  { name: 'Abu Dhabi', countryCode: 'AE', latitude: 24.4539, longitude: 54.3773, timezone: 'Asia/Dubai', population: 1_483_000 },
+  { name: 'Doha', countryCode: 'QA', latitude: 25.2854, longitude: 51.531, timezone: 'Asia/Qatar', population: 956_000 },
+  { name: 'Tel Aviv', countryCode: 'IL', latitude: 32.0853, longitude: 34.7818, timezone: 'Asia/Jerusalem', population: 460_000 },
+  { name: 'Jerusalem', countryCode: 'IL', latitude: 31.7683, longitude: 35.2137, timezone: 'Asia/Jerusalem', population: 936_000 },
+
+  // Africa
+  { name: 'Cairo', countryCode: 'EG', latitude: 30.0444, longitude: 31.2357, timezone: 'Africa/Cairo', population: 9_540_000 },
+  { name: 'Marrakech', aliases: ['marrakesh'], countryCode: 'MA', latitude: 31.6295, longitude: -7.9811, timezone: 'Africa/Casablanca', population: 929_000 },
+  { name: 'Lagos', countryCode: 'NG', latitude: 6.5244, longitude: 3.3792, timezone: 'Africa/Lagos', population: 15_390_000 },
+  { name: 'Nairobi', countryCode: 'KE', latitude: -1.2921, longitude: 36.8219, timezone: 'Africa/Nairobi', population: 4_397_000 },
+  { name: 'Cape Town', countryCode: 'ZA', latitude: -33.9249, longitude: 18.4241, timezone: 'Africa/Johannesburg', population: 4_618_000 },
+  { name: 'Johannesburg', countryCode: 'ZA', latitude: -26.2041, longitude: 28.0473, timezone: 'Africa/Johannesburg', population: 5_635_000 },
+
+  // Oceania
+  { name: 'Sydney', countryCode: 'AU', region: 'New South Wales', regionCode: 'NSW', latitude: -33.8688, longitude: 151.2093, timezone: 'Australia/Sydney', population: 5_312_000 },
+  { name: 'Melbourne', countryCode: 'AU', region: 'Victoria', regionCode: 'VIC', latitude: -37.8136, longitude: 144.9631, timezone: 'Australia/Melbourne', population: 5_078_000 },
+  { name: 'Brisbane', countryCode: 'AU', region: 'Queensland', regionCode: 'QLD', latitude: -27.4698, longitude: 153.0251, timezone: 'Australia/Brisbane', population: 2_560_000 },
+  { name: 'Perth', countryCode: 'AU', region: 'Western Australia', regionCode: 'WA', latitude: -31.9505, longitude: 115.8605, timezone: 'Australia/Perth', population: 2_085_000 },
+  { name: 'Auckland', countryCode: 'NZ', latitude: -36.8485, longitude: 174.7633, timezone: 'Pacific/Auckland', population: 1_657_000 },
+  { name: 'Queenstown', countryCode: 'NZ', latitude: -45.0312, longitude: 168.6626, timezone: 'Pacific/Auckland', population: 16_000 },
+];
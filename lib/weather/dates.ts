@@ -0,0 +1,48 @@
+import { addDays, format, isValid, parse } from 'date-fns';
+import { getReferenceDay, isTimeZone } from '@/lib/date-parser/reference';
+
+/**
+ * Parse a YYYY-MM-DD string, returning null when it isn't a real date
+ */
+export function parseDay(value: string): Date | null {
+  const date = parse(value ?? '', 'yyyy-MM-dd', new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export function formatDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Today at a location, as local midnight
+ *
+ * Providers date forecasts in the location's own time zone, which can be
+ * a day ahead of or behind the server's. Falls back to the server's day
+ * when the time zone is unknown.
+ */
+export function todayIn(timeZone: string, now: Date = new Date()): Date {
+  return getReferenceDay({
+    referenceDate: now,
+    timeZone: isTimeZone(timeZone) ? timeZone : undefined,
+  });
+}
+
+/**
+ * List every day of an inclusive YYYY-MM-DD range
+ */
+export function eachDay(startDate: string, endDate: string): string[] {
+  const start = parseDay(startDate);
+  const end = parseDay(endDate);
+  if (!start || !end) {
+    return [];
+  }
+
+  const days: string[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(formatDay(day));
+  }
+  return days;
+}
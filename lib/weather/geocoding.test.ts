@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { formatLocation, geocode } from './geocoding';
+
+describe('Geocoding', () => {
+  describe('geocode', () => {
+    it('resolves a city name with its country, coordinates and timezone', () => {
+      expect(geocode('Tokyo')).toEqual({
+        status: 'resolved',
+        location: {
+          name: 'Tokyo',
+          country: 'Japan',
+          countryCode: 'JP',
+          latitude: 35.6762,
+          longitude: 139.6503,
+          timezone: 'Asia/Tokyo',
+        },
+      });
+    });
+
+    it('ignores case, accents and extra whitespace', () => {
+      const result = geocode('  são   PAULO ');
+
+      expect(result.status).toBe('resolved');
+      if (result.status === 'resolved') {
+        expect(result.location.name).toBe('São Paulo');
+      }
+    });
+
+    it('matches aliases', () => {
+      const result = geocode('NYC');
+
+      expect(result.status).toBe('resolved');
+      if (result.status === 'resolved') {
+        expect(result.location).toMatchObject({ name: 'New York', timezone: 'America/New_York' });
+      }
+    });
+
+    it('resolves to a much bigger city when a name is shared', () => {
+      const result = geocode('Paris');
+
+      expect(result.status).toBe('resolved');
+      if (result.status === 'resolved') {
+        expect(result.location.country).toBe('France');
+      }
+    });
+
+    it('returns candidates when a name is ambiguous', () => {
+      const result = geocode('Portland');
+
+      expect(result.status).toBe('ambiguous');
+      if (result.status === 'ambiguous') {
+        expect(result.candidates.map(formatLocation)).toEqual([
+          'Portland, Oregon, United States',
+          'Portland, Maine, United States',
+        ]);
+      }
+    });
+
+    it.each([
+      ['Paris, TX', 'Texas'],
+      ['Paris, Tennessee', 'Tennessee'],
+      ['Portland, OR', 'Oregon'],
+      ['Portland, Maine, USA', 'Maine'],
+    ])('narrows "%s" by region', (query, region) => {
+      const result = geocode(query);
+
+      expect(result.status).toBe('resolved');
+      if (result.status === 'resolved') {
+        expect(result.location.region).toBe(region);
+        expect(result.location.country).toBe('United States');
+      }
+    });
+
+    it.each([
+      ['London, UK', 'GB'],
+      ['London, Canada', 'CA'],
+      ['Valencia, Spain', 'ES'],
+      ['Valencia, VE', 'VE'],
+    ])('narrows "%s" by country', (query, countryCode) => {
+      const result = geocode(query);
+
+      expect(result.status).toBe('resolved');
+      if (result.status === 'resolved') {
+        expect(result.location.countryCode).toBe(countryCode);
+      }
+    });
+
+    it('keeps candidates that still share the qualifier', () => {
+      const result = geocode('Springfield, USA');
+
+      expect(result.status).toBe('ambiguous');
+      if (result.status === 'ambiguous') {
+        expect(result.candidates.map((c) => c.region)).toEqual([
+          'Missouri',
+          'Massachusetts',
+          'Illinois',
+        ]);
+      }
+    });
+
+    it('returns not_found for unknown places and mismatched qualifiers', () => {
+      expect(geocode('Atlantis')).toEqual({ status: 'not_found' });
+      expect(geocode('Paris, Japan')).toEqual({ status: 'not_found' });
+      expect(geocode('   ')).toEqual({ status: 'not_found' });
+    });
+
+    it('names coordinates after a nearby place', () => {
+      const result = geocode('48.86, 2.34');
+
+      expect(result).toEqual({
+        status: 'resolved',
+        location: expect.objectContaining({
+          name: 'Paris',
+          country: 'France',
+          latitude: 48.86,
+          longitude: 2.34,
+          timezone: 'Europe/Paris',
+        }),
+      });
+    });
+
+    it('parses hemisphere letters and degree signs', () => {
+      const result = geocode('33.87° S, 151.21° E');
+
+      expect(result.status).toBe('resolved');
+      if (result.status === 'resolved') {
+        expect(result.location).toMatchObject({
+          name: 'Sydney',
+          latitude: -33.87,
+          longitude: 151.21,
+        });
+      }
+    });
+
+    it('describes remote coordinates with a nearby or longitude-based timezone', () => {
+      const alps = geocode('46.8, 8.2');
+      const pacific = geocode('-20, -140');
+
+      expect(alps).toEqual({
+        status: 'resolved',
+        location: {
+          name: '46.8000, 8.2000',
+          latitude: 46.8,
+          longitude: 8.2,
+          timezone: 'Europe/Zurich',
+        },
+      });
+      expect(pacific.status === 'resolved' && pacific.location.timezone).toBe('Etc/GMT+9');
+    });
+
+    it('treats out-of-range coordinates as names', () => {
+      expect(geocode('95, 200')).toEqual({ status: 'not_found' });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { COUNTRIES, PLACES, type GazetteerEntry } from './data/gazetteer';
+import type { GeoLocation } from './types';
+
+export type GeocodeResult =
+  | { status: 'resolved'; location: GeoLocation }
+  | { status: 'ambiguous'; candidates: GeoLocation[] }
+  | { status: 'not_found' };
+
+/**
+ * A name resolves to its most populous match only when that match is
+ * this many times bigger than the runner-up ("Paris" is Paris, France;
+ * "Portland" needs a state)
+ */
+const DOMINANCE_RATIO = 10;
+
+/**
+ * Coordinates within this distance of a gazetteer place take its name
+ */
+const NEARBY_PLACE_KM = 50;
+
+/**
+ * Coordinates within this distance of a gazetteer place take its timezone
+ */
+const NEARBY_TIMEZONE_KM = 500;
+
+const COORDINATES_PATTERN =
+  /^\s*(-?\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?\s*$/i;
+
+/**
+ * Resolve a free-text location against the bundled gazetteer
+ *
+ * Supports:
+ * - "Paris" → the place, when one match clearly dominates
+ * - "Paris, TX" / "Portland, Oregon" / "London, UK" → narrowed by region or country
+ * - "48.8566, 2.3522" / "33.87° S, 151.21° E" → coordinates, named after a nearby place
+ */
+export function geocode(query: string): GeocodeResult {
+  const coordinates = parseCoordinates(query);
+  if (coordinates) {
+    return { status: 'resolved', location: locateCoordinates(...coordinates) };
+  }
+
+  const [name, ...qualifiers] = query.split(',').map(normalize).filter(Boolean);
+  if (!name) {
+    return { status: 'not_found' };
+  }
+
+  const matches = PLACES.filter(
+    (place) =>
+      (normalize(place.name) === name || place.aliases?.includes(name)) &&
+      qualifiers.every((qualifier) => matchesQualifier(place, qualifier))
+  ).sort((a, b) => b.population - a.population);
+
+  if (matches.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  if (matches.length === 1 || matches[0].population >= matches[1].population * DOMINANCE_RATIO) {
+    return { status: 'resolved', location: toLocation(matches[0]) };
+  }
+
+  return { status: 'ambiguous', candidates: matches.map(toLocation) };
+}
+
+/**
+ * Human-readable label, e.g. "Portland, Oregon, United States"
+ */
+export function formatLocation(location: GeoLocation): string {
+  return [location.name, location.region, location.country].filter(Boolean).join(', ');
+}
+
+/**
+ * Parse "lat, lon" in decimal degrees, with optional N/S/E/W hemispheres
+ */
+function parseCoordinates(query: string): [number, number] | null {
+  const match = COORDINATES_PATTERN.exec(query);
+  if (!match) {
+    return null;
+  }
+
+  const [, lat, latHemisphere, lon, lonHemisphere] = match;
+  const latitude = Number(lat) * (latHemisphere?.toUpperCase() === 'S' ? -1 : 1);
+  const longitude = Number(lon) * (lonHemisphere?.toUpperCase() === 'W' ? -1 : 1);
+
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+
+  return [latitude, longitude];
+}
+
+/**
+ * Describe coordinates using the nearest gazetteer place, falling back to
+ * a whole-hour timezone from the longitude when nothing is close
+ */
+function locateCoordinates(latitude: number, longitude: number): GeoLocation {
+  let nearest: GazetteerEntry | undefined;
+  let nearestKm = Infinity;
+  for (const place of PLACES) {
+    const km = distanceKm(latitude, longitude, place.latitude, place.longitude);
+    if (km < nearestKm) {
+      nearest = place;
+      nearestKm = km;
+    }
+  }
+
+  if (nearest && nearestKm <= NEARBY_PLACE_KM) {
+    return { ...toLocation(nearest), latitude, longitude };
+  }
+
+  // Etc/GMT zones use POSIX signs: Etc/GMT-5 is five hours ahead of UTC
+  const offset = Math.round(longitude / 15);
+  const fallbackTimezone =
+    offset === 0 ? 'Etc/GMT' : `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+
+  return {
+    name: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+    latitude,
+    longitude,
+    timezone: nearest && nearestKm <= NEARBY_TIMEZONE_KM ? nearest.timezone : fallbackTimezone,
+  };
+}
+
+function matchesQualifier(place: GazetteerEntry, qualifier: string): boolean {
+  const country = COUNTRIES[place.countryCode];
+  const names = [
+    place.region,
+    place.regionCode,
+    place.countryCode,
+    country?.name,
+    ...(country?.aliases ?? []),
+  ];
+
+  return names.some((candidate) => candidate && normalize(candidate) === qualifier);
+}
+
+function toLocation(place: GazetteerEntry): GeoLocation {
+  return {
+    name: place.name,
+    ...(place.region && { region: place.region }),
+    country: COUNTRIES[place.countryCode]?.name ?? place.countryCode,
+    countryCode: place.countryCode,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    timezone: place.timezone,
+  };
+}
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+function normalize(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Great-circle distance (haversine)
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
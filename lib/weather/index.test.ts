@@ -0,0 +1,279 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getWeather, MockWeatherProvider, type WeatherAlert } from '.';
+
+// Forecasts cover 2024-06-01 to 2024-06-14
+const now = () => new Date(2024, 5, 1, 9, 30);
+
+describe('Weather API', () => {
+  describe('getWeather', () => {
+    it('should return weather forecast for a date range', async () => {
+      const result = await getWeather('Paris', '2024-06-01', '2024-06-03', { now });
+
+      expect(result.location).toBe('Paris, Île-de-France, France');
+      expect(result.place).toMatchObject({ name: 'Paris', timezone: 'Europe/Paris' });
+      expect(result.startDate).toBe('2024-06-01');
+      expect(result.endDate).toBe('2024-06-03');
+      expect(result.forecast).toBeDefined();
+      expect(result.forecast.length).toBe(3);
+    });
+
+    it('should include temperature data for each day', async () => {
+      const result = await getWeather('London', '2024-06-05', '2024-06-06', { now });
+
+      result.forecast.forEach((day) => {
+        expect(day.date).toBeDefined();
+        expect(day.temperature.high).toBeGreaterThan(0);
+        expect(day.temperature.low).toBeGreaterThan(0);
+        expect(day.conditions).toBeDefined();
+      });
+    });
+
+    it('should handle single day trips', async () => {
+      const result = await getWeather('Tokyo', '2024-06-10', '2024-06-10', { now });
+
+      expect(result.forecast.length).toBe(1);
+    });
+
+    it('should return the same forecast for the same query', async () => {
+      const first = await getWeather('Paris', '2024-06-01', '2024-06-03', { now });
+      const second = await getWeather('Paris', '2024-06-01', '2024-06-03', { now });
+
+      expect(second).toEqual(first);
+    });
+
+    it('should agree on days shared by overlapping ranges', async () => {
+      const week = await getWeather('Paris', '2024-06-01', '2024-06-07', { now });
+      const weekend = await getWeather('Paris', '2024-06-06', '2024-06-07', { now });
+
+      expect(weekend.forecast).toEqual(week.forecast.slice(5));
+    });
+
+    it('should keep lows below highs', async () => {
+      const result = await getWeather('Oslo', '2024-06-01', '2024-06-14', { now });
+
+      result.forecast.forEach((day) => {
+        expect(day.temperature.low).toBeLessThan(day.temperature.high);
+      });
+    });
+
+    it('should use the given provider', async () => {
+      const seeded = new MockWeatherProvider('other-seed');
+
+      const defaultResult = await getWeather('Paris', '2024-06-01', '2024-06-07', { now });
+      const seededResult = await getWeather('Paris', '2024-06-01', '2024-06-07', { provider: seeded, now });
+
+      expect(seededResult.forecast).not.toEqual(defaultResult.forecast);
+      expect(await getWeather('Paris', '2024-06-01', '2024-06-07', { provider: seeded, now })).toEqual(seededResult);
+    });
+
+    it('should mark forecast days as forecasts', async () => {
+      const result = await getWeather('Paris', '2024-06-01', '2024-06-14', { now });
+
+      expect(result.forecast.every((day) => day.source === 'forecast')).toBe(true);
+    });
+
+    it('should use climate averages beyond the forecast horizon', async () => {
+      const provider = new MockWeatherProvider();
+      const getForecast = vi.spyOn(provider, 'getForecast');
+
+      const result = await getWeather('Paris', '2024-06-13', '2024-06-16', { provider, now });
+
+      expect(getForecast).toHaveBeenCalledWith(result.place, '2024-06-13', '2024-06-14');
+      expect(result.forecast.map((day) => [day.date, day.source])).toEqual([
+        ['2024-06-13', 'forecast'],
+        ['2024-06-14', 'forecast'],
+        ['2024-06-15', 'climatology'],
+        ['2024-06-16', 'climatology'],
+      ]);
+      expect(result.forecast[2]).toMatchObject({
+        temperature: { high: 23, low: 14, unit: 'C' },
+        humidity: 69,
+      });
+    });
+
+    it('should count the forecast horizon from today at the location', async () => {
+      // Already 2 June in UTC, still 1 June in Los Angeles
+      const provider = new MockWeatherProvider();
+      const getForecast = vi.spyOn(provider, 'getForecast');
+
+      const result = await getWeather('Los Angeles', '2024-06-01', '2024-06-15', {
+        provider,
+        now: () => new Date('2024-06-02T00:30:00Z'),
+      });
+
+      expect(getForecast).toHaveBeenCalledWith(result.place, '2024-06-01', '2024-06-14');
+      expect(result.forecast[0]).toMatchObject({ date: '2024-06-01', source: 'forecast' });
+      expect(result.forecast[14]).toMatchObject({ date: '2024-06-15', source: 'climatology' });
+    });
+
+    it('should use climate averages for trips months away', async () => {
+      const provider = new MockWeatherProvider();
+      const getForecast = vi.spyOn(provider, 'getForecast');
+
+      const result = await getWeather('Oslo', '2025-01-10', '2025-01-12', { provider, now });
+
+      expect(getForecast).not.toHaveBeenCalled();
+      expect(result.forecast).toHaveLength(3);
+      result.forecast.forEach((day) => {
+        expect(day.source).toBe('climatology');
+        expect(day.temperature).toEqual({ high: -1, low: -7, unit: 'C' });
+        expect(day.conditions).toBe('Occasional rain or snow');
+      });
+    });
+
+    it('should use climate averages for past dates', async () => {
+      const result = await getWeather('Paris', '2024-05-30', '2024-06-01', { now });
+
+      expect(result.forecast.map((day) => day.source)).toEqual([
+        'climatology',
+        'climatology',
+        'forecast',
+      ]);
+    });
+
+    it('should reject dates beyond the horizon where no climate averages exist', async () => {
+      const place = {
+        name: 'Base camp',
+        latitude: 27.9881,
+        longitude: 86.925,
+        timezone: 'Asia/Kathmandu',
+      };
+
+      await expect(getWeather(place, '2024-06-14', '2024-06-15', { now })).rejects.toThrow(
+        'Forecasts for Base camp only cover the next 14 days, and no climate averages are available for it'
+      );
+    });
+
+    it('should report metric units by default', async () => {
+      const result = await getWeather('Paris', '2024-06-01', '2024-06-02', { now });
+
+      expect(result.units).toBe('metric');
+      result.forecast.forEach((day) => {
+        expect(day.temperature.unit).toBe('C');
+        expect(day.wind?.unit).toBe('km/h');
+        expect(day.precipitationAmount.unit).toBe('mm');
+        expect(day.uvIndex).toBeGreaterThanOrEqual(0);
+      });
+    });
+
+    it('should convert to imperial units on request', async () => {
+      const metric = await getWeather('Paris', '2024-06-13', '2024-06-15', { now });
+      const imperial = await getWeather('Paris', '2024-06-13', '2024-06-15', {
+        now,
+        units: 'imperial',
+      });
+
+      expect(imperial.units).toBe('imperial');
+      imperial.forecast.forEach((day, i) => {
+        const metricDay = metric.forecast[i];
+        expect(day.temperature).toEqual({
+          high: Math.round((metricDay.temperature.high * 9) / 5 + 32),
+          low: Math.round((metricDay.temperature.low * 9) / 5 + 32),
+          unit: 'F',
+        });
+        expect(day.precipitationAmount.unit).toBe('in');
+        expect(day.uvIndex).toBe(metricDay.uvIndex);
+      });
+      expect(imperial.forecast[0].wind?.unit).toBe('mph');
+      expect(imperial.forecast[2].wind).toBeNull();
+    });
+
+    it('should flag hazards found in the daily data', async () => {
+      // Dubai in August is reliably hot
+      const result = await getWeather('Dubai', '2024-08-01', '2024-08-03', { now });
+
+      expect(result.alerts).toEqual([
+        {
+          type: 'heat',
+          severity: 'warning',
+          title: 'Heat warning',
+          description: 'Highs up to 41°C (typical for the time of year)',
+          startDate: '2024-08-01',
+          endDate: '2024-08-03',
+          source: 'threshold',
+        },
+      ]);
+    });
+
+    it('should put provider alerts first', async () => {
+      const official: WeatherAlert = {
+        type: 'storm',
+        severity: 'warning',
+        title: 'Severe Thunderstorm Warning',
+        description: 'Large hail possible.',
+        startDate: '2024-06-02',
+        endDate: '2024-06-02',
+        source: 'provider',
+      };
+      const provider = new MockWeatherProvider();
+      const getAlerts = vi.fn().mockResolvedValue([official]);
+
+      const result = await getWeather('Dubai', '2024-06-01', '2024-06-20', {
+        provider: Object.assign(provider, { getAlerts }),
+        now,
+      });
+
+      expect(getAlerts).toHaveBeenCalledWith(result.place, '2024-06-01', '2024-06-14');
+      expect(result.alerts[0]).toBe(official);
+      expect(result.alerts.some((alert) => alert.source === 'threshold')).toBe(true);
+    });
+
+    it('should still return the forecast when alerts cannot be fetched', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = Object.assign(new MockWeatherProvider(), {
+        getAlerts: vi.fn().mockRejectedValue(new Error('Weather API error (500): oops')),
+      });
+
+      const result = await getWeather('Paris', '2024-06-01', '2024-06-02', { provider, now });
+
+      expect(result.forecast).toHaveLength(2);
+      expect(consoleError).toHaveBeenCalledWith('Failed to fetch weather alerts:', expect.any(Error));
+      consoleError.mockRestore();
+    });
+
+    it('should reject invalid dates', async () => {
+      await expect(getWeather('Paris', 'June 1', '2024-06-03', { now })).rejects.toThrow(
+        'Dates must be in YYYY-MM-DD format'
+      );
+    });
+
+    it('should reject ranges that end before they start', async () => {
+      await expect(getWeather('Paris', '2024-06-03', '2024-06-01', { now })).rejects.toThrow(
+        'Start date must be on or before end date'
+      );
+    });
+
+    it('should accept an already geocoded location', async () => {
+      const place = {
+        name: 'Base camp',
+        latitude: 27.9881,
+        longitude: 86.925,
+        timezone: 'Asia/Kathmandu',
+      };
+
+      const result = await getWeather(place, '2024-06-01', '2024-06-02', { now });
+
+      expect(result.location).toBe('Base camp');
+      expect(result.place).toBe(place);
+      expect(result.forecast).toHaveLength(2);
+    });
+
+    it('should reject ambiguous locations', async () => {
+      await expect(getWeather('Portland', '2024-06-01', '2024-06-03', { now })).rejects.toThrow(
+        '"Portland" is ambiguous: Portland, Oregon, United States; Portland, Maine, United States'
+      );
+    });
+
+    it('should reject unknown locations', async () => {
+      await expect(getWeather('Atlantis', '2024-06-01', '2024-06-03', { now })).rejects.toThrow(
+        'Location "Atlantis" not found'
+      );
+    });
+
+    it('should reject an empty location', async () => {
+      await expect(getWeather('  ', '2024-06-01', '2024-06-03', { now })).rejects.toThrow(
+        'Location cannot be empty'
+      );
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Weather API integration
+ * Fetches weather forecasts for trip planning
+ */
+
+import { addDays, max, min } from 'date-fns';
+import { detectAlerts } from './alerts';
+import type { WeatherCache } from './cache';
+import { getClimatology } from './climatology';
+import { eachDay, formatDay, parseDay, todayIn } from './dates';
+import { formatLocation, geocode } from './geocoding';
+import { getWeatherProvider } from './provider';
+import { convertWeatherData, type UnitSystem } from './units';
+import type {
+  GeoLocation,
+  WeatherAlert,
+  WeatherCacheStats,
+  WeatherData,
+  WeatherForecast,
+  WeatherProvider,
+} from './types';
+
+export interface GetWeatherOptions {
+  /** Defaults to the provider configured by the environment */
+  provider?: WeatherProvider;
+  /** Serve and store days through this cache (default: no caching) */
+  cache?: WeatherCache | null;
+  /** Clock used to work out which days are within the forecast horizon */
+  now?: () => Date;
+  /** Unit system for the result (default: metric) */
+  units?: UnitSystem;
+}
+
+/**
+ * Fetch weather forecast for a location and date range
+ *
+ * Days within the provider's forecast horizon come from the provider;
+ * earlier and later days fall back to monthly climate averages, marked
+ * with `source: 'climatology'`. Alerts combine the provider's official
+ * alerts with hazards detected from each day's data.
+ *
+ * @param location - Place name / coordinates to geocode, or an already geocoded location
+ * @param options - Optional provider, cache, clock and unit system
+ */
+export async function getWeather(
+  location: string | GeoLocation,
+  startDate: string,
+  endDate: string,
+  options: GetWeatherOptions = {}
+): Promise<WeatherForecast> {
+  // Validate input
+  const place = typeof location === 'string' ? resolveLocation(location) : location;
+
+  const start = parseDay(startDate);
+  const end = parseDay(endDate);
+  if (!start || !end) {
+    throw new Error('Dates must be in YYYY-MM-DD format');
+  }
+
+  if (start > end) {
+    throw new Error('Start date must be on or before end date');
+  }
+
+  const provider = options.provider ?? getWeatherProvider();
+  const units = options.units ?? 'metric';
+  const label = formatLocation(place);
+
+  // Only ask the provider for the part of the range it can forecast,
+  // counting from today where the trip is
+  const today = todayIn(place.timezone, options.now?.());
+  const forecastStart = max([start, today]);
+  const forecastEnd = min([end, addDays(today, provider.forecastDays - 1)]);
+
+  const range = eachDay(startDate, endDate);
+  const days = new Map<string, WeatherData>();
+  let cache: WeatherCacheStats | undefined;
+  let providerAlerts: WeatherAlert[] = [];
+
+  if (forecastStart <= forecastEnd) {
+    const [from, to] = [formatDay(forecastStart), formatDay(forecastEnd)];
+    let forecast: WeatherData[];
+
+    if (options.cache) {
+      ({ forecast, cache } = await options.cache.getForecast(provider, place, from, to));
+    } else {
+      forecast = await provider.getForecast(place, from, to);
+    }
+
+    for (const day of forecast) {
+      days.set(day.date, day);
+    }
+
+    if (provider.getAlerts) {
+      providerAlerts = await provider.getAlerts(place, from, to).catch((error) => {
+        // Alerts are a bonus; a failure shouldn't cost the user their forecast
+        console.error('Failed to fetch weather alerts:', error);
+        return [];
+      });
+    }
+  }
+
+  if (days.size < range.length) {
+    const climatology = getClimatology(place, startDate, endDate);
+    if (!climatology) {
+      throw new Error(
+        `Forecasts for ${label} only cover the next ${provider.forecastDays} days, ` +
+          'and no climate averages are available for it'
+      );
+    }
+
+    for (const day of climatology) {
+      if (!days.has(day.date)) {
+        days.set(day.date, day);
+      }
+    }
+  }
+
+  const forecast = range.map((date) => days.get(date)!);
+
+  return {
+    location: label,
+    place,
+    startDate,
+    endDate,
+    units,
+    forecast: forecast.map((day) => convertWeatherData(day, units)),
+    alerts: [...providerAlerts, ...detectAlerts(forecast, units)],
+    ...(cache && { cache }),
+  };
+}
+
+/**
+ * Geocode a location string, throwing when it is unknown or ambiguous
+ */
+function resolveLocation(query: string): GeoLocation {
+  if (!query?.trim()) {
+    throw new Error('Location cannot be empty');
+  }
+
+  const result = geocode(query);
+  switch (result.status) {
+    case 'resolved':
+      return result.location;
+    case 'ambiguous':
+      throw new Error(
+        `"${query}" is ambiguous: ${result.candidates.map(formatLocation).join('; ')}`
+      );
+    case 'not_found':
+      throw new Error(`Location "${query}" not found`);
+  }
+}
+
+export { geocode, formatLocation } from './geocoding';
+export { detectAlerts } from './alerts';
+export { getClimatology, findClimateStation } from './climatology';
+export * from './units';
+export type { GeocodeResult } from './geocoding';
+export { WeatherCache, createWeatherCache } from './cache';
+export type { WeatherCacheOptions } from './cache';
+export { createWeatherProvider, getWeatherProvider } from './provider';
+export { MockWeatherProvider } from './providers/mock';
+export { HttpWeatherProvider, DEFAULT_WEATHER_API_URL } from './providers/http';
+export type { HttpWeatherProviderOptions } from './providers/http';
+export * from './types';
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { createWeatherProvider } from './provider';
+import { HttpWeatherProvider } from './providers/http';
+import { MockWeatherProvider } from './providers/mock';
+
+describe('createWeatherProvider', () => {
+  it('uses the mock provider when no API key is set', () => {
+    expect(createWeatherProvider({})).toBeInstanceOf(MockWeatherProvider);
+  });
+
+  it('uses the HTTP provider when an API key is set', () => {
+    expect(createWeatherProvider({ WEATHER_API_KEY: 'secret' })).toBeInstanceOf(
+      HttpWeatherProvider
+    );
+  });
+
+  it('lets WEATHER_PROVIDER force the mock provider', () => {
+    const provider = createWeatherProvider({ WEATHER_PROVIDER: 'mock', WEATHER_API_KEY: 'secret' });
+
+    expect(provider).toBeInstanceOf(MockWeatherProvider);
+  });
+
+  it('requires an API key for the HTTP provider', () => {
+    expect(() => createWeatherProvider({ WEATHER_PROVIDER: 'http' })).toThrow(
+      'WEATHER_API_KEY is required for the http weather provider'
+    );
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createWeatherProvider({ WEATHER_PROVIDER: 'carrier-pigeon' })).toThrow(
+      'Unknown weather provider "carrier-pigeon"'
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import { HttpWeatherProvider } from './providers/http';
+import { MockWeatherProvider } from './providers/mock';
+import type { WeatherProvider } from './types';
+
+/**
+ * Pick a weather provider from environment variables
+ *
+ * - WEATHER_PROVIDER: "mock" or "http" (default: "http" when WEATHER_API_KEY is set, else "mock")
+ * - WEATHER_API_KEY: API key for the HTTP provider
+ * - WEATHER_API_URL: Override the HTTP provider's API root
+ */
+export function createWeatherProvider(
+  env: Record<string, string | undefined> = process.env
+): WeatherProvider {
+  const apiKey = env.WEATHER_API_KEY?.trim();
+  const providerName = env.WEATHER_PROVIDER?.trim().toLowerCase() || (apiKey ? 'http' : 'mock');
+
+  switch (providerName) {
+    case 'mock':
+      return new MockWeatherProvider();
+    case 'http':
+      if (!apiKey) {
+        throw new Error('WEATHER_API_KEY is required for the http weather provider');
+      }
+      return new HttpWeatherProvider({ apiKey, baseUrl: env.WEATHER_API_URL?.trim() || undefined });
+    default:
+      throw new Error(`Unknown weather provider "${providerName}"`);
+  }
+}
+
+let defaultProvider: WeatherProvider | undefined;
+
+/**
+ * Get the provider configured by the environment, created on first use
+ */
+export function getWeatherProvider(): WeatherProvider {
+  defaultProvider ??= createWeatherProvider();
+  return defaultProvider;
+}
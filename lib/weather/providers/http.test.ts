@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpWeatherProvider } from './http';
+import type { GeoLocation } from '../types';
+
+/**
+ * Local stand-in for the forecast API - replies with whatever the test queues
+ */
+let server: Server;
+let baseUrl: string;
+let requests: URL[];
+let reply: { status: number; body: unknown; delayMs?: number };
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(new URL(req.url ?? '/', baseUrl));
+    setTimeout(() => {
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+    }, reply.delayMs ?? 0);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = { status: 200, body: forecastBody(['2024-06-01', '2024-06-02', '2024-06-03']) };
+});
+
+function forecastBody(dates: string[]) {
+  return {
+    location: { name: 'Paris', country: 'France' },
+    forecast: {
+      forecastday: dates.map((date, i) => ({
+        date,
+        day: {
+          maxtemp_c: 24.6 + i,
+          mintemp_c: 14.2 + i,
+          avghumidity: 61,
+          maxwind_kph: 18.4 + i,
+          totalprecip_mm: 1.26 * i,
+          uv: 5 + i,
+          daily_chance_of_rain: 20 * i,
+          daily_chance_of_snow: 0,
+          condition: { text: 'Partly cloudy ' },
+        },
+      })),
+    },
+  };
+}
+
+const paris: GeoLocation = {
+  name: 'Paris',
+  country: 'France',
+  countryCode: 'FR',
+  latitude: 48.8566,
+  longitude: 2.3522,
+  timezone: 'Europe/Paris',
+};
+
+function createProvider(overrides: { timeoutMs?: number } = {}) {
+  return new HttpWeatherProvider({
+    apiKey: 'test-key',
+    baseUrl,
+    now: () => new Date(2024, 5, 1, 9, 30),
+    ...overrides,
+  });
+}
+
+describe('HttpWeatherProvider', () => {
+  it('requests enough forecast days to cover the range', async () => {
+    await createProvider().getForecast(paris, '2024-06-02', '2024-06-03');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].pathname).toBe('/v1/forecast.json');
+    expect(requests[0].searchParams.get('key')).toBe('test-key');
+    expect(requests[0].searchParams.get('q')).toBe('48.8566,2.3522');
+    expect(requests[0].searchParams.get('days')).toBe('3');
+  });
+
+  it('maps the response to WeatherData for the requested days', async () => {
+    const result = await createProvider().getForecast(paris, '2024-06-02', '2024-06-03');
+
+    expect(result).toEqual([
+      {
+        date: '2024-06-02',
+        temperature: { high: 26, low: 15, unit: 'C' },
+        conditions: 'Partly cloudy',
+        precipitation: 20,
+        precipitationAmount: { amount: 1.3, unit: 'mm' },
+        humidity: 61,
+        wind: { speed: 19, unit: 'km/h' },
+        uvIndex: 6,
+        source: 'forecast',
+      },
+      {
+        date: '2024-06-03',
+        temperature: { high: 27, low: 16, unit: 'C' },
+        conditions: 'Partly cloudy',
+        precipitation: 40,
+        precipitationAmount: { amount: 2.5, unit: 'mm' },
+        humidity: 61,
+        wind: { speed: 20, unit: 'km/h' },
+        uvIndex: 7,
+        source: 'forecast',
+      },
+    ]);
+  });
+
+  it('reports API errors with their message', async () => {
+    reply = {
+      status: 400,
+      body: { error: { code: 1006, message: 'No matching location found.' } },
+    };
+
+    await expect(createProvider().getForecast(paris, '2024-06-01', '2024-06-02')).rejects.toThrow(
+      'Weather API error (400): No matching location found.'
+    );
+  });
+
+  it('reports invalid responses', async () => {
+    reply = { status: 200, body: 'not json' };
+
+    await expect(createProvider().getForecast(paris, '2024-06-01', '2024-06-02')).rejects.toThrow(
+      'Weather API returned an invalid response'
+    );
+  });
+
+  it('reports days missing from the response', async () => {
+    reply = { status: 200, body: forecastBody(['2024-06-01']) };
+
+    await expect(createProvider().getForecast(paris, '2024-06-01', '2024-06-02')).rejects.toThrow(
+      'No forecast available for Paris on 2024-06-02'
+    );
+  });
+
+  it('times out slow responses', async () => {
+    reply = { ...reply, delayMs: 200 };
+
+    await expect(
+      createProvider({ timeoutMs: 50 }).getForecast(paris, '2024-06-01', '2024-06-02')
+    ).rejects.toThrow('Weather API did not respond within 50ms');
+  });
+
+  it('rejects dates in the past without calling the API', async () => {
+    await expect(createProvider().getForecast(paris, '2024-05-31', '2024-06-02')).rejects.toThrow(
+      'Forecasts are only available from today onwards'
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects dates beyond the forecast horizon without calling the API', async () => {
+    await expect(createProvider().getForecast(paris, '2024-06-10', '2024-06-20')).rejects.toThrow(
+      'Forecasts are only available up to 14 days ahead'
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  it("counts forecast days from today at the location, not the server's today", async () => {
+    // Already 2 June in UTC, still 1 June in Los Angeles
+    const provider = new HttpWeatherProvider({
+      apiKey: 'test-key',
+      baseUrl,
+      now: () => new Date('2024-06-02T00:30:00Z'),
+    });
+    const losAngeles: GeoLocation = {
+      name: 'Los Angeles',
+      latitude: 34.0522,
+      longitude: -118.2437,
+      timezone: 'America/Los_Angeles',
+    };
+    reply = { status: 200, body: forecastBody(['2024-06-01', '2024-06-02']) };
+
+    const forecast = await provider.getForecast(losAngeles, '2024-06-01', '2024-06-02');
+
+    expect(forecast.map((day) => day.date)).toEqual(['2024-06-01', '2024-06-02']);
+    expect(requests[0].searchParams.get('days')).toBe('2');
+    await expect(provider.getForecast(losAngeles, '2024-06-01', '2024-06-15')).rejects.toThrow(
+      'Forecasts are only available up to 14 days ahead'
+    );
+  });
+
+  describe('getAlerts', () => {
+    function alertsBody() {
+      return {
+        alerts: {
+          alert: [
+            {
+              headline: 'Météo-France orange heat warning',
+              event: 'Heat Wave',
+              severity: 'Severe',
+              effective: '2024-06-01T06:00:00+02:00',
+              expires: '2024-06-04T06:00:00+02:00',
+              desc: 'Very high temperatures expected. ',
+              instruction: 'Stay hydrated.',
+            },
+            {
+              headline: 'Yellow wind warning',
+              event: 'Wind',
+              severity: 'Moderate',
+              effective: '2024-06-05T00:00:00+02:00',
+              expires: '2024-06-06T00:00:00+02:00',
+              desc: 'Gusts up to 70 km/h.',
+            },
+          ],
+        },
+      };
+    }
+
+    it('requests alerts for the location', async () => {
+      reply = { status: 200, body: alertsBody() };
+
+      await createProvider().getAlerts(paris, '2024-06-02', '2024-06-03');
+
+      expect(requests[0].pathname).toBe('/v1/alerts.json');
+      expect(requests[0].searchParams.get('q')).toBe('48.8566,2.3522');
+    });
+
+    it('maps alerts overlapping the range, clamped to it', async () => {
+      reply = { status: 200, body: alertsBody() };
+
+      const alerts = await createProvider().getAlerts(paris, '2024-06-02', '2024-06-03');
+
+      expect(alerts).toEqual([
+        {
+          type: 'heat',
+          severity: 'warning',
+          title: 'Heat Wave',
+          description: 'Very high temperatures expected. Stay hydrated.',
+          startDate: '2024-06-02',
+          endDate: '2024-06-03',
+          source: 'provider',
+        },
+      ]);
+    });
+
+    it('returns no alerts when none are in effect', async () => {
+      reply = { status: 200, body: { alerts: { alert: [] } } };
+
+      expect(await createProvider().getAlerts(paris, '2024-06-01', '2024-06-03')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { classifyAlert } from '../alerts';
+import { eachDay, parseDay, todayIn } from '../dates';
+import type { GeoLocation, WeatherAlert, WeatherData, WeatherProvider } from '../types';
+
+export const DEFAULT_WEATHER_API_URL = 'https://api.weatherapi.com/v1';
+
+/**
+ * How far ahead the forecast endpoint can see
+ */
+const MAX_FORECAST_DAYS = 14;
+
+export interface HttpWeatherProviderOptions {
+  apiKey: string;
+  /** API root, without a trailing slash (default: WeatherAPI.com) */
+  baseUrl?: string;
+  /** Abort requests that take longer than this (default: 10s) */
+  timeoutMs?: number;
+  /** Clock used to work out how many forecast days to request */
+  now?: () => Date;
+}
+
+/**
+ * Subset of the WeatherAPI.com forecast response that we read
+ */
+interface ForecastResponse {
+  forecast: {
+    forecastday: Array<{
+      date: string;
+      day: {
+        maxtemp_c: number;
+        mintemp_c: number;
+        avghumidity: number;
+        maxwind_kph: number;
+        totalprecip_mm: number;
+        uv: number;
+        daily_chance_of_rain: number;
+        daily_chance_of_snow: number;
+        condition: { text: string };
+      };
+    }>;
+  };
+}
+
+/**
+ * Subset of the WeatherAPI.com alerts response that we read
+ */
+interface AlertsResponse {
+  alerts: {
+    alert: Array<{
+      headline: string;
+      event: string;
+      severity: string;
+      effective: string;
+      expires: string;
+      desc: string;
+      instruction?: string;
+    }>;
+  };
+}
+
+/**
+ * HTTP weather provider - real forecasts from a WeatherAPI.com-compatible API
+ */
+export class HttpWeatherProvider implements WeatherProvider {
+  readonly name = 'http';
+  readonly forecastDays = MAX_FORECAST_DAYS;
+
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly now: () => Date;
+
+  constructor(options: HttpWeatherProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_WEATHER_API_URL).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async getForecast(
+    location: GeoLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<WeatherData[]> {
+    const today = todayIn(location.timezone, this.now());
+    const start = parseDay(startDate);
+    const end = parseDay(endDate);
+    if (!start || !end) {
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+
+    if (differenceInCalendarDays(start, today) < 0) {
+      throw new Error('Forecasts are only available from today onwards');
+    }
+
+    const days = differenceInCalendarDays(end, today) + 1;
+    if (days > MAX_FORECAST_DAYS) {
+      throw new Error(`Forecasts are only available up to ${MAX_FORECAST_DAYS} days ahead`);
+    }
+
+    const url = new URL(`${this.baseUrl}/forecast.json`);
+    url.searchParams.set('key', this.apiKey);
+    url.searchParams.set('q', `${location.latitude},${location.longitude}`);
+    url.searchParams.set('days', String(days));
+    url.searchParams.set('aqi', 'no');
+    url.searchParams.set('alerts', 'no');
+
+    const body = (await this.request(url)) as ForecastResponse;
+    const byDate = new Map(body.forecast.forecastday.map((entry) => [entry.date, entry.day]));
+
+    return eachDay(startDate, endDate).map((date): WeatherData => {
+      const day = byDate.get(date);
+      if (!day) {
+        throw new Error(`No forecast available for ${location.name} on ${date}`);
+      }
+
+      return {
+        date,
+        temperature: {
+          high: Math.round(day.maxtemp_c),
+          low: Math.round(day.mintemp_c),
+          unit: 'C',
+        },
+        conditions: day.condition.text.trim(),
+        precipitation: Math.round(Math.max(day.daily_chance_of_rain, day.daily_chance_of_snow)),
+        precipitationAmount: { amount: Math.round(day.totalprecip_mm * 10) / 10, unit: 'mm' },
+        humidity: Math.round(day.avghumidity),
+        wind: { speed: Math.round(day.maxwind_kph), unit: 'km/h' },
+        uvIndex: Math.round(day.uv),
+        source: 'forecast',
+      };
+    });
+  }
+
+  /**
+   * Official alerts (government warnings) in effect during the range
+   */
+  async getAlerts(
+    location: GeoLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<WeatherAlert[]> {
+    const url = new URL(`${this.baseUrl}/alerts.json`);
+    url.searchParams.set('key', this.apiKey);
+    url.searchParams.set('q', `${location.latitude},${location.longitude}`);
+
+    const body = (await this.request(url)) as AlertsResponse;
+
+    return (body.alerts?.alert ?? [])
+      .map((alert): WeatherAlert => {
+        // Timestamps are ISO 8601, so the date is their first 10 characters
+        const effective = alert.effective.slice(0, 10);
+        const expires = alert.expires.slice(0, 10);
+        return {
+          type: classifyAlert(alert.event),
+          severity: /extreme|severe/i.test(alert.severity) ? 'warning' : 'advisory',
+          title: alert.event.trim() || alert.headline.trim(),
+          description: [alert.desc, alert.instruction]
+            .map((text) => text?.trim())
+            .filter(Boolean)
+            .join(' '),
+          startDate: effective > startDate ? effective : startDate,
+          endDate: expires < endDate ? expires : endDate,
+          source: 'provider',
+        };
+      })
+      .filter((alert) => alert.startDate <= alert.endDate);
+  }
+
+  /**
+   * GET a URL and return the parsed JSON body, turning API errors into Errors
+   */
+  private async request(url: URL): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      // Abort errors are DOMExceptions, which aren't always instanceof Error
+      if ((error as { name?: string } | null)?.name === 'TimeoutError') {
+        throw new Error(`Weather API did not respond within ${this.timeoutMs}ms`);
+      }
+      throw new Error(
+        `Weather API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      // WeatherAPI.com reports errors as { error: { code, message } }
+      const message = (body as { error?: { message?: string } } | null)?.error?.message;
+      throw new Error(`Weather API error (${response.status}): ${message ?? response.statusText}`);
+    }
+
+    if (!body) {
+      throw new Error('Weather API returned an invalid response');
+    }
+
+    return body;
+  }
+}
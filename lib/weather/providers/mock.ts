@@ -0,0 +1,78 @@
+import { eachDay } from '../dates';
+import type { GeoLocation, WeatherData, WeatherProvider } from '../types';
+
+const CONDITIONS = ['Sunny', 'Partly Cloudy', 'Cloudy', 'Light Rain', 'Rain', 'Clear'];
+
+/**
+ * Forecast horizon to simulate - matches the HTTP provider
+ */
+const FORECAST_DAYS = 14;
+
+/**
+ * Mock weather provider - deterministic forecasts for development and tests
+ *
+ * Each day is generated from a PRNG seeded with the coordinates and date, so
+ * the same query always returns the same forecast and overlapping ranges
+ * agree on the days they share.
+ */
+export class MockWeatherProvider implements WeatherProvider {
+  readonly name = 'mock';
+  readonly forecastDays = FORECAST_DAYS;
+
+  /**
+   * @param seed - Mixed into every day's seed to get a different, still stable, set of forecasts
+   */
+  constructor(private readonly seed = '') {}
+
+  async getForecast(
+    location: GeoLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<WeatherData[]> {
+    return eachDay(startDate, endDate).map((date) => this.forecastDay(location, date));
+  }
+
+  private forecastDay(location: GeoLocation, date: string): WeatherData {
+    const place = `${location.latitude.toFixed(2)},${location.longitude.toFixed(2)}`;
+    const random = createRandom(`${this.seed}|${place}|${date}`);
+    const low = Math.round(5 + random() * 10);
+    const high = low + Math.round(3 + random() * 12);
+    const conditions = CONDITIONS[Math.floor(random() * CONDITIONS.length)];
+    const precipitation = Math.round(random() * 100);
+    const humidity = Math.round(50 + random() * 40);
+
+    return {
+      date,
+      temperature: { high, low, unit: 'C' },
+      conditions,
+      precipitation,
+      // Wetter days get more rain, up to 20mm
+      precipitationAmount: {
+        amount: Math.round(random() * precipitation * 2) / 10,
+        unit: 'mm',
+      },
+      humidity,
+      wind: { speed: Math.round(5 + random() * 35), unit: 'km/h' },
+      uvIndex: Math.round(1 + random() * 9),
+      source: 'forecast',
+    };
+  }
+}
+
+/**
+ * Seeded PRNG returning floats in [0, 1) - FNV-1a hash feeding mulberry32
+ */
+function createRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
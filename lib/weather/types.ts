@@ -0,0 +1,111 @@
+import type { PrecipitationUnit, SpeedUnit, TemperatureUnit, UnitSystem } from './units';
+
+/**
+ * Weather forecast for a single day
+ *
+ * Providers report metric units; getWeather converts to the requested system.
+ */
+export interface WeatherData {
+  date: string;
+  temperature: {
+    high: number;
+    low: number;
+    unit: TemperatureUnit;
+  };
+  conditions: string;
+  /** Chance of precipitation, 0-100 */
+  precipitation: number;
+  /** Expected rain/snow total for the day */
+  precipitationAmount: {
+    amount: number;
+    unit: PrecipitationUnit;
+  };
+  humidity: number;
+  /** Maximum wind speed, or null when unknown (climate averages don't include wind) */
+  wind: {
+    speed: number;
+    unit: SpeedUnit;
+  } | null;
+  /** Peak UV index, 0-11+ */
+  uvIndex: number;
+  /**
+   * "forecast" for provider forecasts, "climatology" for historical monthly
+   * averages used outside the provider's forecast horizon
+   */
+  source: 'forecast' | 'climatology';
+}
+
+/**
+ * A weather hazard during the trip
+ */
+export interface WeatherAlert {
+  type: 'heat' | 'freeze' | 'storm' | 'heavy_rain' | 'other';
+  severity: 'advisory' | 'warning';
+  /** Short summary, e.g. "Heat warning" */
+  title: string;
+  description: string;
+  /** First and last affected day (YYYY-MM-DD) */
+  startDate: string;
+  endDate: string;
+  /** "threshold" when derived from the daily data, "provider" for official alerts */
+  source: 'threshold' | 'provider';
+}
+
+/**
+ * A geocoded place
+ */
+export interface GeoLocation {
+  name: string;
+  region?: string;
+  /** Unset for bare coordinates far from any known place */
+  country?: string;
+  countryCode?: string;
+  latitude: number;
+  longitude: number;
+  /** IANA timezone, e.g. "Europe/Paris" */
+  timezone: string;
+}
+
+/**
+ * Weather forecast for a location and date range
+ */
+export interface WeatherForecast {
+  /** Display label, e.g. "Paris, Île-de-France, France" */
+  location: string;
+  place: GeoLocation;
+  startDate: string;
+  endDate: string;
+  /** Unit system the forecast is expressed in */
+  units: UnitSystem;
+  forecast: WeatherData[];
+  /** Hazards to plan for, official alerts first */
+  alerts: WeatherAlert[];
+  /** Set when the forecast went through the weather cache */
+  cache?: WeatherCacheStats;
+}
+
+/**
+ * Cache hit/miss report for one getWeather call
+ */
+export interface WeatherCacheStats {
+  /** "hit" when every day was cached, "miss" when none were */
+  status: 'hit' | 'miss' | 'partial';
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Source of weather forecasts
+ *
+ * Providers receive a geocoded location and validated YYYY-MM-DD dates,
+ * and return one entry per day of the inclusive range, or throw an Error
+ * explaining why they can't.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  /** How many days, counting today, the provider can forecast */
+  readonly forecastDays: number;
+  getForecast(location: GeoLocation, startDate: string, endDate: string): Promise<WeatherData[]>;
+  /** Official alerts overlapping the range, for providers that publish them */
+  getAlerts?(location: GeoLocation, startDate: string, endDate: string): Promise<WeatherAlert[]>;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertPrecipitation,
+  convertSpeed,
+  convertTemperature,
+  convertWeatherData,
+  isUnitSystem,
+} from './units';
+import type { WeatherData } from './types';
+
+const day: WeatherData = {
+  date: '2024-06-01',
+  temperature: { high: 25, low: 14, unit: 'C' },
+  conditions: 'Sunny',
+  precipitation: 40,
+  precipitationAmount: { amount: 12.7, unit: 'mm' },
+  humidity: 60,
+  wind: { speed: 32, unit: 'km/h' },
+  uvIndex: 7,
+  source: 'forecast',
+};
+
+describe('unit conversions', () => {
+  it('converts temperatures both ways', () => {
+    expect(convertTemperature(25, 'C', 'F')).toBe(77);
+    expect(convertTemperature(-40, 'C', 'F')).toBe(-40);
+    expect(convertTemperature(77, 'F', 'C')).toBe(25);
+    expect(convertTemperature(25, 'C', 'C')).toBe(25);
+  });
+
+  it('converts wind speeds both ways', () => {
+    expect(convertSpeed(32, 'km/h', 'mph')).toBe(20);
+    expect(convertSpeed(20, 'mph', 'km/h')).toBe(32);
+  });
+
+  it('converts precipitation amounts both ways', () => {
+    expect(convertPrecipitation(12.7, 'mm', 'in')).toBe(0.5);
+    expect(convertPrecipitation(1, 'mm', 'in')).toBe(0.04);
+    expect(convertPrecipitation(0.5, 'in', 'mm')).toBe(12.7);
+  });
+
+  it('recognizes unit systems', () => {
+    expect(isUnitSystem('metric')).toBe(true);
+    expect(isUnitSystem('imperial')).toBe(true);
+    expect(isUnitSystem('kelvin')).toBe(false);
+    expect(isUnitSystem(undefined)).toBe(false);
+  });
+});
+
+describe('convertWeatherData', () => {
+  it('expresses a day in imperial units', () => {
+    expect(convertWeatherData(day, 'imperial')).toEqual({
+      ...day,
+      temperature: { high: 77, low: 57, unit: 'F' },
+      precipitationAmount: { amount: 0.5, unit: 'in' },
+      wind: { speed: 20, unit: 'mph' },
+    });
+  });
+
+  it('leaves metric days unchanged', () => {
+    expect(convertWeatherData(day, 'metric')).toEqual(day);
+  });
+
+  it('keeps unknown wind unknown', () => {
+    expect(convertWeatherData({ ...day, wind: null }, 'imperial').wind).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import type { WeatherData } from './types';
+
+/**
+ * Measurement systems the user can choose between
+ */
+export const UNIT_SYSTEMS = ['metric', 'imperial'] as const;
+
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+export type TemperatureUnit = 'C' | 'F';
+export type SpeedUnit = 'km/h' | 'mph';
+export type PrecipitationUnit = 'mm' | 'in';
+
+/**
+ * Units used for each measurement in a unit system
+ */
+export const UNITS: Record<
+  UnitSystem,
+  { temperature: TemperatureUnit; speed: SpeedUnit; precipitation: PrecipitationUnit }
+> = {
+  metric: { temperature: 'C', speed: 'km/h', precipitation: 'mm' },
+  imperial: { temperature: 'F', speed: 'mph', precipitation: 'in' },
+};
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+/**
+ * Convert a temperature, rounded to whole degrees
+ */
+export function convertTemperature(
+  value: number,
+  from: TemperatureUnit,
+  to: TemperatureUnit
+): number {
+  if (from === to) return value;
+  return Math.round(to === 'F' ? (value * 9) / 5 + 32 : ((value - 32) * 5) / 9);
+}
+
+/**
+ * Convert a wind speed, rounded to whole units
+ */
+export function convertSpeed(value: number, from: SpeedUnit, to: SpeedUnit): number {
+  if (from === to) return value;
+  return Math.round(to === 'mph' ? value / 1.609344 : value * 1.609344);
+}
+
+/**
+ * Convert a precipitation amount, rounded to 0.1mm or 0.01in
+ */
+export function convertPrecipitation(
+  value: number,
+  from: PrecipitationUnit,
+  to: PrecipitationUnit
+): number {
+  if (from === to) return value;
+  return to === 'in' ? Math.round((value / 25.4) * 100) / 100 : Math.round(value * 25.4 * 10) / 10;
+}
+
+/**
+ * Express a day's measurements in a unit system
+ */
+export function convertWeatherData(day: WeatherData, units: UnitSystem): WeatherData {
+  const target = UNITS[units];
+
+  return {
+    ...day,
+    temperature: {
+      high: convertTemperature(day.temperature.high, day.temperature.unit, target.temperature),
+      low: convertTemperature(day.temperature.low, day.temperature.unit, target.temperature),
+      unit: target.temperature,
+    },
+    precipitationAmount: {
+      amount: convertPrecipitation(
+        day.precipitationAmount.amount,
+        day.precipitationAmount.unit,
+        target.precipitation
+      ),
+      unit: target.precipitation,
+    },
+    wind: day.wind && {
+      speed: convertSpeed(day.wind.speed, day.wind.unit, target.speed),
+      unit: target.speed,
+    },
+  };
+}